@@ -4,11 +4,19 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { LanguageProvider } from "@/hooks/useLanguage";
+import { AuthProvider } from "@/hooks/useAuth";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Home from "@/pages/Home";
 import Wallet from "@/pages/Wallet";
 import Upload from "@/pages/Upload";
 import History from "@/pages/History";
+import Withdraw from "@/pages/Withdraw";
+import Review from "@/pages/Review";
+import Appeals from "@/pages/Appeals";
+import RewardDetail from "@/pages/RewardDetail";
 import Register from "@/pages/Register";
+import Login from "@/pages/Login";
+import Verify from "@/pages/Verify";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -16,9 +24,15 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/register" component={Register} />
-      <Route path="/wallet" component={Wallet} />
-      <Route path="/upload" component={Upload} />
-      <Route path="/history" component={History} />
+      <Route path="/login" component={Login} />
+      <Route path="/verify/:id" component={Verify} />
+      <ProtectedRoute path="/wallet" component={Wallet} />
+      <ProtectedRoute path="/upload" component={Upload} />
+      <ProtectedRoute path="/history" component={History} />
+      <ProtectedRoute path="/withdraw" component={Withdraw} />
+      <ProtectedRoute path="/admin/reviews" component={Review} />
+      <ProtectedRoute path="/admin/rewards/:id" component={RewardDetail} />
+      <ProtectedRoute path="/admin/appeals" component={Appeals} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -28,10 +42,12 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <LanguageProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </AuthProvider>
       </LanguageProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,63 @@
+import { useLocation } from 'wouter';
+import { LogOut, User as UserIcon, Car, ClipboardCheck, Scale } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+
+export function AccountMenu() {
+  const { t } = useLanguage();
+  const [, navigate] = useLocation();
+  const { user, logoutMutation } = useAuth();
+
+  if (!user) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => navigate('/login')}>
+        {t('auth.title')}
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center space-x-2">
+          <UserIcon className="h-4 w-4" />
+          <span>{user.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="flex items-center space-x-1 font-normal text-gray-600">
+          <Car className="h-3 w-3" />
+          <span>{user.vehicleNumber}</span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(user.role === 'admin' || user.role === 'reviewer') && (
+          <>
+            <DropdownMenuItem onClick={() => navigate('/admin/reviews')}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              {t('review.open')}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => navigate('/admin/appeals')}>
+              <Scale className="h-4 w-4 mr-2" />
+              {t('appeals.open')}
+            </DropdownMenuItem>
+          </>
+        )}
+        <DropdownMenuItem
+          onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => navigate('/login') })}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          {t('auth.logout')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
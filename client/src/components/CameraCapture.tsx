@@ -1,20 +1,32 @@
 import { useState, useRef, useEffect } from 'react';
 import { Camera, RotateCcw, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { startCamera, stopCamera, captureImage, CameraError } from '@/lib/camera';
+import { startCamera, stopCamera, captureImage, captureBurst, CameraError, type BurstFrame } from '@/lib/camera';
+import type { DisplaySize } from '@shared/imagePreprocess';
 import { useLanguage } from '@/hooks/useLanguage';
+import { useLiveOdometerReading, type LiveReading } from '@/hooks/useLiveOdometerReading';
 
 interface CameraCaptureProps {
-  onCapture: (imageData: string) => void;
+  // view: size the full-screen preview was shown at, for locating the scan frame;
+  // frames: every frame of the burst, in burst mode
+  onCapture: (imageData: string, view?: DisplaySize, frames?: BurstFrame[]) => void;
   isProcessing?: boolean;
   fullScreen?: boolean;
+  // Capture several frames and preview the sharpest
+  burst?: boolean;
+  // Read the scan frame while the camera runs and capture by itself once the
+  // reading holds steady; each live reading is passed here
+  onLiveReading?: (live: LiveReading) => void;
 }
 
-export function CameraCapture({ onCapture, isProcessing = false, fullScreen = false }: CameraCaptureProps) {
+export function CameraCapture({ onCapture, isProcessing = false, fullScreen = false, burst = false, onLiveReading }: CameraCaptureProps) {
   const { t } = useLanguage();
   const [isActive, setIsActive] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [capturedView, setCapturedView] = useState<DisplaySize | undefined>(undefined);
+  const [capturedFrames, setCapturedFrames] = useState<BurstFrame[] | undefined>(undefined);
+  const [isCapturing, setIsCapturing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isVideoReady, setIsVideoReady] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -79,16 +91,28 @@ export function CameraCapture({ onCapture, isProcessing = false, fullScreen = fa
     }
   }, []); // Only run on mount
 
-  const handleCapture = () => {
-    if (videoRef.current && stream && isVideoReady) {
+  const handleCapture = async () => {
+    if (videoRef.current && stream && isVideoReady && !isCapturing) {
       try {
         // Check if video has content
         if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
           throw new Error('Video not ready for capture');
         }
         
-        const imageData = captureImage(videoRef.current);
+        let imageData: string;
+        if (burst) {
+          setIsCapturing(true);
+          const frames = await captureBurst(videoRef.current);
+          imageData = frames.reduce((best, frame) => frame.sharpness > best.sharpness ? frame : best).imageData;
+          setCapturedFrames(frames);
+        } else {
+          imageData = captureImage(videoRef.current);
+          setCapturedFrames(undefined);
+        }
         setCapturedImage(imageData);
+        setCapturedView(fullScreen
+          ? { width: videoRef.current.clientWidth, height: videoRef.current.clientHeight }
+          : undefined);
         stopCamera(stream);
         setStream(null);
         setIsActive(false);
@@ -96,12 +120,24 @@ export function CameraCapture({ onCapture, isProcessing = false, fullScreen = fa
       } catch (error) {
         console.error('Capture error:', error);
         setError(`Failed to capture image: ${error}`);
+      } finally {
+        setIsCapturing(false);
       }
-    } else {
+    } else if (!isCapturing) {
       setError('Camera not ready. Please wait and try again.');
     }
   };
 
+  const live = useLiveOdometerReading(
+    videoRef,
+    Boolean(onLiveReading) && isActive && isVideoReady && !isCapturing && !isProcessing,
+    () => handleCapture()
+  );
+
+  useEffect(() => {
+    onLiveReading?.(live);
+  }, [live]);
+
   const handleRetake = () => {
     setCapturedImage(null);
     setIsVideoReady(false);
@@ -110,7 +146,7 @@ export function CameraCapture({ onCapture, isProcessing = false, fullScreen = fa
 
   const handleConfirm = () => {
     if (capturedImage) {
-      onCapture(capturedImage);
+      onCapture(capturedImage, capturedView, capturedFrames);
     }
   };
 
@@ -192,7 +228,7 @@ export function CameraCapture({ onCapture, isProcessing = false, fullScreen = fa
           <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
             <button
               onClick={handleCapture}
-              disabled={!isVideoReady}
+              disabled={!isVideoReady || isCapturing}
               className="w-20 h-20 bg-white rounded-full shadow-2xl flex items-center justify-center disabled:opacity-50 active:scale-95 transition-transform"
             >
               <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center">
@@ -229,7 +265,7 @@ export function CameraCapture({ onCapture, isProcessing = false, fullScreen = fa
         
         <Button 
           onClick={handleCapture} 
-          disabled={!isVideoReady}
+          disabled={!isVideoReady || isCapturing}
           className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold py-4 rounded-xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
           size="lg"
         >
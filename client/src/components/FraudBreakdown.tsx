@@ -0,0 +1,62 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { FraudSignal } from '@shared/schema';
+
+interface FraudBreakdownProps {
+  signals: FraudSignal[];
+  score: number | null;
+}
+
+function formatEvidence(value: string | number | boolean | null): string {
+  if (value === null) return '—';
+  return String(value);
+}
+
+export function FraudBreakdown({ signals, score }: FraudBreakdownProps) {
+  const { t } = useLanguage();
+
+  if (signals.length === 0) {
+    return <p className="text-sm text-gray-500">{t('fraud.noSignals')}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-500">{t('review.fraudScore')}</span>
+        <span className="font-semibold">{(score ?? 0).toFixed(2)}</span>
+      </div>
+
+      {signals.map((signal) => (
+        <div
+          key={signal.check}
+          className={`rounded-lg border p-3 ${signal.triggered ? 'border-orange-300 bg-orange-50' : 'border-gray-200'}`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              {signal.triggered ? (
+                <AlertTriangle className="w-4 h-4 text-orange-600" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+              )}
+              <span className="font-medium text-gray-900">{t(`fraud.checks.${signal.check}`)}</span>
+            </div>
+            <span className={`text-sm ${signal.triggered ? 'font-semibold text-orange-700' : 'text-gray-400'}`}>
+              {signal.triggered ? `+${signal.weight.toFixed(1)}` : `0 / ${signal.weight.toFixed(1)}`}
+            </span>
+          </div>
+          {signal.triggered && (
+            <p className="text-sm text-orange-700 mt-1">{signal.message}</p>
+          )}
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-xs">
+            {Object.entries(signal.evidence).map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-gray-500">{key}</dt>
+                <dd className="font-mono text-gray-800 truncate">{formatEvidence(value)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
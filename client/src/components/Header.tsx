@@ -1,6 +1,6 @@
 import { Leaf, ChevronDown } from 'lucide-react';
 import { useLanguage } from '@/hooks/useLanguage';
-import { UserSwitcher } from './UserSwitcher';
+import { AccountMenu } from './AccountMenu';
 
 export function Header() {
   const { language, setLanguage, t } = useLanguage();
@@ -17,7 +17,7 @@ export function Header() {
       </div>
       
       <div className="flex items-center space-x-3">
-        <UserSwitcher />
+        <AccountMenu />
         
         <div className="relative">
           <select 
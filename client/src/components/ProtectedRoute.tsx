@@ -0,0 +1,26 @@
+import { ComponentType } from 'react';
+import { Redirect, Route } from 'wouter';
+import { useAuth } from '@/hooks/useAuth';
+
+interface ProtectedRouteProps {
+  path: string;
+  component: ComponentType;
+}
+
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="w-8 h-8 border-4 border-green-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Ban, Camera, Clock, XCircle } from 'lucide-react';
+import { CameraCapture } from '@/components/CameraCapture';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { apiRequest } from '@/lib/queryClient';
+import type { Appeal } from '@shared/schema';
+
+export interface SuspensionStatus {
+  suspended: boolean;
+  suspendedAt: string | null;
+  reasons: string[];
+  appeal: Appeal | null;
+}
+
+// Shown instead of the camera while the user's vehicle is suspended
+export function SuspensionNotice({ status }: { status: SuspensionStatus }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState('');
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+
+  const appealMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/appeals', { message, photoUrl: photo });
+      return response.json();
+    },
+    onSuccess: () => {
+      setMessage('');
+      setPhoto(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/suspension'] });
+      toast({
+        title: t('common.success'),
+        description: t('suspension.submitted'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const appeal = status.appeal;
+  const canAppeal = !appeal || appeal.status === 'rejected';
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-red-50/80 border border-red-200">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-red-700">
+            <Ban className="h-5 w-5" />
+            <span>{t('suspension.title')}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-gray-700">{t('suspension.description')}</p>
+          {status.suspendedAt && (
+            <p className="text-sm text-gray-500">
+              {t('suspension.since')}: {new Date(status.suspendedAt).toLocaleString()}
+            </p>
+          )}
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">{t('suspension.reasons')}:</p>
+            <ul className="list-disc list-inside text-sm text-gray-600 space-y-1">
+              {status.reasons.map((reason, index) => (
+                <li key={index}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        </CardContent>
+      </Card>
+
+      {appeal?.status === 'pending' && (
+        <Card>
+          <CardContent className="pt-6 flex items-center space-x-3 text-gray-700">
+            <Clock className="h-5 w-5 text-orange-500" />
+            <span>{t('suspension.appealPending')}</span>
+          </CardContent>
+        </Card>
+      )}
+
+      {appeal?.status === 'rejected' && (
+        <Card>
+          <CardContent className="pt-6 space-y-1">
+            <div className="flex items-center space-x-3 text-gray-700">
+              <XCircle className="h-5 w-5 text-red-500" />
+              <span>{t('suspension.appealRejected')}</span>
+            </div>
+            {appeal.reviewNote && (
+              <p className="text-sm text-gray-500 pl-8">{appeal.reviewNote}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canAppeal && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('suspension.appealTitle')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="appeal-message">{t('suspension.message')}</Label>
+              <Textarea
+                id="appeal-message"
+                placeholder={t('suspension.messagePlaceholder')}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={4}
+                className="mt-2"
+              />
+            </div>
+
+            <div>
+              <Label>{t('suspension.photo')}</Label>
+              <div className="mt-2">
+                {showCamera ? (
+                  <CameraCapture
+                    onCapture={(imageData) => {
+                      setPhoto(imageData);
+                      setShowCamera(false);
+                    }}
+                  />
+                ) : photo ? (
+                  <div className="space-y-2">
+                    <img src={photo} alt="Supporting photo" className="w-full max-h-48 object-contain rounded border bg-gray-50" />
+                    <Button variant="outline" size="sm" onClick={() => setShowCamera(true)}>
+                      {t('upload.retake')}
+                    </Button>
+                  </div>
+                ) : (
+                  <Button variant="outline" onClick={() => setShowCamera(true)}>
+                    <Camera className="w-4 h-4 mr-2" />
+                    {t('upload.takePhoto')}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <Button
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white"
+              disabled={message.trim().length < 10 || !photo || appealMutation.isPending}
+              onClick={() => appealMutation.mutate()}
+            >
+              {appealMutation.isPending ? t('upload.processing') : t('suspension.submit')}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useLocation } from 'wouter';
 import { useLanguage } from '@/hooks/useLanguage';
 
 interface WalletCardProps {
@@ -8,6 +9,7 @@ interface WalletCardProps {
 
 export function WalletCard({ balance, co2Saved, vehicleId }: WalletCardProps) {
   const { t } = useLanguage();
+  const [, setLocation] = useLocation();
 
   return (
     <div className="px-4 mb-6">
@@ -19,7 +21,7 @@ export function WalletCard({ balance, co2Saved, vehicleId }: WalletCardProps) {
           <div className="mb-6">
             <p className="text-sm opacity-90 mb-1">{t('wallet.currentBalance')}</p>
             <div className="flex items-baseline space-x-1">
-              <span className="text-3xl font-bold">₹{balance}</span>
+              <span className="text-3xl font-bold">₹{balance.toFixed(2)}</span>
               <span className="text-sm opacity-75">INR</span>
             </div>
           </div>
@@ -39,9 +41,9 @@ export function WalletCard({ balance, co2Saved, vehicleId }: WalletCardProps) {
             
             <button 
               className="bg-white bg-opacity-20 backdrop-blur-sm px-4 py-2 rounded-lg text-sm font-medium hover:bg-opacity-30 transition-all duration-200" 
-              disabled
+              onClick={() => setLocation('/withdraw')}
             >
-              {t('wallet.withdrawSoon')}
+              {t('wallet.withdraw')}
             </button>
           </div>
         </div>
@@ -0,0 +1,71 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import type { User } from '@shared/schema';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean;
+  requestOtpMutation: UseMutationResult<{ sent: boolean }, Error, { phone: string }>;
+  verifyOtpMutation: UseMutationResult<{ user: User }, Error, { phone: string; otp: string }>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data, isLoading } = useQuery<{ user: User } | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const requestOtpMutation = useMutation({
+    mutationFn: async (data: { phone: string }) => {
+      const response = await apiRequest('POST', '/api/auth/request-otp', data);
+      return response.json();
+    },
+  });
+
+  const verifyOtpMutation = useMutation({
+    mutationFn: async (data: { phone: string; otp: string }) => {
+      const response = await apiRequest('POST', '/api/auth/verify-otp', data);
+      return response.json();
+    },
+    onSuccess: (data: { user: User }) => {
+      queryClient.setQueryData(['/api/auth/me'], data);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      // Drop every cached per-user query along with the session
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: data?.user ?? null,
+        isLoading,
+        requestOtpMutation,
+        verifyOtpMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { readVideoFrame } from '@/lib/ocr';
+import { OCRCancelledError } from '@shared/ocrService';
+
+// Read the scan frame of a live camera preview a couple of times a second
+// and report once the same reading comes back several frames in a row -
+// the cue to capture, like a UPI scanner locking onto a QR code.
+
+// Start a read at most this often; a read that takes longer just delays the next
+const READ_INTERVAL_MS = 500;
+// Consecutive frames that must agree before the reading counts as stable
+const STABLE_FRAMES = 3;
+// Tesseract confidence (0-100) below which a frame doesn't count towards stability
+const MIN_LIVE_CONFIDENCE = 60;
+
+export interface LiveReading {
+  reading: number | null;
+  stableFrames: number; // how many frames in a row have read this value
+}
+
+const NO_READING: LiveReading = { reading: null, stableFrames: 0 };
+
+// Takes the ref rather than the element: the element isn't mounted on the
+// first render, and the ref filling in doesn't cause a render of its own
+export function useLiveOdometerReading(
+  videoRef: RefObject<HTMLVideoElement>,
+  enabled: boolean,
+  onStable: (reading: number) => void
+): LiveReading {
+  const [live, setLive] = useState<LiveReading>(NO_READING);
+  // Kept in a ref so a new callback each render doesn't restart the loop
+  const onStableRef = useRef(onStable);
+  onStableRef.current = onStable;
+
+  useEffect(() => {
+    setLive(NO_READING);
+    const video = videoRef.current;
+    if (!video || !enabled) return;
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let last = NO_READING;
+
+    const readNext = async () => {
+      const startedAt = Date.now();
+      try {
+        const result = await readVideoFrame(video, {
+          scanView: { width: video.clientWidth, height: video.clientHeight },
+          signal: controller.signal
+        });
+        const reading = result.confidence >= MIN_LIVE_CONFIDENCE ? result.reading : null;
+        last = reading === null
+          ? NO_READING
+          : { reading, stableFrames: reading === last.reading ? last.stableFrames + 1 : 1 };
+        setLive(last);
+
+        if (last.reading !== null && last.stableFrames >= STABLE_FRAMES) {
+          onStableRef.current(last.reading);
+          return;
+        }
+      } catch (error) {
+        if (error instanceof OCRCancelledError) return;
+        console.error('Live OCR failed:', error);
+      }
+      if (!controller.signal.aborted) {
+        timer = setTimeout(readNext, Math.max(0, READ_INTERVAL_MS - (Date.now() - startedAt)));
+      }
+    };
+    timer = setTimeout(readNext, READ_INTERVAL_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [videoRef, enabled]);
+
+  return live;
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getOCRProgress, subscribeOCRProgress, type OCRProgress } from '@shared/ocrService';
+
+// What the shared OCR worker is doing right now, for progress indicators
+export function useOCRProgress(): OCRProgress {
+  return useSyncExternalStore(subscribeOCRProgress, getOCRProgress);
+}
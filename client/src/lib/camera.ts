@@ -1,3 +1,5 @@
+import { sharpness, toGray } from '@shared/imagePreprocess';
+
 export class CameraError extends Error {
   constructor(message: string) {
     super(message);
@@ -64,3 +66,39 @@ export function captureImage(video: HTMLVideoElement): string {
   context.drawImage(video, 0, 0);
   return canvas.toDataURL('image/jpeg', 0.8);
 }
+
+export interface BurstFrame {
+  imageData: string;
+  sharpness: number; // see sharpness in shared/imagePreprocess
+}
+
+// Sharpness is measured on a small copy of the frame: fast, and the same
+// size for every frame so the scores compare
+const SHARPNESS_SAMPLE_WIDTH = 320;
+
+function measureSharpness(video: HTMLVideoElement): number {
+  const canvas = document.createElement('canvas');
+  canvas.width = SHARPNESS_SAMPLE_WIDTH;
+  canvas.height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * SHARPNESS_SAMPLE_WIDTH));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new CameraError('Failed to get canvas context');
+  }
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return sharpness(toGray(context.getImageData(0, 0, canvas.width, canvas.height)));
+}
+
+// Several frames a short interval apart, so a shaken or mis-focused frame
+// doesn't decide the reading on its own
+export async function captureBurst(video: HTMLVideoElement, count = 5, intervalMs = 150): Promise<BurstFrame[]> {
+  const frames: BurstFrame[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i > 0) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+    frames.push({ imageData: captureImage(video), sharpness: measureSharpness(video) });
+  }
+  return frames;
+}
@@ -0,0 +1,54 @@
+import { toGray, type FrameRegion, type GrayImage } from '@shared/imagePreprocess';
+
+// Getting pixels in and out of the browser for the clean-up in
+// shared/imagePreprocess.
+
+export async function loadGrayImage(src: string): Promise<GrayImage> {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get canvas context');
+  }
+  context.drawImage(img, 0, 0);
+  return toGray(context.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+// The part of the current video frame inside a region
+export function grayFromVideo(video: HTMLVideoElement, region: FrameRegion): GrayImage {
+  const sx = Math.round(region.x * video.videoWidth);
+  const sy = Math.round(region.y * video.videoHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * video.videoWidth));
+  canvas.height = Math.max(1, Math.round(region.height * video.videoHeight));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get canvas context');
+  }
+  context.drawImage(video, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return toGray(context.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+export function grayToCanvas(image: GrayImage): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const rgba = context.createImageData(image.width, image.height);
+  for (let i = 0; i < image.data.length; i++) {
+    const p = i * 4;
+    rgba.data[p] = rgba.data[p + 1] = rgba.data[p + 2] = image.data[i];
+    rgba.data[p + 3] = 255;
+  }
+  context.putImageData(rgba, 0, 0);
+  return canvas;
+}
@@ -1,4 +1,11 @@
-import { createWorker } from 'tesseract.js';
+import { cropToScanFrame, MAX_CANDIDATE_ROWS, readOdometerRows } from '@shared/odometerOcr';
+import { scanFrameRegion, type DisplaySize, type GrayImage } from '@shared/imagePreprocess';
+import { OCRCancelledError, recognizeDigits } from '@shared/ocrService';
+import { grayFromVideo, grayToCanvas, loadGrayImage } from './imagePreprocess';
+import { readingConsensus } from './ocrConsensus';
+import type { BurstFrame } from './camera';
+
+export { OCRCancelledError };
 
 export class OCRError extends Error {
   constructor(message: string) {
@@ -15,71 +22,102 @@ export interface OCRResult {
   processingTime: number;
 }
 
-export async function extractOdometerReading(imageData: string): Promise<OCRResult> {
+export interface BurstOCRResult extends OCRResult {
+  agreement: number; // 0-1 across the frames read; confidence is this as a percentage
+  framesRead: number;
+  blurryFrames: number;
+}
+
+export interface OCROptions {
+  // Size the camera preview was shown at, to crop to the Upload scan frame
+  scanView?: DisplaySize;
+  // Aborted when the user retakes the photo
+  signal?: AbortSignal;
+}
+
+// Live preview reads only the best row, to keep up with the camera
+const LIVE_CANDIDATE_ROWS = 1;
+
+// Pick the odometer row out of an image already cropped to the scan frame
+// (or the whole photo) and read it with the browser's Tesseract worker
+function readFramedImage(framed: GrayImage, maxCandidates: number, signal?: AbortSignal) {
+  return readOdometerRows(framed, maxCandidates, image => recognizeDigits(grayToCanvas(image), signal));
+}
+
+function failedResult(error: unknown, startTime: number): OCRResult {
+  // The caller asked to stop - don't hand back an empty result as if the scan ran
+  if (error instanceof OCRCancelledError) throw error;
+  console.error('OCR Error:', error);
+  return {
+    reading: null,
+    confidence: 0,
+    rawText: '',
+    detectedNumbers: [],
+    processingTime: Date.now() - startTime
+  };
+}
+
+export async function extractOdometerReading(imageData: string, options: OCROptions = {}): Promise<OCRResult> {
   const startTime = Date.now();
   
   try {
-    const worker = await createWorker('eng', 1, {
-      logger: m => console.log(m)
-    });
-    
-    await worker.setParameters({
-      tessedit_char_whitelist: '0123456789.',
-      tessedit_pageseg_mode: '7', // Single text line
-      tessedit_ocr_engine_mode: '2', // LSTM only
-    });
-    
-    const { data } = await worker.recognize(imageData);
-    await worker.terminate();
-    
-    const rawText = data.text.trim();
-    const confidence = data.confidence;
-    
-    // Enhanced number extraction with validation
-    const numberMatches = rawText.match(/\d+\.?\d*/g) || [];
-    const detectedNumbers = numberMatches
-      .map(n => parseFloat(n))
-      .filter(n => !isNaN(n) && n >= 100 && n <= 9999999) // Reasonable odometer range
-      .sort((a, b) => b - a); // Sort descending
-    
-    // Smart odometer reading detection
-    let bestReading = null;
-    
-    if (detectedNumbers.length > 0) {
-      // Prioritize numbers in typical odometer ranges (1000-999999)
-      const prioritized = detectedNumbers.filter(n => n >= 1000 && n <= 999999);
-      
-      if (prioritized.length > 0) {
-        // Take the number with most digits as it's likely the full odometer reading
-        bestReading = prioritized
-          .sort((a, b) => b.toString().length - a.toString().length)[0];
-      } else {
-        // Fallback to largest detected number
-        bestReading = detectedNumbers[0];
-      }
-    }
-    
-    const processingTime = Date.now() - startTime;
-    
-    return {
-      reading: bestReading,
-      confidence: confidence,
-      rawText: rawText,
-      detectedNumbers: detectedNumbers,
-      processingTime: processingTime
-    };
+    const photo = await loadGrayImage(imageData);
+    const framed = cropToScanFrame(photo, options.scanView);
+    const result = await readFramedImage(framed, MAX_CANDIDATE_ROWS, options.signal);
+    return { ...result, processingTime: Date.now() - startTime };
   } catch (error) {
-    console.error('OCR Error:', error);
-    return {
-      reading: null,
-      confidence: 0,
-      rawText: '',
-      detectedNumbers: [],
-      processingTime: Date.now() - startTime
-    };
+    return failedResult(error, startTime);
   }
 }
 
+// Quick read of what is inside the scan frame right now, for the live preview
+export async function readVideoFrame(video: HTMLVideoElement, options: OCROptions = {}): Promise<OCRResult> {
+  const startTime = Date.now();
+
+  try {
+    const region = options.scanView
+      ? scanFrameRegion(video.videoWidth, video.videoHeight, options.scanView)
+      : { x: 0, y: 0, width: 1, height: 1 };
+    const result = await readFramedImage(grayFromVideo(video, region), LIVE_CANDIDATE_ROWS, options.signal);
+    return { ...result, processingTime: Date.now() - startTime };
+  } catch (error) {
+    return failedResult(error, startTime);
+  }
+}
+
+// Frames less sharp than this share of the burst's sharpest are skipped
+const MIN_RELATIVE_SHARPNESS = 0.6;
+
+// Read every sharp frame of a burst and vote on each digit
+export async function extractOdometerReadingFromBurst(frames: BurstFrame[], options: OCROptions = {}): Promise<BurstOCRResult> {
+  const startTime = Date.now();
+  const sharpest = Math.max(...frames.map(frame => frame.sharpness));
+  const sharp = frames
+    .filter(frame => frame.sharpness >= sharpest * MIN_RELATIVE_SHARPNESS)
+    .sort((a, b) => b.sharpness - a.sharpness);
+
+  const results: OCRResult[] = [];
+  for (const frame of sharp) {
+    results.push(await extractOdometerReading(frame.imageData, options));
+  }
+
+  const read = results.filter(result => result.reading !== null);
+  const consensus = readingConsensus(read.map(result => result.reading!));
+  // Report the text of a frame that agreed with the vote, for debugging
+  const agreeing = read.find(result => Math.round(result.reading!) === consensus.reading) ?? read[0];
+
+  return {
+    reading: consensus.reading,
+    confidence: Math.round(consensus.agreement * 100),
+    rawText: agreeing?.rawText ?? '',
+    detectedNumbers: read.map(result => result.reading!),
+    processingTime: Date.now() - startTime,
+    agreement: consensus.agreement,
+    framesRead: consensus.votes,
+    blurryFrames: frames.length - sharp.length
+  };
+}
+
 export function validateOdometerReading(
   currentReading: number,
   lastReading: number | null,
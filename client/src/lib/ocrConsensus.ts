@@ -0,0 +1,55 @@
+// Combine the readings OCR gave for several frames of the same odometer.
+// Each digit position is voted on separately, so one misread digit in one
+// frame is outvoted rather than discarding the whole frame.
+
+export interface ReadingConsensus {
+  reading: number | null;
+  agreement: number; // 0-1: share of frame digits that match the result
+  votes: number; // frames that gave a reading
+}
+
+// Ties between digits go to the earlier reading, so pass the most trusted first
+export function readingConsensus(readings: number[]): ReadingConsensus {
+  const digits = readings.map(reading => Math.round(reading).toString());
+  if (digits.length === 0) {
+    return { reading: null, agreement: 0, votes: 0 };
+  }
+
+  // Frames that read a different number of digits (a dropped leading digit,
+  // a stray mark) can't be lined up, so they only count against agreement.
+  // Ties go to the longer reading.
+  const lengthCounts = new Map<number, number>();
+  digits.forEach(value => lengthCounts.set(value.length, (lengthCounts.get(value.length) || 0) + 1));
+  let length = 0;
+  let lengthCount = 0;
+  lengthCounts.forEach((count, candidate) => {
+    if (count > lengthCount || (count === lengthCount && candidate > length)) {
+      length = candidate;
+      lengthCount = count;
+    }
+  });
+  const aligned = digits.filter(value => value.length === length);
+
+  let result = '';
+  let matching = 0;
+  for (let position = 0; position < length; position++) {
+    const counts = new Map<string, number>();
+    aligned.forEach(value => counts.set(value[position], (counts.get(value[position]) || 0) + 1));
+    let digit = '';
+    let votes = 0;
+    counts.forEach((count, candidate) => {
+      if (count > votes) {
+        digit = candidate;
+        votes = count;
+      }
+    });
+    result += digit;
+    matching += votes;
+  }
+
+  return {
+    reading: parseInt(result, 10),
+    agreement: Math.round((matching / (length * digits.length)) * 100) / 100,
+    votes: digits.length
+  };
+}
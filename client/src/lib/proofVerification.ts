@@ -0,0 +1,153 @@
+import { canonicalJson, type PublicSigningKey, type SignedProofBundle } from '@shared/proof';
+import { readingIdentity } from '@shared/readingIdentity';
+
+// Re-checks a proof bundle entirely in the browser with WebCrypto - nothing
+// here trusts the server beyond the signing keys the partner has pinned.
+// Keys are pinned by fingerprint (?keys= on the verify page); without pins
+// the keys the server publishes are used, and their fingerprints shown so
+// they can be compared against ones obtained out of band.
+
+export type ProofCheckName = 'signature' | 'blockHash' | 'blockSignature' | 'blockData' | 'chainLinkage' | 'readingHash' | 'merklePath';
+
+export interface ProofCheck {
+  name: ProofCheckName;
+  status: 'passed' | 'failed' | 'skipped';
+}
+
+export interface TrustedSigningKey extends PublicSigningKey {
+  fingerprint: string; // SHA-256 hex of the DER public key; the key id is its first 16 digits
+  pinned: boolean;
+}
+
+// A key id is the shortest pin accepted
+const MIN_PIN_LENGTH = 16;
+
+const encoder = new TextEncoder();
+
+function bytesToHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return bytesToHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+// Ed25519 signature by one of the published keys
+async function checkSignature(keys: PublicSigningKey[], keyId: string, signature: string, message: Uint8Array): Promise<boolean> {
+  const key = keys.find(candidate => candidate.keyId === keyId);
+  if (!key) return false;
+  try {
+    const publicKey = await crypto.subtle.importKey('spki', base64ToBytes(key.publicKey), { name: 'Ed25519' }, false, ['verify']);
+    return await crypto.subtle.verify({ name: 'Ed25519' }, publicKey, base64ToBytes(signature), message);
+  } catch {
+    // Browsers without Ed25519 support in WebCrypto
+    return false;
+  }
+}
+
+// Pins are fingerprints, or prefixes of at least a key id's length. Only
+// published keys matching a pin are trusted - and only when the key id really
+// is derived from the key, so a server can't relabel a key of its own.
+export async function trustedSigningKeys(keys: PublicSigningKey[], pins: string[]): Promise<TrustedSigningKey[]> {
+  const normalizedPins = pins
+    .map(pin => pin.trim().toLowerCase().replace(/[^0-9a-f]/g, ''))
+    .filter(pin => pin.length >= MIN_PIN_LENGTH);
+
+  const trusted: TrustedSigningKey[] = [];
+  for (const key of keys) {
+    const fingerprint = await sha256Hex(base64ToBytes(key.publicKey));
+    if (key.keyId !== fingerprint.substring(0, MIN_PIN_LENGTH)) continue;
+    const pinned = normalizedPins.some(pin => fingerprint.startsWith(pin));
+    if (normalizedPins.length === 0 || pinned) {
+      trusted.push({ ...key, fingerprint, pinned });
+    }
+  }
+  return trusted;
+}
+
+export async function verifyProofBundle(proof: SignedProofBundle, keys: PublicSigningKey[]): Promise<ProofCheck[]> {
+  const { bundle } = proof;
+  const checks: ProofCheck[] = [];
+  const record = (name: ProofCheckName, passed: boolean | null) => {
+    checks.push({ name, status: passed === null ? 'skipped' : passed ? 'passed' : 'failed' });
+  };
+
+  record('signature', await checkSignature(
+    keys,
+    proof.signature.keyId,
+    proof.signature.value,
+    encoder.encode(canonicalJson(proof.bundle))
+  ));
+
+  const { block, chain } = bundle;
+  if (block) {
+    // Same serialization the server hashed when it mined the block
+    const blockHash = await sha256Hex(JSON.stringify({
+      index: block.index,
+      timestamp: block.timestamp,
+      data: block.data,
+      previousHash: block.previousHash,
+      nonce: block.nonce,
+      merkleRoot: block.merkleRoot
+    }));
+    const dataRoot = await sha256Hex(JSON.stringify(block.data));
+    record('blockHash', blockHash === block.hash && dataRoot === block.merkleRoot);
+
+    record('blockSignature', !!block.keyId && !!block.signature &&
+      await checkSignature(keys, block.keyId, block.signature, hexToBytes(blockHash))
+    );
+
+    record('blockData',
+      block.data.type === 'ODOMETER_READING' &&
+      block.data.vehicleNumber === bundle.reading.vehicleNumber &&
+      block.data.odometerReading === bundle.reading.km &&
+      (bundle.reading.imageHash === null || block.data.imageHash === bundle.reading.imageHash)
+    );
+
+    record('chainLinkage', !!chain &&
+      (chain.previousBlock ? block.previousHash === chain.previousBlock.hash : block.index === 0) &&
+      (!chain.nextBlock || chain.nextBlock.previousHash === block.hash)
+    );
+  } else {
+    record('blockHash', null);
+    record('blockSignature', null);
+    record('blockData', null);
+    record('chainLinkage', null);
+  }
+
+  const { anchor } = bundle;
+  if (anchor.readingHash && anchor.readingTimestamp && anchor.merkleRoot) {
+    const readingHash = await sha256Hex(
+      readingIdentity(bundle.reading.vehicleNumber, bundle.reading.km, anchor.readingTimestamp)
+    );
+    record('readingHash', readingHash === anchor.readingHash);
+
+    let node = readingHash;
+    for (const step of anchor.proof) {
+      const [left, right] = step.position === 'left' ? [step.hash, node] : [node, step.hash];
+      const pair = new Uint8Array(64);
+      pair.set(hexToBytes(left), 0);
+      pair.set(hexToBytes(right), 32);
+      node = await sha256Hex(pair);
+    }
+    record('merklePath', node === anchor.merkleRoot);
+  } else {
+    record('readingHash', null);
+    record('merklePath', null);
+  }
+
+  return checks;
+}
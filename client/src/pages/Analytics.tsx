@@ -18,18 +18,16 @@ import {
 import { calculateEcoImpact, generateAchievements, calculateEcoRank, type UserStats } from '@/lib/analytics';
 import { useLanguage } from '@/hooks/useLanguage';
 
-const DEMO_VEHICLE = 'DEMO4774';
-
 export default function Analytics() {
   const { t } = useLanguage();
 
   const { data: walletData, isLoading: walletLoading } = useQuery({
-    queryKey: [`/api/wallet/${DEMO_VEHICLE}`],
+    queryKey: ['/api/wallet'],
     staleTime: 60000, // 1 minute
   });
 
   const { data: historyData, isLoading: historyLoading } = useQuery({
-    queryKey: [`/api/reward-history/${DEMO_VEHICLE}`],
+    queryKey: ['/api/reward-history'],
     staleTime: 60000,
   });
 
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Redirect } from 'wouter';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+import type { Appeal } from '@shared/schema';
+
+type PendingAppeal = Appeal & {
+  suspension: { suspendedAt: string; reasons: string[] } | null;
+};
+
+function AppealCard({ appeal, canDecide }: { appeal: PendingAppeal; canDecide: boolean }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: 'approve' | 'reject') => {
+      const response = await apiRequest('POST', `/api/admin/appeals/${appeal.id}/${decision}`, { note: note || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/appeals'] });
+      toast({
+        title: t('common.success'),
+        description: t(decision === 'approve' ? 'appeals.approved' : 'appeals.rejected'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{appeal.vehicleNumber}</CardTitle>
+          <span className="text-sm text-gray-500">
+            {new Date(appeal.createdAt).toLocaleString()}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <img
+          src={appeal.photoUrl}
+          alt="Supporting photo"
+          className="w-full max-h-64 object-contain rounded border bg-gray-50"
+        />
+
+        <p className="text-gray-800 whitespace-pre-wrap">{appeal.message}</p>
+
+        {appeal.suspension && (
+          <div>
+            <p className="text-sm text-gray-500 mb-1">{t('suspension.reasons')}:</p>
+            <div className="flex flex-wrap gap-1">
+              {appeal.suspension.reasons.map((reason, index) => (
+                <Badge key={index} variant="outline" className="border-orange-300 text-orange-700">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  {reason}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {canDecide && (
+          <>
+            <Textarea
+              placeholder={t('review.notePlaceholder')}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                className="border-red-300 text-red-700 hover:bg-red-50"
+                disabled={!note.trim() || decisionMutation.isPending}
+                onClick={() => decisionMutation.mutate('reject')}
+              >
+                <X className="w-4 h-4 mr-1" />
+                {t('review.reject')}
+              </Button>
+              <Button
+                className="bg-green-600 hover:bg-green-700 text-white"
+                disabled={decisionMutation.isPending}
+                onClick={() => decisionMutation.mutate('approve')}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                {t('appeals.reinstate')}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Appeals() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const isStaff = user?.role === 'admin' || user?.role === 'reviewer';
+
+  const { data: appeals, isLoading } = useQuery<PendingAppeal[]>({
+    queryKey: ['/api/admin/appeals'],
+    enabled: isStaff,
+  });
+
+  if (!isStaff) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
+      <Header />
+
+      <div className="px-4 pb-12 space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('appeals.title')}</h1>
+          <p className="text-gray-600">{t('appeals.subtitle')}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-64 rounded-2xl" />
+            ))}
+          </div>
+        ) : !appeals || appeals.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-gray-500">
+              {t('appeals.empty')}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {appeals.map((appeal) => (
+              <AppealCard key={appeal.id} appeal={appeal} canDecide={user?.role === 'admin'} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
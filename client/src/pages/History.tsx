@@ -1,20 +1,20 @@
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
 import { Header } from '@/components/Header';
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useLanguage } from '@/hooks/useLanguage';
 import type { Reward } from '@shared/schema';
 
-const DEMO_VEHICLE = 'DEMO4774';
-
 export default function History() {
   const { t } = useLanguage();
   
-  const { data: historyData, isLoading } = useQuery({
-    queryKey: ['/api/reward-history', DEMO_VEHICLE],
+  const { data: historyData, isLoading } = useQuery<{ rewards: Reward[] }>({
+    queryKey: ['/api/reward-history'],
   });
 
   const rewards: Reward[] = historyData?.rewards || [];
@@ -58,10 +58,20 @@ export default function History() {
                     <CardTitle className="text-lg">
                       ₹{reward.rewardGiven.toFixed(2)}
                     </CardTitle>
-                    <span className="text-sm text-gray-500">
-                      {new Date(reward.timestamp).toLocaleDateString()}
-                    </span>
+                    <div className="flex items-center space-x-2">
+                      {reward.validationStatus !== 'approved' && (
+                        <Badge variant={reward.validationStatus === 'rejected' ? 'destructive' : 'secondary'}>
+                          {t(`history.status.${reward.validationStatus}`)}
+                        </Badge>
+                      )}
+                      <span className="text-sm text-gray-500">
+                        {new Date(reward.timestamp).toLocaleDateString()}
+                      </span>
+                    </div>
                   </div>
+                  {reward.reviewNote && reward.validationStatus === 'rejected' && (
+                    <p className="text-sm text-red-600">{reward.reviewNote}</p>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-2">
                   <div className="grid grid-cols-2 gap-4 text-sm">
@@ -85,20 +95,12 @@ export default function History() {
                     </div>
                   )}
                   
-                  {reward.txHash && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full mt-3"
-                      onClick={() => {
-                        // Open blockchain explorer (mock URL for demo)
-                        window.open(`https://polygonscan.com/tx/${reward.txHash}`, '_blank');
-                      }}
-                    >
-                      <ExternalLink className="w-4 h-4 mr-2" />
-                      {t('history.viewTx')}
-                    </Button>
-                  )}
+                  <Button variant="outline" size="sm" className="w-full mt-3" asChild>
+                    <Link href={`/verify/${reward.proofId}`}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      {t('history.verify')}
+                    </Link>
+                  </Button>
                 </CardContent>
               </Card>
             ))}
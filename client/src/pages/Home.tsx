@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'wouter';
-import { Car, Users, Leaf, Award, TrendingUp, MapPin, Clock, ChevronRight } from 'lucide-react';
+import { Car, Users, Leaf, Award, TrendingUp, MapPin, Clock, ChevronRight, ShieldAlert } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+import type { AdminAlert } from '@shared/schema';
 
 interface User {
   id: number;
@@ -34,25 +37,99 @@ interface Stats {
   totalReadings: number;
 }
 
+interface BlockchainStatus {
+  network: string;
+  connected: boolean;
+  isTestnet: boolean;
+  transactionCost: 'none' | 'testnet' | 'gas';
+}
+
+const TRANSACTION_COST_LABELS: Record<BlockchainStatus['transactionCost'], string> = {
+  none: 'None (recorded off chain)',
+  testnet: 'Test tokens only',
+  gas: 'Network gas, one transaction per batch'
+};
+
+// Open chain tamper alerts raised by the integrity audit
+function TamperAlerts({ canAcknowledge }: { canAcknowledge: boolean }) {
+  const queryClient = useQueryClient();
+  const { data: alerts } = useQuery<AdminAlert[]>({
+    queryKey: ['/api/admin/alerts'],
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/alerts/${id}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/alerts'] });
+    },
+  });
+
+  const tamperAlerts = alerts?.filter(alert => alert.type === 'chain_tamper') ?? [];
+  if (tamperAlerts.length === 0) return null;
+
+  return (
+    <Card className="bg-red-50/80 border border-red-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-red-700">
+          <ShieldAlert className="h-5 w-5" />
+          <span>Blockchain Tampering Detected</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tamperAlerts.map((alert) => (
+          <div key={alert.id} className="flex items-center justify-between p-3 bg-white/70 rounded-lg">
+            <div>
+              <p className="font-medium text-gray-900">{alert.message}</p>
+              <p className="text-sm text-gray-600">{new Date(alert.createdAt).toLocaleString()}</p>
+            </div>
+            {canAcknowledge && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => acknowledgeMutation.mutate(alert.id)}
+                disabled={acknowledgeMutation.isPending}
+              >
+                Acknowledge
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Home() {
   const { t } = useLanguage();
+  const { user: viewer } = useAuth();
+  // Per-user lists come from the admin API and are only shown to staff
+  const isStaff = viewer?.role === 'admin' || viewer?.role === 'reviewer';
 
   // Fetch real user data
   const { data: users, isLoading: usersLoading } = useQuery<User[]>({
     queryKey: ['/api/admin/users'],
+    enabled: isStaff,
   });
 
-  // Fetch real stats
+  // Fetch public program stats
   const { data: stats, isLoading: statsLoading } = useQuery<Stats>({
-    queryKey: ['/api/admin/stats'],
+    queryKey: ['/api/stats'],
   });
 
   // Fetch recent activity
   const { data: recentActivity, isLoading: activityLoading } = useQuery<Reward[]>({
     queryKey: ['/api/admin/recent-rewards'],
+    enabled: isStaff,
   });
 
-  const isLoading = usersLoading || statsLoading || activityLoading;
+  const { data: blockchainStatus } = useQuery<BlockchainStatus>({
+    queryKey: ['/api/blockchain/status'],
+  });
+
+  const isLoading = statsLoading || (isStaff && (usersLoading || activityLoading));
 
   return (
     <div className="max-w-6xl mx-auto bg-gradient-to-br from-green-50 via-emerald-50/30 to-teal-50/40 min-h-screen">
@@ -139,133 +216,145 @@ export default function Home() {
           </Card>
         </div>
 
-        {/* Recent Users */}
-        <Card className="bg-white/70 backdrop-blur-sm border border-white/30">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Users className="h-5 w-5 text-green-600" />
-              <span>New Eco Warriors</span>
-              <Badge variant="secondary" className="ml-auto">
-                {users?.length || 0} registered
-              </Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <div className="text-center py-8 text-gray-500">Loading users...</div>
-            ) : users && users.length > 0 ? (
-              <div className="space-y-3">
-                {users.slice(0, 5).map((user) => (
-                  <div key={user.id} className="flex items-center space-x-3 p-3 bg-gray-50/50 rounded-lg">
-                    <Avatar className="h-10 w-10">
-                      <AvatarFallback className="bg-green-100 text-green-700">
-                        {user.name.charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <p className="font-medium text-gray-900">{user.name}</p>
-                      <div className="flex items-center space-x-4 text-sm text-gray-600">
-                        <span className="flex items-center space-x-1">
-                          <Car className="h-3 w-3" />
-                          <span>{user.vehicleNumber}</span>
-                        </span>
-                        <span className="flex items-center space-x-1">
-                          <Clock className="h-3 w-3" />
-                          <span>{new Date(user.createdAt).toLocaleDateString()}</span>
-                        </span>
+        {isStaff && (
+          <>
+            <TamperAlerts canAcknowledge={viewer?.role === 'admin'} />
+
+            {/* Recent Users */}
+            <Card className="bg-white/70 backdrop-blur-sm border border-white/30">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Users className="h-5 w-5 text-green-600" />
+                  <span>New Eco Warriors</span>
+                  <Badge variant="secondary" className="ml-auto">
+                    {stats?.totalUsers || 0} registered
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-8 text-gray-500">Loading users...</div>
+                ) : users && users.length > 0 ? (
+                  <div className="space-y-3">
+                    {users.slice(0, 5).map((user) => (
+                      <div key={user.id} className="flex items-center space-x-3 p-3 bg-gray-50/50 rounded-lg">
+                        <Avatar className="h-10 w-10">
+                          <AvatarFallback className="bg-green-100 text-green-700">
+                            {user.name.charAt(0).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium text-gray-900">{user.name}</p>
+                          <div className="flex items-center space-x-4 text-sm text-gray-600">
+                            <span className="flex items-center space-x-1">
+                              <Car className="h-3 w-3" />
+                              <span>{user.vehicleNumber}</span>
+                            </span>
+                            <span className="flex items-center space-x-1">
+                              <Clock className="h-3 w-3" />
+                              <span>{new Date(user.createdAt).toLocaleDateString()}</span>
+                            </span>
+                          </div>
+                        </div>
+                        <Badge variant="outline" className="text-green-600 border-green-200">
+                          New
+                        </Badge>
                       </div>
-                    </div>
-                    <Badge variant="outline" className="text-green-600 border-green-200">
-                      New
-                    </Badge>
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-8">
-                <Users className="h-12 w-12 text-gray-400 mx-auto mb-3" />
-                <p className="text-gray-500">No users registered yet</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                ) : (
+                  <div className="text-center py-8">
+                    <Users className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+                    <p className="text-gray-500">No users registered yet</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-        {/* Recent Activity */}
-        <Card className="bg-white/70 backdrop-blur-sm border border-white/30">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <TrendingUp className="h-5 w-5 text-blue-600" />
-              <span>Recent Activity</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <div className="text-center py-8 text-gray-500">Loading activity...</div>
-            ) : recentActivity && recentActivity.length > 0 ? (
-              <div className="space-y-3">
-                {recentActivity.slice(0, 5).map((reward) => (
-                  <div key={reward.id} className="flex items-center justify-between p-3 bg-blue-50/50 rounded-lg">
-                    <div className="flex items-center space-x-3">
-                      <div className="p-2 bg-blue-100 rounded-full">
-                        <Car className="h-4 w-4 text-blue-600" />
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-900">{reward.vehicleNumber}</p>
-                        <p className="text-sm text-gray-600">
-                          {reward.km.toLocaleString()} km • Saved {reward.co2Saved}kg CO₂
-                        </p>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-bold text-green-600">+₹{reward.rewardGiven}</p>
-                      <p className="text-xs text-gray-500">
-                        {new Date(reward.submittedAt).toLocaleDateString()}
-                      </p>
-                    </div>
+            {/* Recent Activity */}
+            <Card className="bg-white/70 backdrop-blur-sm border border-white/30">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <TrendingUp className="h-5 w-5 text-blue-600" />
+                  <span>Recent Activity</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-8 text-gray-500">Loading activity...</div>
+                ) : recentActivity && recentActivity.length > 0 ? (
+                  <div className="space-y-3">
+                    {recentActivity.slice(0, 5).map((reward) => (
+                      <Link key={reward.id} href={`/admin/rewards/${reward.id}`} className="flex items-center justify-between p-3 bg-blue-50/50 rounded-lg hover:bg-blue-100/50">
+                        <div className="flex items-center space-x-3">
+                          <div className="p-2 bg-blue-100 rounded-full">
+                            <Car className="h-4 w-4 text-blue-600" />
+                          </div>
+                          <div>
+                            <p className="font-medium text-gray-900">{reward.vehicleNumber}</p>
+                            <p className="text-sm text-gray-600">
+                              {reward.km.toLocaleString()} km • Saved {reward.co2Saved}kg CO₂
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-bold text-green-600">+₹{reward.rewardGiven}</p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(reward.submittedAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </Link>
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-8">
-                <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-3" />
-                <p className="text-gray-500">No activity yet</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                ) : (
+                  <div className="text-center py-8">
+                    <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+                    <p className="text-gray-500">No activity yet</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
 
         {/* Blockchain Status */}
-        <Card className="bg-white/70 backdrop-blur-sm border border-white/30">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <div className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></div>
-              <span>Blockchain Status</span>
-              <Badge variant="secondary" className="ml-auto bg-green-100 text-green-700">
-                Live on Polygon Mumbai
-              </Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <p className="text-sm font-medium text-gray-600">Network</p>
-                <p className="text-gray-900">Polygon Mumbai Testnet (Free)</p>
-              </div>
-              <div className="space-y-2">
-                <p className="text-sm font-medium text-gray-600">Fraud Prevention</p>
-                <p className="text-gray-900">Cross-app duplicate detection active</p>
-              </div>
-              <div className="space-y-2">
-                <p className="text-sm font-medium text-gray-600">Transaction Cost</p>
-                <p className="text-gray-900 text-green-600 font-medium">$0.00 (Free)</p>
-              </div>
-              <div className="space-y-2">
-                <p className="text-sm font-medium text-gray-600">Security</p>
-                <p className="text-gray-900">Public blockchain verified</p>
+        {blockchainStatus && (
+          <Card className="bg-white/70 backdrop-blur-sm border border-white/30">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <div className={`w-3 h-3 rounded-full ${blockchainStatus.connected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
+                <span>Blockchain Status</span>
+                <Badge variant="secondary" className={`ml-auto ${blockchainStatus.connected ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                  {blockchainStatus.connected ? `Live on ${blockchainStatus.network}` : `${blockchainStatus.network} unreachable`}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-600">Network</p>
+                  <p className="text-gray-900">{blockchainStatus.network}{blockchainStatus.isTestnet ? ' (Testnet)' : ''}</p>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-600">Fraud Prevention</p>
+                  <p className="text-gray-900">Cross-app duplicate detection active</p>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-600">Transaction Cost</p>
+                  <p className={`font-medium ${blockchainStatus.transactionCost === 'gas' ? 'text-gray-900' : 'text-green-600'}`}>
+                    {TRANSACTION_COST_LABELS[blockchainStatus.transactionCost]}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-600">Security</p>
+                  <p className="text-gray-900">
+                    {blockchainStatus.transactionCost === 'none' ? 'Server-signed vehicle chains' : 'Public blockchain verified'}
+                  </p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Call to Action */}
         <div className="text-center space-y-6">
@@ -285,9 +374,9 @@ export default function Home() {
               </Button>
             </Link>
             
-            <Link href="/wallet">
+            <Link href="/login">
               <Button variant="outline" size="lg" className="px-8">
-                View Demo Wallet
+                Log In
               </Button>
             </Link>
           </div>
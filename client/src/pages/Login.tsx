@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { useLocation, Redirect, Link } from 'wouter';
+import { Phone, KeyRound, ArrowRight } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+
+export default function Login() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { user, requestOtpMutation, verifyOtpMutation } = useAuth();
+  const [phone, setPhone] = useState(() => new URLSearchParams(window.location.search).get('phone') || '');
+  const [otp, setOtp] = useState('');
+  const [otpSent, setOtpSent] = useState(false);
+
+  if (user) {
+    return <Redirect to="/wallet" />;
+  }
+
+  const handleRequestOtp = () => {
+    if (!/^[0-9]{10}$/.test(phone)) {
+      toast({
+        title: t('common.error'),
+        description: t('auth.invalidPhone'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    requestOtpMutation.mutate({ phone }, {
+      onSuccess: () => {
+        setOtpSent(true);
+        toast({
+          title: t('auth.otpSent'),
+          description: t('auth.otpSentDescription', { phone }),
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: t('common.error'),
+          description: error.message,
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const handleVerifyOtp = () => {
+    verifyOtpMutation.mutate({ phone, otp }, {
+      onSuccess: () => navigate('/wallet'),
+      onError: (error) => {
+        toast({
+          title: t('auth.loginFailed'),
+          description: error.message,
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-sm shadow-sm p-4 border-b border-white/20">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">
+            {t('auth.title')}
+          </h1>
+          <p className="text-gray-600 mt-1">{t('auth.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="phone" className="flex items-center">
+              <Phone className="w-4 h-4 mr-1" />
+              {t('register.phone')}
+            </Label>
+            <Input
+              id="phone"
+              type="tel"
+              placeholder="10-digit mobile number"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value.replace(/\D/g, '').slice(0, 10))}
+              disabled={otpSent}
+              className="bg-white/50 border-gray-200 focus:border-green-500 focus:ring-green-200"
+            />
+          </div>
+
+          {otpSent && (
+            <div className="space-y-2">
+              <Label htmlFor="otp" className="flex items-center">
+                <KeyRound className="w-4 h-4 mr-1" />
+                {t('auth.otp')}
+              </Label>
+              <Input
+                id="otp"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code"
+                value={otp}
+                onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className="bg-white/50 border-gray-200 focus:border-green-500 focus:ring-green-200 font-mono text-center text-2xl tracking-widest"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  setOtpSent(false);
+                  setOtp('');
+                }}
+                className="text-sm text-green-700 hover:underline"
+              >
+                {t('auth.changeNumber')}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {otpSent ? (
+          <Button
+            onClick={handleVerifyOtp}
+            disabled={otp.length !== 6 || verifyOtpMutation.isPending}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold py-4 rounded-xl shadow-lg"
+            size="lg"
+          >
+            {verifyOtpMutation.isPending ? t('common.loading') : t('auth.verify')}
+            <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleRequestOtp}
+            disabled={requestOtpMutation.isPending}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold py-4 rounded-xl shadow-lg"
+            size="lg"
+          >
+            {requestOtpMutation.isPending ? t('common.loading') : t('auth.sendOtp')}
+            <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        )}
+
+        <div className="text-center">
+          <p className="text-gray-600 mb-3">{t('auth.noAccount')}</p>
+          <Link href="/register">
+            <Button variant="outline" className="border-gray-300 hover:bg-gray-50">
+              {t('register.title')}
+            </Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Camera, ArrowRight, User, Phone, Car } from 'lucide-react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,7 +26,7 @@ const formSchema = insertUserSchema.extend({
 export default function Register() {
   const { t } = useLanguage();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
   const [rcImage, setRcImage] = useState<string | null>(null);
   const [showCamera, setShowCamera] = useState(false);
 
@@ -49,14 +50,8 @@ export default function Register() {
         title: "Registration Successful!",
         description: "Welcome to GreenKarma Wallet. Start earning rewards for your eco-friendly driving.",
       });
-      // Store user vehicle number in localStorage for session
-      if (data.user && data.user.vehicleNumber) {
-        localStorage.setItem('currentVehicleNumber', data.user.vehicleNumber);
-        localStorage.setItem('currentUserName', data.user.name);
-      }
-      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
-      // Navigate to wallet page
-      window.location.href = '/wallet';
+      // Log in with an OTP sent to the registered phone
+      navigate(`/login?phone=${encodeURIComponent(data.user.phone)}`);
     },
     onError: (error: Error) => {
       toast({
@@ -277,15 +272,15 @@ export default function Register() {
           </form>
         </Form>
 
-        {/* Skip Option */}
+        {/* Login Option */}
         <div className="mt-6 text-center">
-          <p className="text-gray-600 mb-3">Want to explore first?</p>
+          <p className="text-gray-600 mb-3">Already registered?</p>
           <Button 
             variant="outline" 
-            onClick={() => window.location.href = '/wallet'}
+            onClick={() => navigate('/login')}
             className="border-gray-300 hover:bg-gray-50"
           >
-            Skip & View Demo Wallet
+            {t('auth.title')}
           </Button>
         </div>
       </div>
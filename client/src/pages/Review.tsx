@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link, Redirect } from 'wouter';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+import type { FraudSignal, Reward } from '@shared/schema';
+
+type QueuedReward = Omit<Reward, 'fraudSignals'> & { fraudSignals: FraudSignal[] };
+
+function ReviewCard({ reward }: { reward: QueuedReward }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: 'approve' | 'reject') => {
+      const response = await apiRequest('POST', `/api/admin/reviews/${reward.id}/${decision}`, { note: note || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recent-rewards'] });
+      toast({
+        title: t('common.success'),
+        description: t(decision === 'approve' ? 'review.approved' : 'review.rejected'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{reward.vehicleNumber}</CardTitle>
+          <span className="text-sm text-gray-500">
+            {new Date(reward.timestamp).toLocaleString()}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {reward.odometerImageUrl && (
+          <img
+            src={reward.odometerImageUrl}
+            alt="Odometer reading"
+            className="w-full max-h-64 object-contain rounded border bg-gray-50"
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <span className="text-gray-500">{t('review.reading')}:</span>
+            <span className="ml-2 font-medium">{reward.km.toLocaleString()} km</span>
+          </div>
+          <div>
+            <span className="text-gray-500">{t('review.reward')}:</span>
+            <span className="ml-2 font-medium">₹{reward.rewardGiven.toFixed(2)}</span>
+          </div>
+          <div>
+            <span className="text-gray-500">{t('review.ocrConfidence')}:</span>
+            <span className="ml-2 font-medium">
+              {reward.ocrConfidence !== null ? `${Math.round(reward.ocrConfidence * 100)}%` : '—'}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-500">{t('review.fraudScore')}:</span>
+            <span className="ml-2 font-medium">{(reward.fraudScore ?? 0).toFixed(2)}</span>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-sm text-gray-500">{t('review.reasons')}:</p>
+            <Link href={`/admin/rewards/${reward.id}`} className="text-sm text-green-700 hover:underline">
+              {t('fraud.viewBreakdown')}
+            </Link>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {reward.fraudSignals.filter((signal) => signal.triggered).map((signal) => (
+              <Badge key={signal.check} variant="outline" className="border-orange-300 text-orange-700">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {signal.message} (+{signal.weight.toFixed(1)})
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <Textarea
+          placeholder={t('review.notePlaceholder')}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+        />
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            className="border-red-300 text-red-700 hover:bg-red-50"
+            disabled={!note.trim() || decisionMutation.isPending}
+            onClick={() => decisionMutation.mutate('reject')}
+          >
+            <X className="w-4 h-4 mr-1" />
+            {t('review.reject')}
+          </Button>
+          <Button
+            className="bg-green-600 hover:bg-green-700 text-white"
+            disabled={decisionMutation.isPending}
+            onClick={() => decisionMutation.mutate('approve')}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            {t('review.approve')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Review() {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const isStaff = user?.role === 'admin' || user?.role === 'reviewer';
+
+  const { data: queue, isLoading } = useQuery<QueuedReward[]>({
+    queryKey: ['/api/admin/reviews'],
+    enabled: isStaff,
+  });
+
+  if (!isStaff) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
+      <Header />
+
+      <div className="px-4 pb-12 space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('review.title')}</h1>
+          <p className="text-gray-600">{t('review.subtitle')}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-64 rounded-2xl" />
+            ))}
+          </div>
+        ) : !queue || queue.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-gray-500">
+              {t('review.empty')}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {queue.map((reward) => (
+              <ReviewCard key={reward.id} reward={reward} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
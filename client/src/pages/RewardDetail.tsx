@@ -0,0 +1,117 @@
+import { useQuery } from '@tanstack/react-query';
+import { Redirect, useParams } from 'wouter';
+import { Header } from '@/components/Header';
+import { FraudBreakdown } from '@/components/FraudBreakdown';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+import type { FraudSignal, Reward, User } from '@shared/schema';
+
+type ReviewedReward = Omit<Reward, 'fraudSignals'> & { fraudSignals: FraudSignal[] };
+
+export default function RewardDetail() {
+  const { t } = useLanguage();
+  const { user: viewer } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const isStaff = viewer?.role === 'admin' || viewer?.role === 'reviewer';
+
+  const { data, isLoading } = useQuery<{ reward: ReviewedReward; user: User | null }>({
+    queryKey: [`/api/admin/rewards/${id}`],
+    enabled: isStaff,
+  });
+
+  if (!isStaff) {
+    return <Redirect to="/" />;
+  }
+
+  const reward = data?.reward;
+
+  return (
+    <div className="max-w-2xl mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
+      <Header />
+
+      <div className="px-4 pb-12 space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">{t('fraud.title')}</h1>
+
+        {isLoading ? (
+          <Skeleton className="h-96 rounded-2xl" />
+        ) : !reward ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-gray-500">
+              {t('fraud.notFound')}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{reward.vehicleNumber}</CardTitle>
+                  <Badge variant={reward.validationStatus === 'rejected' ? 'destructive' : 'secondary'}>
+                    {reward.validationStatus}
+                  </Badge>
+                </div>
+                {data.user && (
+                  <p className="text-sm text-gray-500">{data.user.name} · {data.user.phone}</p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {reward.odometerImageUrl && (
+                  <img
+                    src={reward.odometerImageUrl}
+                    alt="Odometer reading"
+                    className="w-full max-h-64 object-contain rounded border bg-gray-50"
+                  />
+                )}
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <span className="text-gray-500">{t('review.reading')}:</span>
+                    <span className="ml-2 font-medium">{reward.km.toLocaleString()} km</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">{t('review.reward')}:</span>
+                    <span className="ml-2 font-medium">₹{reward.rewardGiven.toFixed(2)}</span>
+                  </div>
+                  {reward.serverOcrConfidence !== null && (
+                    <div className="col-span-2">
+                      <span className="text-gray-500">{t('review.serverOcr')}:</span>
+                      <span className="ml-2 font-medium">
+                        {reward.serverOcrKm !== null ? `${reward.serverOcrKm.toLocaleString()} km` : '—'}
+                        {' '}({Math.round(reward.serverOcrConfidence * 100)}%)
+                      </span>
+                      {!!reward.ocrDiscrepancyKm && (
+                        <span className="ml-2 text-orange-700">
+                          {reward.ocrDiscrepancyKm > 0 ? '+' : ''}{reward.ocrDiscrepancyKm.toLocaleString()} km
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  <div className="col-span-2 text-gray-500">
+                    {new Date(reward.timestamp).toLocaleString()}
+                  </div>
+                </div>
+                {reward.reviewNote && (
+                  <p className="text-sm">
+                    <span className="text-gray-500">{t('review.note')}:</span>
+                    <span className="ml-2">{reward.reviewNote}</span>
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">{t('fraud.breakdown')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FraudBreakdown signals={reward.fraudSignals} score={reward.fraudScore} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
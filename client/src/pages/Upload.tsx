@@ -1,66 +1,106 @@
-import { useState, useEffect } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Header } from '@/components/Header';
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { CameraCapture } from '@/components/CameraCapture';
+import { SuspensionNotice, type SuspensionStatus } from '@/components/SuspensionNotice';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/hooks/useLanguage';
-import { extractOdometerReading, validateOdometerReading, type OCRResult } from '@/lib/ocr';
+import { extractOdometerReading, extractOdometerReadingFromBurst, validateOdometerReading, OCRCancelledError, type OCRResult, type BurstOCRResult } from '@/lib/ocr';
+import { isLoadingOCRModel, warmUpOCR } from '@shared/ocrService';
+import { useOCRProgress } from '@/hooks/useOCRProgress';
+import type { LiveReading } from '@/hooks/useLiveOdometerReading';
+import { SCAN_FRAME_HEIGHT_PX, SCAN_FRAME_INSET_PX, type DisplaySize } from '@shared/imagePreprocess';
+import type { BurstFrame } from '@/lib/camera';
 import { getCurrentLocation, validateLocationChange, type LocationData } from '@/lib/geolocation';
 import { notificationService } from '@/lib/notifications';
 import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/useAuth';
 
-// Get current user's vehicle number
-const getCurrentVehicleNumber = () => {
-  return localStorage.getItem('currentVehicleNumber') || 'DEMO4774';
-};
+// Below this share of agreeing digits the user is asked to double-check
+const LOW_AGREEMENT = 0.8;
 
 export default function Upload() {
   const { t } = useLanguage();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const currentVehicle = getCurrentVehicleNumber();
+  const { user } = useAuth();
+  const currentVehicle = user?.vehicleNumber || '';
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [ocrResult, setOcrResult] = useState<OCRResult | null>(null);
+  const [capturedView, setCapturedView] = useState<DisplaySize | undefined>(undefined);
+  const [ocrResult, setOcrResult] = useState<OCRResult | BurstOCRResult | null>(null);
   const [manualReading, setManualReading] = useState<string>('');
   const [isProcessingOCR, setIsProcessingOCR] = useState(false);
   const [showCamera, setShowCamera] = useState(true);
   const [locationData, setLocationData] = useState<LocationData | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const ocrScan = useRef<AbortController | null>(null);
+  const ocrProgress = useOCRProgress();
+  const [liveReading, setLiveReading] = useState<LiveReading | null>(null);
+
+  const { data: suspension } = useQuery<SuspensionStatus>({
+    queryKey: ['/api/suspension'],
+  });
 
   // Auto-start camera when component mounts
   useEffect(() => {
     setShowCamera(true);
   }, []);
 
+  // Load the OCR model while the user frames the odometer; drop any scan
+  // still running when they leave
+  useEffect(() => {
+    warmUpOCR();
+    return () => ocrScan.current?.abort();
+  }, []);
+
+  const handleRetake = () => {
+    ocrScan.current?.abort();
+    setIsProcessingOCR(false);
+    setShowCamera(true);
+  };
+
   const uploadMutation = useMutation({
     mutationFn: async (data: {
-      vehicleNumber: string;
       odometerImageUrl: string;
       km: number;
       location?: string;
       ocrConfidence?: number;
+      scanView?: DisplaySize;
       validationStatus?: string;
     }) => {
-      // Use current user's vehicle number instead of hardcoded one
-      const uploadData = { ...data, vehicleNumber: currentVehicle };
-      const response = await apiRequest('POST', '/api/upload-odometer', uploadData);
+      // The server resolves the vehicle from the session
+      const response = await apiRequest('POST', '/api/upload-odometer', data);
       return response.json();
     },
     onSuccess: (data) => {
       const reward = data.reward;
       
-      // Show success notification
-      notificationService.showRewardNotification(reward.rewardGiven, reward.co2Saved);
-      
-      toast({
-        title: t('common.success'),
-        description: `Earned ₹${reward.rewardGiven} for saving ${reward.co2Saved}kg CO₂!`,
-      });
+      if (data.underReview) {
+        // Grey-zone reading - credited once an admin approves it
+        toast({
+          title: t('history.status.pending'),
+          description: t('upload.underReview'),
+        });
+      } else if (data.rewardCalculation?.kmCredited === 0) {
+        // First reading only sets the baseline for future rewards
+        toast({
+          title: t('common.success'),
+          description: t('upload.baselineRecorded'),
+        });
+      } else {
+        // Show success notification
+        notificationService.showRewardNotification(reward.rewardGiven, reward.co2Saved);
+        
+        toast({
+          title: t('common.success'),
+          description: `Earned ₹${reward.rewardGiven} for saving ${reward.co2Saved}kg CO₂!`,
+        });
+      }
       
       // Reset form
       setCapturedImage(null);
@@ -73,6 +113,8 @@ export default function Upload() {
       queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
     },
     onError: (error: any) => {
+      // The vehicle may have just been suspended by this upload's fraud alert
+      queryClient.invalidateQueries({ queryKey: ['/api/suspension'] });
       toast({
         title: t('common.error'),
         description: error.message || 'Failed to upload reading',
@@ -81,18 +123,29 @@ export default function Upload() {
     },
   });
 
-  const handleImageCapture = async (imageData: string) => {
+  const handleImageCapture = async (imageData: string, view?: DisplaySize, frames?: BurstFrame[]) => {
     setCapturedImage(imageData);
+    setCapturedView(view);
     setShowCamera(false);
     setIsProcessingOCR(true);
+    setOcrResult(null);
+    ocrScan.current?.abort();
+    const scan = new AbortController();
+    ocrScan.current = scan;
     
     try {
-      const reading = await extractOdometerReading(imageData);
-      setOcrReading(reading);
-      if (reading) {
-        setManualReading(reading.toString());
+      // OCR looks for the odometer inside the scan frame drawn below
+      const options = { scanView: view, signal: scan.signal };
+      const result = frames && frames.length > 1
+        ? await extractOdometerReadingFromBurst(frames, options)
+        : await extractOdometerReading(imageData, options);
+      setOcrResult(result);
+      if (result.reading !== null) {
+        setManualReading(result.reading.toString());
       }
     } catch (error) {
+      // Retaken or left the page - a newer scan (if any) owns the state now
+      if (error instanceof OCRCancelledError) return;
       console.error('OCR failed:', error);
       toast({
         title: 'OCR Processing Failed',
@@ -100,7 +153,9 @@ export default function Upload() {
         variant: 'destructive',
       });
     } finally {
-      setIsProcessingOCR(false);
+      if (ocrScan.current === scan) {
+        setIsProcessingOCR(false);
+      }
     }
   };
 
@@ -126,12 +181,26 @@ export default function Upload() {
     }
 
     uploadMutation.mutate({
-      vehicleNumber: currentVehicle,
       odometerImageUrl: capturedImage,
       km: reading,
+      // The server re-reads the photo within the same scan frame
+      scanView: capturedView,
+      ocrConfidence: ocrResult ? ocrResult.confidence / 100 : undefined,
     });
   };
 
+  if (suspension?.suspended) {
+    return (
+      <div className="max-w-md mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
+        <Header />
+        <div className="px-4 pb-24">
+          <SuspensionNotice status={suspension} />
+        </div>
+        <BottomNavigation />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
       {!showCamera && <Header />}
@@ -166,18 +235,33 @@ export default function Upload() {
                 onCapture={handleImageCapture}
                 isProcessing={isProcessingOCR || uploadMutation.isPending}
                 fullScreen={true}
+                burst={true}
+                onLiveReading={setLiveReading}
               />
               
               {/* UPI-style scanner overlay */}
               <div className="absolute inset-0 pointer-events-none">
                 {/* Dark overlay with cut-out */}
                 <div className="absolute inset-0 bg-black/60">
-                  <div className="absolute inset-x-8 top-1/2 transform -translate-y-1/2 h-40 bg-transparent border-2 border-white rounded-xl shadow-2xl">
+                  <div
+                    className="absolute top-1/2 transform -translate-y-1/2 bg-transparent border-2 border-white rounded-xl shadow-2xl"
+                    style={{ left: SCAN_FRAME_INSET_PX, right: SCAN_FRAME_INSET_PX, height: SCAN_FRAME_HEIGHT_PX }}
+                  >
                     {/* Corner indicators */}
                     <div className="absolute -top-1 -left-1 w-6 h-6 border-t-4 border-l-4 border-green-400 rounded-tl-lg"></div>
                     <div className="absolute -top-1 -right-1 w-6 h-6 border-t-4 border-r-4 border-green-400 rounded-tr-lg"></div>
                     <div className="absolute -bottom-1 -left-1 w-6 h-6 border-b-4 border-l-4 border-green-400 rounded-bl-lg"></div>
                     <div className="absolute -bottom-1 -right-1 w-6 h-6 border-b-4 border-r-4 border-green-400 rounded-br-lg"></div>
+
+                    {/* Live reading - the camera captures by itself once it holds steady */}
+                    {liveReading?.reading != null && (
+                      <div className="absolute top-full left-0 right-0 mt-4 text-center text-white">
+                        <span className="inline-block px-4 py-1 rounded-full bg-green-500/90 text-2xl font-mono font-semibold">
+                          {t('upload.liveReading', { km: liveReading.reading })}
+                        </span>
+                        <p className="mt-1 text-sm text-gray-200">{t('upload.holdSteady')}</p>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -195,7 +279,7 @@ export default function Upload() {
             <div className="bg-white shadow-sm p-4 border-b">
               <div className="flex items-center justify-between">
                 <button 
-                  onClick={() => setShowCamera(true)}
+                  onClick={handleRetake}
                   className="p-2 rounded-full bg-gray-100"
                 >
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -222,6 +306,17 @@ export default function Upload() {
                 </div>
               )}
 
+              {isProcessingOCR && (
+                <div className="p-3 bg-blue-50 rounded-lg flex items-center">
+                  <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mr-3"></div>
+                  <span className="text-blue-700 font-medium">
+                    {t(isLoadingOCRModel(ocrProgress) ? 'upload.ocrLoadingModel' : 'upload.ocrReading', {
+                      progress: Math.round(ocrProgress.progress * 100)
+                    })}
+                  </span>
+                </div>
+              )}
+
               <div>
                 <Label className="text-base font-medium">{t('upload.vehicleNumber')}</Label>
                 <div className="mt-2 p-4 bg-gray-50 rounded-xl">
@@ -240,12 +335,22 @@ export default function Upload() {
                     placeholder="Enter kilometer reading"
                     className="mt-2 text-2xl font-mono text-center py-4 border-2 rounded-xl"
                   />
-                  {ocrReading && (
-                    <div className="mt-2 p-3 bg-green-50 rounded-lg flex items-center">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mr-3"></div>
-                      <span className="text-green-700 font-medium">Auto-detected: {ocrReading} km</span>
+                  {ocrResult?.reading != null && (
+                    <div className="mt-2 p-3 bg-green-50 rounded-lg">
+                      <div className="flex items-center">
+                        <div className="w-2 h-2 bg-green-500 rounded-full mr-3"></div>
+                        <span className="text-green-700 font-medium">{t('upload.autoDetected', { km: ocrResult.reading })}</span>
+                      </div>
+                      {'agreement' in ocrResult && (
+                        <p className="mt-1 ml-5 text-sm text-green-700">
+                          {t('upload.frameAgreement', { percent: ocrResult.confidence, frames: ocrResult.framesRead })}
+                        </p>
+                      )}
                     </div>
                   )}
+                  {ocrResult && 'agreement' in ocrResult && ocrResult.reading !== null && ocrResult.agreement < LOW_AGREEMENT && (
+                    <p className="mt-2 text-sm text-amber-700">{t('upload.lowAgreement')}</p>
+                  )}
                 </div>
               )}
             </div>
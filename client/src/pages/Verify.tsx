@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useParams } from 'wouter';
+import { CheckCircle2, XCircle, MinusCircle, Download, ExternalLink } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useLanguage } from '@/hooks/useLanguage';
+import { trustedSigningKeys, verifyProofBundle, type ProofCheck, type TrustedSigningKey } from '@/lib/proofVerification';
+import type { PublicSigningKey, SignedProofBundle } from '@shared/proof';
+
+const CHECK_ICONS = {
+  passed: <CheckCircle2 className="w-5 h-5 text-green-600" />,
+  failed: <XCircle className="w-5 h-5 text-red-600" />,
+  skipped: <MinusCircle className="w-5 h-5 text-gray-400" />,
+};
+
+// Fingerprints to pin, e.g. /verify/<id>?keys=<fingerprint>,<fingerprint>
+function pinnedFingerprints(): string[] {
+  const keys = new URLSearchParams(window.location.search).get('keys');
+  return keys ? keys.split(',') : [];
+}
+
+export default function Verify() {
+  const { t } = useLanguage();
+  const { id } = useParams<{ id: string }>();
+  const [pins] = useState(pinnedFingerprints);
+
+  const { data: proof, isLoading: proofLoading, error } = useQuery<SignedProofBundle>({
+    queryKey: [`/api/proofs/${id}`],
+  });
+  const { data: signingKeys } = useQuery<{ keys: PublicSigningKey[] }>({
+    queryKey: ['/api/signing-keys'],
+  });
+
+  const { data: trustedKeys } = useQuery<TrustedSigningKey[]>({
+    queryKey: ['trusted-signing-keys', pins.join(','), signingKeys?.keys.length],
+    queryFn: () => trustedSigningKeys(signingKeys!.keys, pins),
+    enabled: !!signingKeys,
+  });
+
+  // Checks run locally on the downloaded bundle, never on the server
+  const { data: checks, isLoading: checksLoading } = useQuery<ProofCheck[]>({
+    queryKey: ['proof-verification', id, proof?.signature.value, trustedKeys?.map(key => key.keyId).join(',')],
+    queryFn: () => verifyProofBundle(proof!, trustedKeys!),
+    enabled: !!proof && !!trustedKeys,
+  });
+
+  const downloadBundle = () => {
+    const blob = new Blob([JSON.stringify(proof, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `greenkarma-proof-${id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const bundle = proof?.bundle;
+  const failed = checks?.some(check => check.status === 'failed');
+  const complete = checks?.every(check => check.status === 'passed');
+
+  return (
+    <div className="max-w-2xl mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
+      <Header />
+
+      <div className="px-4 pb-12 space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">{t('verify.title')}</h1>
+
+        {proofLoading ? (
+          <Skeleton className="h-96 rounded-2xl" />
+        ) : error || !bundle ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-gray-500">
+              {t('verify.notFound')}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{bundle.reading.vehicleNumber}</CardTitle>
+                  <Badge variant={bundle.reading.validationStatus === 'rejected' ? 'destructive' : 'secondary'}>
+                    {bundle.reading.validationStatus}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div>
+                  <span className="text-gray-500">{t('verify.reading')}:</span>
+                  <span className="ml-2 font-medium">{bundle.reading.km.toLocaleString()} km</span>
+                </div>
+                <div className="text-gray-500">{new Date(bundle.reading.recordedAt).toLocaleString()}</div>
+                {bundle.reading.imageHash && (
+                  <div className="break-all">
+                    <span className="text-gray-500">{t('verify.imageHash')}:</span>
+                    <span className="ml-2 font-mono text-xs">{bundle.reading.imageHash}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{t('verify.checks')}</CardTitle>
+                  {checks && (
+                    <Badge variant={failed ? 'destructive' : 'secondary'}>
+                      {failed ? t('verify.result.failed') : complete ? t('verify.result.verified') : t('verify.result.partial')}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {checksLoading || !checks ? (
+                  <Skeleton className="h-40" />
+                ) : (
+                  <ul className="space-y-2">
+                    {checks.map(check => (
+                      <li key={check.name} className="flex items-center space-x-3 text-sm">
+                        {CHECK_ICONS[check.status]}
+                        <span>{t(`verify.check.${check.name}`)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">{t('verify.anchor')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div>
+                  <span className="text-gray-500">{t('verify.anchorStatus')}:</span>
+                  <span className="ml-2 font-medium">{t(`verify.anchorStatuses.${bundle.anchor.status}`)}</span>
+                </div>
+                {bundle.anchor.network && (
+                  <div>
+                    <span className="text-gray-500">{t('verify.network')}:</span>
+                    <span className="ml-2">{bundle.anchor.network}</span>
+                  </div>
+                )}
+                {bundle.anchor.txHash && (
+                  <div className="break-all">
+                    <span className="text-gray-500">{t('verify.transaction')}:</span>
+                    <span className="ml-2 font-mono text-xs">{bundle.anchor.txHash}</span>
+                  </div>
+                )}
+                {bundle.anchor.merkleRoot && (
+                  <div className="break-all">
+                    <span className="text-gray-500">{t('verify.merkleRoot')}:</span>
+                    <span className="ml-2 font-mono text-xs">{bundle.anchor.merkleRoot}</span>
+                  </div>
+                )}
+                {bundle.anchor.explorerUrl && (
+                  <Button variant="outline" size="sm" className="w-full" asChild>
+                    <a href={bundle.anchor.explorerUrl} target="_blank" rel="noreferrer">
+                      <ExternalLink className="w-4 h-4 mr-2" />
+                      {t('verify.viewOnExplorer')}
+                    </a>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">{t('verify.keys')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <p className="text-gray-500">
+                  {pins.length > 0 ? t('verify.keysPinned') : t('verify.keysUnpinned')}
+                </p>
+                {trustedKeys && trustedKeys.length === 0 && (
+                  <p className="text-red-600">{t('verify.noTrustedKeys')}</p>
+                )}
+                {trustedKeys?.map(key => (
+                  <div key={key.keyId} className="break-all">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{key.keyId}</span>
+                      {key.retiredAt && <Badge variant="outline">{t('verify.keyRetired')}</Badge>}
+                    </div>
+                    <span className="font-mono text-xs text-gray-600">{key.fingerprint}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Button className="w-full" onClick={downloadBundle}>
+              <Download className="w-4 h-4 mr-2" />
+              {t('verify.download')}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,22 +6,23 @@ import { RecentActivity } from '@/components/RecentActivity';
 import { EcoWarriorBadge } from '@/components/EcoWarriorBadge';
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/hooks/useAuth';
+import type { User } from '@shared/schema';
 
-// Get current user's vehicle number from localStorage or fallback to demo
-const getCurrentVehicleNumber = () => {
-  return localStorage.getItem('currentVehicleNumber') || 'DEMO4774';
-};
-
-const getCurrentUserName = () => {
-  return localStorage.getItem('currentUserName') || 'Demo User';
-};
+interface WalletData {
+  user: User;
+  totalBalance: number;
+  totalCo2Saved: number;
+  monthlyReward: number;
+  totalDistance: number;
+}
 
 export default function Wallet() {
-  const currentVehicle = getCurrentVehicleNumber();
-  const currentUserName = getCurrentUserName();
+  const { user } = useAuth();
+  const currentVehicle = user?.vehicleNumber || '';
 
-  const { data: walletData, isLoading } = useQuery({
-    queryKey: [`/api/wallet/${currentVehicle}`],
+  const { data: walletData, isLoading } = useQuery<WalletData>({
+    queryKey: ['/api/wallet'],
   });
 
   if (isLoading) {
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Banknote, ShieldCheck, Smartphone } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { BottomNavigation } from '@/components/BottomNavigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+import type { Withdrawal } from '@shared/schema';
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function Withdraw() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [editingMethod, setEditingMethod] = useState(false);
+  const [vpa, setVpa] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [ifsc, setIfsc] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const { data: walletData, isLoading: walletLoading } = useQuery<{ totalBalance: number }>({
+    queryKey: ['/api/wallet'],
+  });
+
+  const { data: withdrawalData, isLoading: withdrawalsLoading } = useQuery<{
+    withdrawals: Withdrawal[];
+    minimumAmount: number;
+  }>({
+    queryKey: ['/api/withdrawals'],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: t('common.error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const payoutMethodMutation = useMutation({
+    mutationFn: async (data: { type: 'upi'; vpa: string } | { type: 'bank'; accountNumber: string; ifsc: string }) => {
+      const response = await apiRequest('PUT', '/api/profile/payout-method', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingMethod(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      toast({
+        title: t('common.success'),
+        description: t('withdraw.methodVerified'),
+      });
+    },
+    onError: showError,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (data: { amount: number }) => {
+      const response = await apiRequest('POST', '/api/withdrawals', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setAmount('');
+      queryClient.invalidateQueries({ queryKey: ['/api/withdrawals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      toast({
+        title: t('common.success'),
+        description: t('withdraw.requested'),
+      });
+    },
+    onError: showError,
+  });
+
+  if (walletLoading || withdrawalsLoading) {
+    return (
+      <div className="max-w-md mx-auto bg-white min-h-screen relative">
+        <Header />
+        <div className="px-4 pb-24 space-y-4">
+          <Skeleton className="h-24 rounded-2xl" />
+          <Skeleton className="h-40 rounded-2xl" />
+          <Skeleton className="h-32 rounded-2xl" />
+        </div>
+        <BottomNavigation />
+      </div>
+    );
+  }
+
+  const balance = walletData?.totalBalance || 0;
+  const minimumAmount = withdrawalData?.minimumAmount || 0;
+  const withdrawals = withdrawalData?.withdrawals || [];
+  const hasVerifiedMethod = user?.kycStatus === 'verified' && !!(user.upiVpa || user.bankAccountNumber);
+  const requestedAmount = parseFloat(amount);
+
+  return (
+    <div className="max-w-md mx-auto bg-gradient-to-br from-gray-50 via-green-50/30 to-emerald-50/40 min-h-screen relative">
+      <Header />
+
+      <div className="px-4 pb-24 space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {t('withdraw.title')}
+        </h1>
+
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-500">{t('wallet.currentBalance')}</p>
+            <p className="text-3xl font-bold text-gray-900">₹{balance.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+
+        {/* Payout method */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center">
+              <ShieldCheck className="w-5 h-5 mr-2 text-green-600" />
+              {t('withdraw.payoutMethod')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {hasVerifiedMethod && !editingMethod ? (
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {user?.upiVpa || `${user?.bankIfsc} ••••${user?.bankAccountNumber?.slice(-4)}`}
+                  </p>
+                  <p className="text-sm text-green-700">{t('withdraw.verified')}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setEditingMethod(true)}>
+                  {t('withdraw.change')}
+                </Button>
+              </div>
+            ) : (
+              <Tabs defaultValue="upi">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="upi">
+                    <Smartphone className="w-4 h-4 mr-1" />
+                    UPI
+                  </TabsTrigger>
+                  <TabsTrigger value="bank">
+                    <Banknote className="w-4 h-4 mr-1" />
+                    {t('withdraw.bank')}
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="upi" className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="vpa">{t('withdraw.upiId')}</Label>
+                    <Input id="vpa" placeholder="name@bank" value={vpa} onChange={(e) => setVpa(e.target.value)} />
+                  </div>
+                  <Button
+                    className="w-full"
+                    disabled={!vpa || payoutMethodMutation.isPending}
+                    onClick={() => payoutMethodMutation.mutate({ type: 'upi', vpa })}
+                  >
+                    {payoutMethodMutation.isPending ? t('common.loading') : t('withdraw.verifyAndSave')}
+                  </Button>
+                </TabsContent>
+                <TabsContent value="bank" className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="account-number">{t('withdraw.accountNumber')}</Label>
+                    <Input
+                      id="account-number"
+                      inputMode="numeric"
+                      value={accountNumber}
+                      onChange={(e) => setAccountNumber(e.target.value.replace(/\D/g, ''))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ifsc">IFSC</Label>
+                    <Input
+                      id="ifsc"
+                      placeholder="SBIN0001234"
+                      value={ifsc}
+                      onChange={(e) => setIfsc(e.target.value.toUpperCase())}
+                      className="font-mono uppercase"
+                    />
+                  </div>
+                  <Button
+                    className="w-full"
+                    disabled={!accountNumber || !ifsc || payoutMethodMutation.isPending}
+                    onClick={() => payoutMethodMutation.mutate({ type: 'bank', accountNumber, ifsc })}
+                  >
+                    {payoutMethodMutation.isPending ? t('common.loading') : t('withdraw.verifyAndSave')}
+                  </Button>
+                </TabsContent>
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Request */}
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <Label htmlFor="amount">{t('withdraw.amount')}</Label>
+            <Input
+              id="amount"
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={`₹${minimumAmount}`}
+              className="text-2xl font-mono text-center py-4"
+            />
+            <p className="text-sm text-gray-500">
+              {t('withdraw.minimum', { amount: minimumAmount })}
+            </p>
+            <Button
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold py-4 rounded-xl"
+              size="lg"
+              disabled={
+                !hasVerifiedMethod ||
+                !requestedAmount ||
+                requestedAmount < minimumAmount ||
+                requestedAmount > balance ||
+                withdrawMutation.isPending
+              }
+              onClick={() => withdrawMutation.mutate({ amount: requestedAmount })}
+            >
+              {withdrawMutation.isPending ? t('upload.processing') : t('withdraw.request')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Tracking */}
+        <h2 className="text-lg font-semibold text-gray-900">{t('withdraw.history')}</h2>
+        {withdrawals.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-gray-500">
+              {t('withdraw.none')}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {withdrawals.map((withdrawal) => (
+              <Card key={withdrawal.id}>
+                <CardContent className="pt-4 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-lg font-semibold">₹{withdrawal.amount.toFixed(2)}</span>
+                    <Badge className={STATUS_STYLES[withdrawal.status]}>
+                      {t(`withdraw.status.${withdrawal.status}`)}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-gray-500">
+                    <span>{withdrawal.destination}</span>
+                    <span>{new Date(withdrawal.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  {withdrawal.failureReason && (
+                    <p className="text-sm text-red-600">{withdrawal.failureReason}</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <BottomNavigation />
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title Cross-app odometer reading registry
+/// @notice Partner apps register each reading they reward so the same reading
+/// can't be claimed twice across apps, or anchor a Merkle root covering a batch
+/// of readings. Only apps approved by the owner can write.
+contract FraudPrevention {
+    struct App {
+        string name;
+        bool active;
+    }
+
+    struct Reading {
+        bool used;
+        string appSource;
+        uint256 timestamp;
+    }
+
+    struct Batch {
+        bool anchored;
+        string appSource;
+        uint256 readingCount;
+        uint256 timestamp;
+    }
+
+    address public owner;
+
+    mapping(address => App) private apps;
+    mapping(bytes32 => Reading) private readings;
+    mapping(bytes32 => uint256) private vehicleReadingCounts; // keyed by keccak256(vehicleNumber)
+    mapping(bytes32 => Batch) private batches; // keyed by Merkle root
+
+    event AppRegistered(address indexed app, string name);
+    event AppRevoked(address indexed app);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ReadingRegistered(
+        bytes32 indexed readingHash,
+        string vehicleNumber,
+        uint256 odometerReading,
+        address indexed app,
+        string appSignature
+    );
+    event BatchAnchored(bytes32 indexed merkleRoot, uint256 readingCount, address indexed app);
+
+    error NotOwner();
+    error AppNotRegistered(address app);
+    error ReadingAlreadyUsed(bytes32 readingHash, string appSource);
+    error BatchAlreadyAnchored(bytes32 merkleRoot);
+    error EmptyBatch();
+    error EmptyAppName();
+    error ZeroAddress();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyRegisteredApp() {
+        if (!apps[msg.sender].active) revert AppNotRegistered(msg.sender);
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    // ---- App registry ----
+
+    function registerApp(address app, string calldata name) external onlyOwner {
+        if (app == address(0)) revert ZeroAddress();
+        if (bytes(name).length == 0) revert EmptyAppName();
+        apps[app] = App({name: name, active: true});
+        emit AppRegistered(app, name);
+    }
+
+    function revokeApp(address app) external onlyOwner {
+        if (!apps[app].active) revert AppNotRegistered(app);
+        apps[app].active = false;
+        emit AppRevoked(app);
+    }
+
+    function getApp(address app) external view returns (string memory name, bool active) {
+        App storage entry = apps[app];
+        return (entry.name, entry.active);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert ZeroAddress();
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    // ---- Readings ----
+
+    function registerReading(
+        string calldata vehicleNumber,
+        uint256 odometerReading,
+        bytes32 readingHash,
+        string calldata appSignature
+    ) external onlyRegisteredApp returns (bool success) {
+        Reading storage existing = readings[readingHash];
+        if (existing.used) revert ReadingAlreadyUsed(readingHash, existing.appSource);
+
+        readings[readingHash] = Reading({
+            used: true,
+            appSource: apps[msg.sender].name,
+            timestamp: block.timestamp
+        });
+        vehicleReadingCounts[keccak256(bytes(vehicleNumber))] += 1;
+
+        emit ReadingRegistered(readingHash, vehicleNumber, odometerReading, msg.sender, appSignature);
+        return true;
+    }
+
+    function isReadingUsed(bytes32 readingHash)
+        external
+        view
+        returns (bool used, string memory appSource, uint256 timestamp)
+    {
+        Reading storage reading = readings[readingHash];
+        return (reading.used, reading.appSource, reading.timestamp);
+    }
+
+    function getVehicleReadingCount(string calldata vehicleNumber) external view returns (uint256 count) {
+        return vehicleReadingCounts[keccak256(bytes(vehicleNumber))];
+    }
+
+    // ---- Batches ----
+
+    /// @notice Anchors the root of a Merkle tree whose leaves are reading hashes.
+    /// Individual readings are proven off-chain against the root.
+    function anchorBatch(bytes32 merkleRoot, uint256 readingCount) external onlyRegisteredApp returns (bool success) {
+        if (readingCount == 0) revert EmptyBatch();
+        if (batches[merkleRoot].anchored) revert BatchAlreadyAnchored(merkleRoot);
+
+        batches[merkleRoot] = Batch({
+            anchored: true,
+            appSource: apps[msg.sender].name,
+            readingCount: readingCount,
+            timestamp: block.timestamp
+        });
+
+        emit BatchAnchored(merkleRoot, readingCount, msg.sender);
+        return true;
+    }
+
+    function getBatch(bytes32 merkleRoot)
+        external
+        view
+        returns (bool anchored, string memory appSource, uint256 readingCount, uint256 timestamp)
+    {
+        Batch storage batch = batches[merkleRoot];
+        return (batch.anchored, batch.appSource, batch.readingCount, batch.timestamp);
+    }
+}
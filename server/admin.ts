@@ -0,0 +1,553 @@
+import { Router, type Express, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { getChainAdapter } from "./blockchain/chains";
+import { approveWithdrawal, rejectWithdrawal, presentWithdrawal, maskVpa, WithdrawalError } from "./payouts/withdrawals";
+import { approveReward, rejectReward, parseFraudSignals, ReviewError } from "./rewards/review";
+import { getFraudConfig } from "./fraud/config";
+import { createPartnerCredentials } from "./partner/auth";
+import { runChainAudit } from "./blockchain/chainAudit";
+import { approveAppeal, rejectAppeal, AppealError } from "./suspensions/appeals";
+import { APPEAL_STATUSES, REWARD_STATUSES, USER_ROLES, VEHICLE_CLASSES, WITHDRAWAL_STATUSES, insertRewardRuleSchema, type PartnerApp, type Reward, type User } from "@shared/schema";
+
+// Reviewers work the dashboard without seeing full phone numbers or payout details
+function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length <= 4 ? '****' : `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}`;
+}
+
+function presentUser(user: User, viewer: User) {
+  if (viewer.role === 'admin') return user;
+  return {
+    ...user,
+    phone: maskPhone(user.phone),
+    upiVpa: user.upiVpa ? maskVpa(user.upiVpa) : null,
+    bankAccountNumber: user.bankAccountNumber ? `••••${user.bankAccountNumber.slice(-4)}` : null,
+    bankIfsc: user.bankIfsc ? `${user.bankIfsc.slice(0, 4)}•••••••` : null, // the first four letters name the bank
+    bankAccountName: null
+  };
+}
+
+// Reviewers judge a reading from the photo, the numbers and the fraud checks,
+// not where it was taken or which device sent it
+function presentReward(reward: Reward, viewer: User) {
+  const fraudSignals = parseFraudSignals(reward.fraudSignals);
+  if (viewer.role === 'admin') return { ...reward, fraudSignals };
+  const { location, deviceFingerprint, ...visible } = reward;
+  return { ...visible, fraudSignals };
+}
+
+// Write an audit entry once the response is sent. Handlers can attach
+// extra context (e.g. before/after values) through res.locals.auditDetails.
+function auditAccess(req: Request, res: Response, next: NextFunction) {
+  res.on("finish", () => {
+    const details = {
+      statusCode: res.statusCode,
+      query: req.query,
+      ...(res.locals.auditDetails || {})
+    };
+
+    storage.createAuditLogEntry({
+      adminUserId: req.user!.id,
+      action: req.method === 'GET' ? 'read' : 'update',
+      resource: `${req.method} ${req.baseUrl}${req.path}`,
+      details: JSON.stringify(details)
+    }).catch((error) => {
+      console.error('Failed to write admin audit log:', error);
+    });
+  });
+  next();
+}
+
+// Program-wide totals shared by the dashboard and the public landing page
+export async function getProgramStats() {
+  const users = await storage.getUsers();
+  const rewards = (await storage.getRewards()).filter(r => r.validationStatus === 'approved');
+
+  return {
+    totalUsers: users.length,
+    totalRewards: rewards.reduce((sum, r) => sum + r.rewardGiven, 0),
+    totalCO2Saved: rewards.reduce((sum, r) => sum + r.co2Saved, 0),
+    totalDistanceCovered: rewards.reduce((sum, r) => sum + r.km, 0),
+    totalReadings: rewards.length
+  };
+}
+
+const updateRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+const createRewardRuleSchema = insertRewardRuleSchema.extend({
+  vehicleClass: z.enum(['default', ...VEHICLE_CLASSES]).default('default'),
+  emissionFactorKgPerKm: z.number().positive(),
+  rupeesPerKg: z.number().nonnegative(),
+  monthlyCapRupees: z.number().positive().nullable().optional(),
+  firstReadingPolicy: z.enum(['baseline', 'fixed_km']).default('baseline'),
+  firstReadingKm: z.number().int().nonnegative().optional(),
+  promotions: z.array(z.object({
+    name: z.string().min(1),
+    multiplier: z.number().positive(),
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+  })).default([]),
+});
+
+const rejectWithdrawalSchema = z.object({
+  reason: z.string().trim().min(1),
+});
+
+const approveReviewSchema = z.object({
+  note: z.string().trim().optional(),
+});
+
+const rejectReviewSchema = z.object({
+  note: z.string().trim().min(1),
+});
+
+const approveAppealSchema = z.object({
+  note: z.string().trim().optional(),
+});
+
+const rejectAppealSchema = z.object({
+  note: z.string().trim().min(1),
+});
+
+const createPartnerSchema = z.object({
+  name: z.string().trim().min(2).max(50),
+  rateLimitPerMinute: z.number().int().positive().max(10000).optional(),
+});
+
+// The secret is only ever returned once, when the partner is created
+function presentPartner({ secret, ...partner }: PartnerApp) {
+  return partner;
+}
+
+export function registerAdminRoutes(app: Express) {
+  const router = Router();
+
+  router.use(requireRole('admin', 'reviewer'));
+  router.use(auditAccess);
+
+  // Check the configured chain's network status
+  router.get("/blockchain-status", async (req, res) => {
+    try {
+      const networkStatus = await getChainAdapter().getNetworkStatus();
+      const anchorQueue = await storage.getAnchorQueueStats();
+      res.json({ networkStatus, anchorQueue });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get('/users', async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users
+        .sort((a, b) => new Date(b.registeredAt).getTime() - new Date(a.registeredAt).getTime())
+        .map(user => presentUser(user, req.user!)));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch users',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.patch('/users/:id/role', requireRole('admin'), async (req, res) => {
+    try {
+      const { role } = updateRoleSchema.parse(req.body);
+      const userId = parseInt(req.params.id, 10);
+
+      const existing = await storage.getUser(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = await storage.updateUserRole(userId, role);
+      res.locals.auditDetails = { targetUserId: userId, previousRole: existing.role, newRole: role };
+      res.json({ user });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get('/stats', async (req, res) => {
+    try {
+      res.json(await getProgramStats());
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch stats',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.get('/recent-rewards', async (req, res) => {
+    try {
+      const rewards = await storage.getRewards();
+      const recentRewards = rewards
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, 10);
+      res.json(recentRewards.map(reward => presentReward(reward, req.user!)));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch recent rewards',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Single reading with its full fraud check breakdown
+  router.get('/rewards/:id', async (req, res) => {
+    try {
+      const reward = await storage.getReward(parseInt(req.params.id, 10));
+      if (!reward) {
+        return res.status(404).json({ message: "Reading not found" });
+      }
+
+      const user = await storage.getUserByVehicleNumber(reward.vehicleNumber);
+      res.json({
+        reward: presentReward(reward, req.user!),
+        user: user ? presentUser(user, req.user!) : null
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch reading',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.get('/reward-rules', async (req, res) => {
+    try {
+      const rules = await storage.getRewardRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch reward rules',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Publish a new rule version; existing versions stay untouched for reproducibility
+  router.post('/reward-rules', requireRole('admin'), async (req, res) => {
+    try {
+      const { promotions, ...ruleData } = createRewardRuleSchema.parse(req.body);
+      const rule = await storage.createRewardRule({
+        ...ruleData,
+        promotions: JSON.stringify(promotions)
+      });
+      res.locals.auditDetails = { ruleVersion: rule.version, vehicleClass: rule.vehicleClass };
+      res.json({ rule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get('/withdrawals', async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && (WITHDRAWAL_STATUSES as readonly string[]).includes(req.query.status)
+        ? req.query.status
+        : undefined;
+      res.json((await storage.getWithdrawals(status)).map(presentWithdrawal));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch withdrawals',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Approve a pending withdrawal and pay it out through the payout provider
+  router.post('/withdrawals/:id/approve', requireRole('admin'), async (req, res) => {
+    try {
+      const withdrawal = await approveWithdrawal(parseInt(req.params.id, 10));
+      res.locals.auditDetails = { withdrawalId: withdrawal.id, status: withdrawal.status };
+      res.json({ withdrawal: presentWithdrawal(withdrawal) });
+    } catch (error) {
+      if (error instanceof WithdrawalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post('/withdrawals/:id/reject', requireRole('admin'), async (req, res) => {
+    try {
+      const { reason } = rejectWithdrawalSchema.parse(req.body);
+      const withdrawal = await rejectWithdrawal(parseInt(req.params.id, 10), reason);
+      res.locals.auditDetails = { withdrawalId: withdrawal.id, reason };
+      res.json({ withdrawal: presentWithdrawal(withdrawal) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof WithdrawalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Effective fraud rule settings after FRAUD_RULES_CONFIG overrides
+  router.get('/fraud-rules', async (req, res) => {
+    try {
+      res.json(getFraudConfig());
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch fraud rules',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Manual review queue for readings held back by the fraud checks
+  router.get('/reviews', async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && (REWARD_STATUSES as readonly string[]).includes(req.query.status)
+        ? req.query.status
+        : 'pending';
+      const rewards = await storage.getRewardsByStatus(status);
+      res.json(rewards.map(reward => presentReward(reward, req.user!)));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch review queue',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.post('/reviews/:id/approve', async (req, res) => {
+    try {
+      const { note } = approveReviewSchema.parse(req.body);
+      const reward = await approveReward(parseInt(req.params.id, 10), req.user!, note);
+      res.locals.auditDetails = { rewardId: reward.id, decision: 'approved', note };
+      res.json({ reward });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post('/reviews/:id/reject', async (req, res) => {
+    try {
+      const { note } = rejectReviewSchema.parse(req.body);
+      const reward = await rejectReward(parseInt(req.params.id, 10), req.user!, note);
+      res.locals.auditDetails = { rewardId: reward.id, decision: 'rejected', note };
+      res.json({ reward });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Appeals from suspended vehicle owners
+  router.get('/appeals', async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && (APPEAL_STATUSES as readonly string[]).includes(req.query.status)
+        ? req.query.status
+        : 'pending';
+      const appeals = await storage.getAppealsByStatus(status);
+      const withReasons = await Promise.all(appeals.map(async appeal => ({
+        ...appeal,
+        suspension: await storage.getSuspension(appeal.vehicleNumber)
+      })));
+      res.json(withReasons);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch appeals',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Reinstates the vehicle
+  router.post('/appeals/:id/approve', requireRole('admin'), async (req, res) => {
+    try {
+      const { note } = approveAppealSchema.parse(req.body);
+      const appeal = await approveAppeal(parseInt(req.params.id, 10), req.user!, note);
+      res.locals.auditDetails = { appealId: appeal.id, vehicleNumber: appeal.vehicleNumber, decision: 'approved', note };
+      res.json({ appeal });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof AppealError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post('/appeals/:id/reject', requireRole('admin'), async (req, res) => {
+    try {
+      const { note } = rejectAppealSchema.parse(req.body);
+      const appeal = await rejectAppeal(parseInt(req.params.id, 10), req.user!, note);
+      res.locals.auditDetails = { appealId: appeal.id, vehicleNumber: appeal.vehicleNumber, decision: 'rejected', note };
+      res.json({ appeal });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof AppealError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get('/chain-audits', async (req, res) => {
+    try {
+      const audits = await storage.getChainAudits(20);
+      res.json(audits.map(audit => ({ ...audit, findings: JSON.parse(audit.findings) })));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch chain audits',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Run the chain integrity audit now instead of waiting for the schedule
+  router.post('/chain-audits', requireRole('admin'), async (req, res) => {
+    try {
+      const audit = await runChainAudit();
+      if (!audit) {
+        return res.status(409).json({ message: "An audit is already running" });
+      }
+      res.locals.auditDetails = { chainAuditId: audit.id, status: audit.status };
+      res.status(201).json({ ...audit, findings: JSON.parse(audit.findings) });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Open alerts by default; ?status=all includes acknowledged ones
+  router.get('/alerts', async (req, res) => {
+    try {
+      const alerts = await storage.getAdminAlerts(req.query.status !== 'all');
+      res.json(alerts.map(alert => ({ ...alert, details: alert.details ? JSON.parse(alert.details) : null })));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch alerts',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  router.post('/alerts/:id/acknowledge', requireRole('admin'), async (req, res) => {
+    try {
+      const alert = await storage.acknowledgeAdminAlert(parseInt(req.params.id, 10), req.user!.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      res.locals.auditDetails = { alertId: alert.id, type: alert.type };
+      res.json({ alert });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get('/partners', requireRole('admin'), async (req, res) => {
+    try {
+      const partners = await storage.getPartnerApps();
+      res.json(partners.map(presentPartner));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch partners',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Issue API credentials to a partner app
+  router.post('/partners', requireRole('admin'), async (req, res) => {
+    try {
+      const { name, rateLimitPerMinute } = createPartnerSchema.parse(req.body);
+      const existing = await storage.getPartnerApps();
+      if (existing.some(partner => partner.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ message: "A partner with this name already exists" });
+      }
+
+      const credentials = createPartnerCredentials();
+      const partner = await storage.createPartnerApp({ name, rateLimitPerMinute, ...credentials });
+      res.locals.auditDetails = { partnerId: partner.id, name, apiKey: partner.apiKey };
+      res.status(201).json({ partner: presentPartner(partner), secret: credentials.secret });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.post('/partners/:id/revoke', requireRole('admin'), async (req, res) => {
+    try {
+      const partner = await storage.updatePartnerApp(parseInt(req.params.id, 10), { isActive: false });
+      if (!partner) {
+        return res.status(404).json({ message: "Partner not found" });
+      }
+      res.locals.auditDetails = { partnerId: partner.id, name: partner.name };
+      res.json({ partner: presentPartner(partner) });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  router.get('/audit-log', requireRole('admin'), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 500);
+      const entries = await storage.getAuditLog(limit);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch audit log',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.use('/api/admin', router);
+}
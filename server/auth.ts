@@ -0,0 +1,271 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getSmsSender } from "./sms";
+import { normalizePhone } from "./utils/phone";
+import type { User as SelectUser, UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const OTP_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const OTP_RESEND_INTERVAL_MS = 30 * 1000;
+// Wrong guesses allowed per phone across every code issued in the window;
+// a new code doesn't reset the count, or each resend would buy more guesses
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const OTP_LOCKOUT_MS = 30 * 60 * 1000;
+
+interface PendingOtp {
+  codeHash: string;
+  expiresAt: number;
+  sentAt: number;
+}
+
+interface OtpAttempts {
+  failures: number;
+  windowStartedAt: number;
+  lockedUntil: number;
+}
+
+export class OtpThrottledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OtpThrottledError';
+  }
+}
+
+function hashOtp(phone: string, code: string): string {
+  return createHash('sha256').update(`${phone}:${code}`).digest('hex');
+}
+
+class OtpService {
+  private pending: Map<string, PendingOtp> = new Map();
+  // Kept apart from the codes so they survive a code being replaced or expiring
+  private attempts: Map<string, OtpAttempts> = new Map();
+
+  private isLocked(phone: string): boolean {
+    const record = this.attempts.get(phone);
+    return !!record && record.lockedUntil > Date.now();
+  }
+
+  private recordFailure(phone: string) {
+    const now = Date.now();
+    let record = this.attempts.get(phone);
+    if (!record || now - record.windowStartedAt > OTP_ATTEMPT_WINDOW_MS) {
+      record = { failures: 0, windowStartedAt: now, lockedUntil: 0 };
+      this.attempts.set(phone, record);
+    }
+
+    record.failures++;
+    if (record.failures >= OTP_MAX_ATTEMPTS) {
+      // The outstanding code is void too; a new one can't be issued until the lockout ends
+      record.lockedUntil = now + OTP_LOCKOUT_MS;
+      this.pending.delete(phone);
+    }
+  }
+
+  async issue(phone: string): Promise<void> {
+    if (this.isLocked(phone)) {
+      throw new OtpThrottledError('Too many incorrect codes. Please try again later');
+    }
+
+    const existing = this.pending.get(phone);
+    if (existing && Date.now() - existing.sentAt < OTP_RESEND_INTERVAL_MS) {
+      throw new OtpThrottledError('Please wait before requesting another code');
+    }
+
+    const code = randomInt(0, 1000000).toString().padStart(6, '0');
+    this.pending.set(phone, {
+      codeHash: hashOtp(phone, code),
+      expiresAt: Date.now() + OTP_TTL_MS,
+      sentAt: Date.now()
+    });
+
+    await getSmsSender().send(phone, `Your GreenKarma login code is ${code}. It expires in 5 minutes.`);
+  }
+
+  verify(phone: string, code: string): boolean {
+    if (this.isLocked(phone)) return false;
+
+    const entry = this.pending.get(phone);
+    if (!entry) return false;
+
+    if (entry.expiresAt < Date.now()) {
+      this.pending.delete(phone);
+      return false;
+    }
+
+    const expected = Buffer.from(entry.codeHash, 'hex');
+    const actual = Buffer.from(hashOtp(phone, code), 'hex');
+    if (!timingSafeEqual(expected, actual)) {
+      this.recordFailure(phone);
+      return false;
+    }
+
+    // Codes are single use
+    this.pending.delete(phone);
+    this.attempts.delete(phone);
+    return true;
+  }
+}
+
+const otpService = new OtpService();
+
+const requestOtpSchema = z.object({
+  phone: z.string().min(10, 'Phone number must be at least 10 digits'),
+});
+
+// Phones listed in ADMIN_PHONES are promoted to admin on login
+const bootstrapAdminPhones = new Set(
+  (process.env.ADMIN_PHONES || '').split(',').map(normalizePhone).filter(Boolean)
+);
+
+// Rejects requests without a logged-in session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  next();
+}
+
+// Rejects logged-in users whose role is not in the allowed list
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    if (!roles.includes(req.user!.role as UserRole)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+// Anyone who knows the secret can forge session cookies, so the development
+// fallback must never sign production sessions
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return 'greenkarma-dev-secret';
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: 'phone', passwordField: 'otp' }, async (phone, otp, done) => {
+      try {
+        const normalizedPhone = normalizePhone(phone);
+        if (!otpService.verify(normalizedPhone, otp.trim())) {
+          return done(null, false, { message: 'Invalid or expired code' });
+        }
+
+        let user = await storage.getUserByPhone(normalizedPhone);
+        if (!user) {
+          return done(null, false, { message: 'No account registered with this phone number' });
+        }
+
+        if (bootstrapAdminPhones.has(normalizedPhone) && user.role !== 'admin') {
+          user = await storage.updateUserRole(user.id, 'admin') || user;
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Send a one-time login code to a registered phone number
+  app.post("/api/auth/request-otp", async (req, res) => {
+    try {
+      const { phone } = requestOtpSchema.parse(req.body);
+      const normalizedPhone = normalizePhone(phone);
+
+      const user = await storage.getUserByPhone(normalizedPhone);
+      if (!user) {
+        return res.status(404).json({
+          message: "No account registered with this phone number"
+        });
+      }
+
+      await otpService.issue(normalizedPhone);
+      res.json({ sent: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof OtpThrottledError) {
+        return res.status(429).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Verify the code and start a session
+  app.post("/api/auth/verify-otp", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: Express.User | false, info?: { message: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid or expired code" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json({ user });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json({ user: req.user });
+  });
+}
@@ -1,5 +1,22 @@
-import { createHash } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
+import type { FraudSignal } from '@shared/schema';
 import { storage } from './storage';
+import { runFraudPipeline } from './fraud/pipeline';
+import { getFraudConfig } from './fraud/config';
+import type { FraudAssessment } from './fraud/types';
+import type { OcrVerification } from './ocr/verification';
+import { merkleRoot } from './blockchain/merkle';
+import { signMessage, verifyMessage } from './blockchain/signingKey';
+
+// Chains are server-controlled, so blocks are sealed with the server's signing
+// key instead of mined: the hash covers the block's contents and an Ed25519
+// signature over that hash proves the server wrote it. Chains mined with
+// proof of work before that keep their hashes and are re-sealed once by
+// `npm run chains:reseal` (server/blockchain/resealChains.ts).
+const LEGACY_POW_DIFFICULTY = 4;
+
+// Fraud alerts since the last reinstatement that suspend a vehicle
+const SUSPENSION_FRAUD_ALERTS = 3;
 
 export interface Block {
   index: number;
@@ -7,18 +24,54 @@ export interface Block {
   data: BlockData;
   hash: string;
   previousHash: string;
-  nonce: number;
+  nonce: number; // 0 unless mined with proof of work
   merkleRoot: string;
+  keyId: string;
+  signature: string; // base64 Ed25519 over the hash bytes
 }
 
 export interface BlockData {
-  type: 'USER_REGISTRY' | 'ODOMETER_READING' | 'FRAUD_ALERT';
+  type: 'USER_REGISTRY' | 'ODOMETER_READING' | 'FRAUD_ALERT' | 'REINSTATEMENT';
   vehicleNumber: string;
   userId?: number;
   odometerReading?: number;
   location?: string;
   imageHash?: string;
   validationProof?: ValidationProof;
+  reinstatement?: Reinstatement;
+  privateDataSalt?: string;
+  privateDataHash?: string; // commits to location and validationProof; unset on blocks sealed before the commitment
+}
+
+type PrivateBlockData = Pick<BlockData, 'location' | 'validationProof' | 'privateDataSalt'>;
+
+// The block data a proof bundle can publish. GPS location and device details
+// stay private; privateDataHash stands in for them.
+export function publicBlockData(data: BlockData): Omit<BlockData, keyof PrivateBlockData> {
+  const { location, validationProof, privateDataSalt, ...publicData } = data;
+  return publicData;
+}
+
+function privateDataHash({ location, validationProof, privateDataSalt }: PrivateBlockData): string {
+  return createHash('sha256').update(JSON.stringify({ privateDataSalt, location, validationProof })).digest('hex');
+}
+
+// What a block's hash and Merkle root cover. Blocks sealed before the
+// commitment hashed their data whole and keep those hashes.
+function hashedBlockData(data: BlockData): Omit<BlockData, keyof PrivateBlockData> {
+  return data.privateDataHash ? publicBlockData(data) : data;
+}
+
+// Who lifted a suspension and why
+export interface Reinstatement {
+  reviewedBy: number; // users.id of the admin
+  appealId: number | null;
+  note?: string;
+}
+
+export interface Suspension {
+  suspendedAt: Date;
+  reasons: string[]; // one per fraud alert since the last reinstatement
 }
 
 export interface ValidationProof {
@@ -29,6 +82,19 @@ export interface ValidationProof {
   imageMetadata: string;
 }
 
+export interface ReadingResult {
+  status: 'accepted' | 'review' | 'rejected';
+  fraudAlert?: string;
+  fraudScore: number;
+  fraudSignals: FraudSignal[];
+}
+
+export interface ChainVerification {
+  isValid: boolean;
+  errors: string[];
+  firstBrokenBlock: number | null;
+}
+
 export interface UserChain {
   vehicleNumber: string;
   chain: Block[];
@@ -40,15 +106,58 @@ export interface UserChain {
 class BlockchainRegistry {
   private userChains: Map<string, UserChain> = new Map();
   private globalFraudDatabase: Map<string, FraudRecord[]> = new Map();
-  private difficulty = 4; // Mining difficulty
 
-  constructor() {
-    this.initializeGenesisBlocks();
+  // Load persisted chains for existing users (call once at server start)
+  async initializeGenesisBlocks(): Promise<void> {
+    const records = await storage.getBlockchainRecords();
+    let unsealed = 0;
+
+    for (const record of records) {
+      try {
+        const chain: Block[] = JSON.parse(record.chainData, reviveBlockDates);
+        if (chain.length === 0) continue;
+
+        const userChain: UserChain = {
+          vehicleNumber: record.vehicleNumber,
+          chain,
+          isActive: record.isActive ?? true,
+          fraudScore: record.fraudScore ?? 0,
+          lastValidReading: record.lastValidReading ?? 0
+        };
+        this.userChains.set(record.vehicleNumber, userChain);
+
+        // Never signed automatically - stripping the signatures off an
+        // edited chain must not get it re-signed on the next restart
+        if (chain.some(block => !block.signature)) {
+          unsealed++;
+        }
+
+        const integrity = this.verifyChain(record.vehicleNumber);
+        if (!integrity.isValid) {
+          console.warn(`Blockchain for ${record.vehicleNumber} failed verification:`, integrity.errors);
+        }
+      } catch (error) {
+        console.error(`Failed to load blockchain for ${record.vehicleNumber}:`, error);
+      }
+    }
+
+    console.log(`Loaded ${this.userChains.size} vehicle blockchains`);
+    if (unsealed > 0) {
+      console.warn(`${unsealed} blockchains have unsigned blocks and fail verification - run \`npm run chains:reseal\` once if they predate block signing`);
+    }
   }
 
-  // Initialize genesis blocks for existing users
-  private async initializeGenesisBlocks() {
-    // This would load existing users from database and create chains
+  // Sign every chain still mined with proof of work and persist it; returns
+  // the vehicles re-sealed. Only for the one-time migration command.
+  async resealLegacyChains(): Promise<string[]> {
+    const resealed: string[] = [];
+    for (const userChain of Array.from(this.userChains.values())) {
+      if (this.resealChain(userChain)) {
+        await storage.persistBlockchain(userChain.vehicleNumber);
+        resealed.push(userChain.vehicleNumber);
+      }
+    }
+    return resealed;
   }
 
   // Create new blockchain for user registration
@@ -77,25 +186,27 @@ class BlockchainRegistry {
       userId
     };
 
-    return {
+    return this.sealBlock({
       index: 0,
       timestamp: new Date(),
       data,
-      hash: '',
       previousHash: '0',
       nonce: 0,
       merkleRoot: this.calculateMerkleRoot([data])
-    };
+    });
   }
 
-  // Add new odometer reading to user's blockchain
-  async addOdometerReading(
+  // Run the fraud checks on a new odometer reading. Readings in the grey zone
+  // between the configured review and reject thresholds are held back for
+  // manual review. Only a rejection touches the chain (a fraud alert block);
+  // an accepted reading is added with recordReading once the upload's other
+  // checks have passed, so a refused upload leaves no reading behind.
+  async assessOdometerReading(
     vehicleNumber: string,
     reading: number,
-    imageHash: string,
-    location: string,
-    validationProof: ValidationProof
-  ): Promise<{ success: boolean; blockHash?: string; fraudAlert?: string }> {
+    validationProof: ValidationProof,
+    serverOcr: OcrVerification | null = null
+  ): Promise<ReadingResult> {
     
     const userChain = this.userChains.get(vehicleNumber);
     if (!userChain) {
@@ -103,16 +214,60 @@ class BlockchainRegistry {
     }
 
     // Fraud detection checks
-    const fraudCheck = await this.detectFraud(vehicleNumber, reading, validationProof);
-    if (fraudCheck.isFraud) {
+    const fraudCheck = await this.detectFraud(vehicleNumber, reading, validationProof, serverOcr);
+    if (fraudCheck.verdict === 'reject') {
+      const reason = fraudCheck.signals
+        .filter(signal => signal.triggered)
+        .map(signal => signal.message)
+        .join(', ');
       // Add fraud alert block
-      await this.addFraudAlertBlock(vehicleNumber, fraudCheck.reason);
+      await this.addFraudAlertBlock(vehicleNumber, reason);
+      return {
+        status: 'rejected',
+        fraudAlert: reason,
+        fraudScore: fraudCheck.score,
+        fraudSignals: fraudCheck.signals
+      };
+    }
+
+    if (fraudCheck.verdict === 'review') {
       return {
-        success: false,
-        fraudAlert: fraudCheck.reason
+        status: 'review',
+        fraudScore: fraudCheck.score,
+        fraudSignals: fraudCheck.signals
       };
     }
 
+    return {
+      status: 'accepted',
+      fraudScore: fraudCheck.score,
+      fraudSignals: fraudCheck.signals
+    };
+  }
+
+  // Add a reading that passed the fraud checks or that a reviewer approved
+  async recordReading(
+    vehicleNumber: string,
+    reading: number,
+    imageHash: string,
+    location: string,
+    validationProof: ValidationProof
+  ): Promise<string> {
+    if (!this.userChains.has(vehicleNumber)) {
+      throw new Error('No blockchain found for this vehicle');
+    }
+    return await this.appendReading(vehicleNumber, reading, imageHash, location, validationProof);
+  }
+
+  private async appendReading(
+    vehicleNumber: string,
+    reading: number,
+    imageHash: string,
+    location: string,
+    validationProof: ValidationProof
+  ): Promise<string> {
+    const userChain = this.userChains.get(vehicleNumber)!;
+
     // Create new block
     const blockData: BlockData = {
       type: 'ODOMETER_READING',
@@ -123,89 +278,38 @@ class BlockchainRegistry {
       validationProof
     };
 
-    const newBlock = this.mineBlock(userChain.chain, blockData);
-    userChain.chain.push(newBlock);
+    const newBlock = this.appendBlock(userChain.chain, blockData);
     userChain.lastValidReading = reading;
 
     // Cross-reference with other apps/systems
     await this.updateGlobalFraudDatabase(vehicleNumber, reading, newBlock.hash);
 
-    return {
-      success: true,
-      blockHash: newBlock.hash
-    };
+    return newBlock.hash;
   }
 
-  // Advanced fraud detection system
+  // Fraud detection - the checks themselves live in server/fraud/rules and are
+  // tuned through FRAUD_RULES_CONFIG
   private async detectFraud(
     vehicleNumber: string,
     reading: number,
-    validation: ValidationProof
-  ): Promise<{ isFraud: boolean; reason?: string; confidence: number }> {
+    validation: ValidationProof,
+    serverOcr: OcrVerification | null
+  ): Promise<FraudAssessment> {
     
     const userChain = this.userChains.get(vehicleNumber);
     if (!userChain) {
-      return { isFraud: true, reason: 'No user chain found', confidence: 1.0 };
-    }
-
-    let fraudScore = 0;
-    const checks: string[] = [];
-
-    // 1. Check for impossible distance travelled
-    const lastBlock = userChain.chain[userChain.chain.length - 1];
-    if (lastBlock.data.odometerReading) {
-      const timeDiff = (new Date().getTime() - lastBlock.timestamp.getTime()) / (1000 * 60 * 60); // hours
-      const kmDiff = reading - lastBlock.data.odometerReading;
-      const speedKmh = kmDiff / timeDiff;
-      
-      if (speedKmh > 200) { // Impossible speed
-        fraudScore += 0.8;
-        checks.push('Impossible speed detected');
-      }
-      
-      if (kmDiff < 0) { // Odometer rolled back
-        fraudScore += 0.9;
-        checks.push('Odometer rollback detected');
-      }
-    }
-
-    // 2. Check OCR confidence
-    if (validation.ocrConfidence < 0.7) {
-      fraudScore += 0.3;
-      checks.push('Low OCR confidence');
-    }
-
-    // 3. Check location consistency
-    if (validation.locationAccuracy > 100) { // More than 100m accuracy
-      fraudScore += 0.2;
-      checks.push('Poor location accuracy');
-    }
-
-    // 4. Check for duplicate readings across apps
-    const globalCheck = await this.checkGlobalFraudDatabase(vehicleNumber, reading);
-    if (globalCheck.isDuplicate) {
-      fraudScore += 0.9;
-      checks.push('Reading already used in another app');
-    }
-
-    // 5. Check image metadata for manipulation
-    if (this.detectImageManipulation(validation.imageMetadata)) {
-      fraudScore += 0.7;
-      checks.push('Image manipulation detected');
-    }
-
-    // 6. Device fingerprint consistency
-    if (!this.validateDeviceFingerprint(vehicleNumber, validation.deviceFingerprint)) {
-      fraudScore += 0.4;
-      checks.push('Suspicious device change');
+      throw new Error('No blockchain found for this vehicle');
     }
 
-    const isFraud = fraudScore > 0.6;
-    return {
-      isFraud,
-      reason: isFraud ? checks.join(', ') : undefined,
-      confidence: Math.min(fraudScore, 1.0)
-    };
+    return await runFraudPipeline({
+      vehicleNumber,
+      reading,
+      validation,
+      chain: userChain.chain,
+      now: new Date(),
+      serverOcr,
+      findCrossAppReading: (value) => this.checkGlobalFraudDatabase(vehicleNumber, value)
+    }, getFraudConfig());
   }
 
   // Check reading against global fraud database
@@ -257,42 +361,6 @@ class BlockchainRegistry {
     }
   }
 
-  private detectImageManipulation(metadata: string): boolean {
-    // Simple checks for image manipulation
-    try {
-      const meta = JSON.parse(metadata);
-      
-      // Check for common photo editing software signatures
-      const editingSoftware = ['photoshop', 'gimp', 'pixelmator', 'canva'];
-      const software = (meta.software || '').toLowerCase();
-      
-      return editingSoftware.some(editor => software.includes(editor));
-    } catch {
-      return false; // If metadata can't be parsed, assume it's fine
-    }
-  }
-
-  private validateDeviceFingerprint(vehicleNumber: string, fingerprint: string): boolean {
-    const userChain = this.userChains.get(vehicleNumber);
-    if (!userChain || userChain.chain.length <= 1) {
-      return true; // First reading, accept any device
-    }
-
-    // Check last 3 blocks for device consistency
-    const recentBlocks = userChain.chain.slice(-3);
-    const recentFingerprints = recentBlocks
-      .map(block => block.data.validationProof?.deviceFingerprint)
-      .filter(fp => fp);
-
-    // Allow device change if it's been consistent for at least 2 previous readings
-    if (recentFingerprints.length >= 2) {
-      const lastFingerprint = recentFingerprints[recentFingerprints.length - 1];
-      return fingerprint === lastFingerprint;
-    }
-
-    return true;
-  }
-
   // Add fraud alert to user's blockchain
   private async addFraudAlertBlock(vehicleNumber: string, reason: string): Promise<void> {
     const userChain = this.userChains.get(vehicleNumber);
@@ -310,44 +378,80 @@ class BlockchainRegistry {
       }
     };
 
-    const fraudBlock = this.mineBlock(userChain.chain, alertData);
-    userChain.chain.push(fraudBlock);
+    this.appendBlock(userChain.chain, alertData);
     userChain.fraudScore += 1;
 
-    // Temporarily suspend chain if too many fraud attempts
-    if (userChain.fraudScore >= 3) {
+    // Suspend the vehicle until an admin reinstates it
+    if (userChain.fraudScore >= SUSPENSION_FRAUD_ALERTS) {
       userChain.isActive = false;
     }
   }
 
-  // Mine new block with proof of work
-  private mineBlock(chain: Block[], data: BlockData): Block {
-    const previousBlock = chain[chain.length - 1];
-    let nonce = 0;
-    let hash = '';
+  // Lift a suspension with an explicit block recording who reinstated the
+  // vehicle. Fraud alerts before it no longer count towards the next one.
+  async reinstateChain(vehicleNumber: string, reinstatement: Reinstatement): Promise<string> {
+    const userChain = this.userChains.get(vehicleNumber);
+    if (!userChain) {
+      throw new Error('No blockchain found for this vehicle');
+    }
+
+    const block = this.appendBlock(userChain.chain, {
+      type: 'REINSTATEMENT',
+      vehicleNumber,
+      reinstatement
+    });
+    userChain.fraudScore = 0;
+    userChain.isActive = true;
+    return block.hash;
+  }
+
+  // Null unless the vehicle is suspended
+  getSuspension(vehicleNumber: string): Suspension | null {
+    const userChain = this.userChains.get(vehicleNumber);
+    if (!userChain || userChain.isActive) return null;
 
-    const block: Omit<Block, 'hash' | 'nonce'> = {
+    const alerts: Block[] = [];
+    for (let i = userChain.chain.length - 1; i >= 0; i--) {
+      const block = userChain.chain[i];
+      if (block.data.type === 'REINSTATEMENT') break;
+      if (block.data.type === 'FRAUD_ALERT') alerts.unshift(block);
+    }
+
+    return {
+      suspendedAt: alerts.length > 0 ? alerts[alerts.length - 1].timestamp : userChain.chain[userChain.chain.length - 1].timestamp,
+      reasons: alerts.map(block => block.data.validationProof?.deviceFingerprint || 'Fraud detected')
+    };
+  }
+
+  // Seal a block after the chain's last one and append it
+  private appendBlock(chain: Block[], blockData: BlockData): Block {
+    const previousBlock = chain[chain.length - 1];
+    // Salted so a guessed location or device can't be checked against the hash
+    const data = { ...blockData, privateDataSalt: randomBytes(16).toString('hex') };
+    data.privateDataHash = privateDataHash(data);
+    const block = this.sealBlock({
       index: previousBlock.index + 1,
       timestamp: new Date(),
       data,
       previousHash: previousBlock.hash,
-      merkleRoot: this.calculateMerkleRoot([data])
-    };
-
-    // Proof of work - find hash starting with required zeros
-    while (!hash.startsWith('0'.repeat(this.difficulty))) {
-      nonce++;
-      hash = this.calculateHash({ ...block, nonce });
-    }
+      nonce: 0,
+      merkleRoot: this.calculateMerkleRoot([hashedBlockData(data)])
+    });
+    chain.push(block);
+    return block;
+  }
 
-    return { ...block, hash, nonce };
+  private sealBlock(block: Omit<Block, 'hash' | 'keyId' | 'signature'>): Block {
+    const hash = this.calculateHash(block);
+    const { keyId, value } = signMessage(Buffer.from(hash, 'hex'));
+    return { ...block, hash, keyId, signature: value };
   }
 
-  private calculateHash(block: Omit<Block, 'hash'>): string {
+  private calculateHash(block: Omit<Block, 'hash' | 'keyId' | 'signature'>): string {
     const dataString = JSON.stringify({
       index: block.index,
       timestamp: block.timestamp,
-      data: block.data,
+      data: hashedBlockData(block.data),
       previousHash: block.previousHash,
       nonce: block.nonce,
       merkleRoot: block.merkleRoot
@@ -356,25 +460,9 @@ class BlockchainRegistry {
     return createHash('sha256').update(dataString).digest('hex');
   }
 
-  private calculateMerkleRoot(data: BlockData[]): string {
+  private calculateMerkleRoot(data: Omit<BlockData, keyof PrivateBlockData>[]): string {
     if (data.length === 0) return '';
-    if (data.length === 1) {
-      return createHash('sha256').update(JSON.stringify(data[0])).digest('hex');
-    }
-
-    // Simple merkle root calculation
-    const hashes = data.map(d => createHash('sha256').update(JSON.stringify(d)).digest('hex'));
-    while (hashes.length > 1) {
-      const newLevel = [];
-      for (let i = 0; i < hashes.length; i += 2) {
-        const left = hashes[i];
-        const right = hashes[i + 1] || left;
-        newLevel.push(createHash('sha256').update(left + right).digest('hex'));
-      }
-      hashes.splice(0, hashes.length, ...newLevel);
-    }
-    
-    return hashes[0];
+    return merkleRoot(data.map(d => createHash('sha256').update(JSON.stringify(d)).digest('hex')));
   }
 
   private generateAppSignature(): string {
@@ -385,45 +473,79 @@ class BlockchainRegistry {
   }
 
   // Verify entire chain integrity
-  verifyChain(vehicleNumber: string): { isValid: boolean; errors: string[] } {
+  verifyChain(vehicleNumber: string): ChainVerification {
     const userChain = this.userChains.get(vehicleNumber);
     if (!userChain) {
-      return { isValid: false, errors: ['Chain not found'] };
+      return { isValid: false, errors: ['Chain not found'], firstBrokenBlock: null };
     }
+    return this.verifyBlocks(userChain.chain);
+  }
 
+  // Verify blocks that may not be the loaded chain, e.g. as stored in the database
+  verifyBlocks(chain: Block[]): ChainVerification {
     const errors: string[] = [];
-    const chain = userChain.chain;
+    let firstBrokenBlock: number | null = null;
+    const fail = (index: number, error: string) => {
+      errors.push(error);
+      if (firstBrokenBlock === null) firstBrokenBlock = index;
+    };
 
-    for (let i = 1; i < chain.length; i++) {
-      const currentBlock = chain[i];
-      const previousBlock = chain[i - 1];
-
-      // Verify hash
-      const calculatedHash = this.calculateHash({
-        index: currentBlock.index,
-        timestamp: currentBlock.timestamp,
-        data: currentBlock.data,
-        previousHash: currentBlock.previousHash,
-        nonce: currentBlock.nonce,
-        merkleRoot: currentBlock.merkleRoot
-      });
-
-      if (calculatedHash !== currentBlock.hash) {
-        errors.push(`Invalid hash at block ${i}`);
+    for (let i = 0; i < chain.length; i++) {
+      const block = chain[i];
+      const calculatedHash = this.calculateHash(block);
+
+      // Verify hash. Genesis blocks of mined chains were never hashed; their
+      // re-sealed signature still covers the contents.
+      if (calculatedHash !== block.hash && !(i === 0 && block.hash === '')) {
+        fail(i, `Invalid hash at block ${i}`);
+      }
+
+      // The hash only covers the commitment to the private fields
+      if (block.data.privateDataHash && privateDataHash(block.data) !== block.data.privateDataHash) {
+        fail(i, `Invalid private data at block ${i}`);
       }
 
       // Verify chain linkage
-      if (currentBlock.previousHash !== previousBlock.hash) {
-        errors.push(`Broken chain at block ${i}`);
+      if (i > 0 && block.previousHash !== chain[i - 1].hash) {
+        fail(i, `Broken chain at block ${i}`);
       }
 
-      // Verify proof of work
-      if (!currentBlock.hash.startsWith('0'.repeat(this.difficulty))) {
-        errors.push(`Invalid proof of work at block ${i}`);
+      // Verify the server sealed it
+      if (!block.signature) {
+        fail(i, `Unsigned block ${i}`);
+      } else if (!verifyMessage(block.keyId, Buffer.from(calculatedHash, 'hex'), block.signature)) {
+        fail(i, `Invalid signature at block ${i}`);
       }
     }
 
-    return { isValid: errors.length === 0, errors };
+    return { isValid: errors.length === 0, errors, firstBrokenBlock };
+  }
+
+  // Sign the blocks of a chain mined with proof of work, keeping their hashes
+  // so stored block references stay valid. Only a chain that still passes the
+  // proof-of-work checks is re-sealed - signing a tampered one would launder it.
+  private resealChain(userChain: UserChain): boolean {
+    const chain = userChain.chain;
+    if (chain.every(block => block.signature)) {
+      return false;
+    }
+
+    for (let i = 1; i < chain.length; i++) {
+      const block = chain[i];
+      if (this.calculateHash(block) !== block.hash ||
+          block.previousHash !== chain[i - 1].hash ||
+          !block.hash.startsWith('0'.repeat(LEGACY_POW_DIFFICULTY))) {
+        console.warn(`Not re-sealing blockchain for ${userChain.vehicleNumber}: proof of work fails at block ${i}`);
+        return false;
+      }
+    }
+
+    userChain.chain = chain.map(block => {
+      if (block.signature) return block;
+      const { keyId, value } = signMessage(Buffer.from(this.calculateHash(block), 'hex'));
+      return { ...block, keyId, signature: value };
+    });
+    return true;
   }
 
   // Get user chain summary
@@ -447,12 +569,24 @@ class BlockchainRegistry {
     };
   }
 
+  hasChain(vehicleNumber: string): boolean {
+    return this.userChains.has(vehicleNumber);
+  }
+
   // Export chain for auditing
   exportChain(vehicleNumber: string): UserChain | null {
     return this.userChains.get(vehicleNumber) || null;
   }
 }
 
+// JSON.parse reviver restoring the Date fields of a serialized chain
+export function reviveBlockDates(key: string, value: unknown): unknown {
+  if ((key === 'timestamp' || key === 'timeStamp') && typeof value === 'string') {
+    return new Date(value);
+  }
+  return value;
+}
+
 interface FraudRecord {
   reading: number;
   timestamp: Date;
@@ -0,0 +1,197 @@
+import { storage } from '../storage';
+import { getChainAdapter } from './chains';
+import { createReadingHash, OWN_APP_SOURCE, type BatchReading, type ReadingUsage } from './chainAdapter';
+import { buildMerkleTree, getMerkleProof, verifyMerkleProof } from './merkle';
+import { claimGlobalReading } from './localChain';
+import type { AnchorJob, MerkleProofStep, Reward } from '@shared/schema';
+
+// Uploads don't wait on gas or confirmations: an accepted reading is claimed
+// in the global fraud database straight away, so duplicate checks see it
+// before it is anchored, and the reward gets an anchor job. A background
+// worker collects due jobs over a window, builds a Merkle tree of their
+// reading hashes and anchors only the root in one transaction. Each job keeps
+// its inclusion proof. Failed batches are retried with exponential backoff
+// until the jobs land or run out of attempts.
+
+export const APP_SIGNATURE = 'GreenKarma-v1.0';
+
+const MAX_ATTEMPTS = parseInt(process.env.ANCHOR_MAX_ATTEMPTS || '8', 10);
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const BATCH_WINDOW_MS = parseInt(process.env.ANCHOR_BATCH_WINDOW_MS || '60000', 10);
+const MAX_BATCH_SIZE = parseInt(process.env.ANCHOR_MAX_BATCH_SIZE || '256', 10);
+
+export interface ReadingInclusion {
+  rewardId: number;
+  readingTimestamp: Date;
+  appSignature: string;
+  readingHash: string;
+  merkleRoot: string;
+  leafIndex: number;
+  proof: MerkleProofStep[];
+  txHash: string | null;
+  network: string;
+  included: boolean;
+}
+
+let draining = false;
+let workerTimer: NodeJS.Timeout | undefined;
+
+// 30s, 1m, 2m, ... capped at an hour
+export function backoffDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+// Claim an accepted reading for this app. Two uploads can both pass the
+// duplicate check; only one claim succeeds, and the other gets its usage back.
+export async function reserveReading(vehicleNumber: string, reading: number, readingTimestamp: Date): Promise<ReadingUsage> {
+  return await claimGlobalReading({
+    vehicleNumber,
+    reading,
+    timestamp: readingTimestamp,
+    appSignature: APP_SIGNATURE,
+    readingHash: createReadingHash(vehicleNumber, reading, readingTimestamp)
+  }, OWN_APP_SOURCE);
+}
+
+// readingTimestamp must be the one the upload's duplicate check hashed
+export async function enqueueAnchor(reward: Reward, readingTimestamp: Date): Promise<AnchorJob> {
+  return await storage.createAnchorJob({
+    rewardId: reward.id,
+    vehicleNumber: reward.vehicleNumber,
+    reading: reward.km,
+    readingTimestamp,
+    appSignature: APP_SIGNATURE
+  });
+}
+
+function toBatchReading(job: AnchorJob): BatchReading {
+  return {
+    vehicleNumber: job.vehicleNumber,
+    reading: job.reading,
+    timestamp: job.readingTimestamp,
+    appSignature: job.appSignature,
+    readingHash: createReadingHash(job.vehicleNumber, job.reading, job.readingTimestamp)
+  };
+}
+
+async function failJob(job: AnchorJob, attempts: number, error: string): Promise<void> {
+  await storage.updateAnchorJob(job.id, { status: 'failed', attempts, lastError: error });
+  await storage.updateRewardAnchor(job.rewardId, { anchorStatus: 'failed' });
+  console.error(`Anchoring reward ${job.rewardId} failed after ${attempts} attempt(s): ${error}`);
+}
+
+// Try again after a backoff, until the attempts run out
+async function retryJob(job: AnchorJob, error: string): Promise<void> {
+  const attempts = job.attempts + 1;
+  if (attempts >= MAX_ATTEMPTS) {
+    await failJob(job, attempts, error);
+  } else {
+    await storage.updateAnchorJob(job.id, {
+      attempts,
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + backoffDelay(attempts))
+    });
+  }
+}
+
+async function anchorJobs(jobs: AnchorJob[]): Promise<void> {
+  const chain = getChainAdapter();
+
+  // Each reading was claimed when its upload was accepted, so nothing is
+  // re-checked here - the batch is only the on-chain anchoring
+  const batch = jobs.map(job => ({ job, reading: toBatchReading(job) }));
+
+  const levels = buildMerkleTree(batch.map(entry => entry.reading.readingHash));
+  const root = levels[levels.length - 1][0];
+  const result = await chain.anchorBatch(root, batch.map(entry => entry.reading));
+
+  if (!result.success) {
+    for (const { job } of batch) {
+      await retryJob(job, result.error ?? 'Anchoring failed');
+    }
+    return;
+  }
+
+  const anchorBatch = await storage.createAnchorBatch({
+    merkleRoot: root,
+    readingCount: batch.length,
+    network: result.network,
+    txHash: result.txHash ?? null
+  });
+
+  for (let leafIndex = 0; leafIndex < batch.length; leafIndex++) {
+    const { job } = batch[leafIndex];
+    await storage.updateAnchorJob(job.id, {
+      status: 'done',
+      attempts: job.attempts + 1,
+      lastError: null,
+      batchId: anchorBatch.id,
+      leafIndex,
+      merkleProof: JSON.stringify(getMerkleProof(levels, leafIndex)),
+      completedAt: new Date()
+    });
+    await storage.updateRewardAnchor(job.rewardId, { anchorStatus: 'anchored', txHash: result.txHash ?? null });
+  }
+}
+
+// Anchor up to one batch of due jobs; returns how many were attempted
+export async function drainAnchorQueue(): Promise<number> {
+  if (draining) return 0;
+  draining = true;
+
+  try {
+    const jobs = await storage.getDueAnchorJobs(new Date(), MAX_BATCH_SIZE);
+    if (jobs.length > 0) {
+      await anchorJobs(jobs);
+    }
+    return jobs.length;
+  } finally {
+    draining = false;
+  }
+}
+
+// Recompute the reading's leaf from the job and check it against the anchored root
+export async function getReadingInclusion(rewardId: number): Promise<ReadingInclusion | null> {
+  const job = await storage.getAnchorJobByRewardId(rewardId);
+  if (!job || job.batchId === null || job.leafIndex === null || !job.merkleProof) {
+    return null;
+  }
+  const batch = await storage.getAnchorBatch(job.batchId);
+  if (!batch) {
+    return null;
+  }
+
+  const { readingHash } = toBatchReading(job);
+  const proof = JSON.parse(job.merkleProof) as MerkleProofStep[];
+  return {
+    rewardId,
+    readingTimestamp: job.readingTimestamp,
+    appSignature: job.appSignature,
+    readingHash,
+    merkleRoot: batch.merkleRoot,
+    leafIndex: job.leafIndex,
+    proof,
+    txHash: batch.txHash,
+    network: batch.network,
+    included: verifyMerkleProof(readingHash, proof, batch.merkleRoot)
+  };
+}
+
+function drainInBackground(): void {
+  drainAnchorQueue().catch(error => console.error('Anchor queue drain failed:', error));
+}
+
+// Each tick closes the current window and anchors what has accumulated
+export function startAnchorWorker(windowMs: number = BATCH_WINDOW_MS): () => void {
+  if (!workerTimer) {
+    workerTimer = setInterval(drainInBackground, windowMs);
+    workerTimer.unref();
+    drainInBackground();
+  }
+
+  return () => {
+    clearInterval(workerTimer);
+    workerTimer = undefined;
+  };
+}
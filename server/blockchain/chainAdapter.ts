@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { readingIdentity, READING_TIME_BUCKET_MS } from '@shared/readingIdentity';
+
+// app_source on readings this app anchors itself
+export const OWN_APP_SOURCE = 'GreenKarma';
+
+export interface ChainRegistration {
+  success: boolean;
+  network: string;
+  txHash?: string;
+  explorerUrl?: string;
+  duplicate?: boolean; // already registered - retrying won't help
+  error?: string;
+}
+
+export interface BatchReading {
+  vehicleNumber: string;
+  reading: number;
+  timestamp: Date;
+  appSignature: string;
+  readingHash: string; // hex, no 0x - the reading's Merkle leaf
+}
+
+export interface ReadingUsage {
+  used: boolean;
+  appSource?: string;
+  timestamp?: Date;
+  error?: string; // the check couldn't be made - used is unknown, not false
+}
+
+export interface TransactionVerification {
+  verified: boolean;
+  network: string;
+  status: 'confirmed' | 'failed' | 'pending' | 'not_found';
+  explorerUrl?: string;
+  blockNumber?: number;
+  data?: {
+    vehicleNumber: string;
+    reading: number;
+    appSource: string;
+    timestamp: Date;
+  };
+  error?: string;
+}
+
+export interface ChainNetworkStatus {
+  adapter: string;
+  network: string;
+  connected: boolean;
+  isTestnet: boolean;
+  chainId?: number;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  contractAddress?: string;
+  signerAddress?: string;
+  blockHeight?: number;
+}
+
+// Where readings are registered for cross-app duplicate detection
+export interface ChainAdapter {
+  name: string;
+  networkName: string;
+  registerReading(
+    vehicleNumber: string,
+    reading: number,
+    timestamp: Date,
+    appSignature: string,
+    appSource: string // app claiming the reading - ours, or a partner's
+  ): Promise<ChainRegistration>;
+  // One transaction for many readings; only merkleRoot has to go on chain
+  anchorBatch(merkleRoot: string, readings: BatchReading[]): Promise<ChainRegistration>;
+  isReadingUsed(readingHash: string): Promise<ReadingUsage>;
+  verifyTransaction(txHash: string): Promise<TransactionVerification>;
+  getNetworkStatus(): Promise<ChainNetworkStatus>;
+  explorerTxUrl(txHash: string): string | undefined;
+}
+
+// Readings kept off chain: claims waiting for their transaction, and our
+// batched readings - a batch only puts its Merkle root on chain
+export interface ReadingRecords {
+  find(readingHash: string): Promise<ReadingUsage>;
+  // Atomic: of two claims on the same reading only one gets used: false
+  claim(reading: BatchReading, appSource: string): Promise<ReadingUsage>;
+  // Undo a claim whose transaction never went through
+  release(readingHash: string, appSource: string): Promise<void>;
+  recordBatch(readings: BatchReading[], txHash: string): Promise<void>;
+}
+
+// Hex sha256 identifying a reading across apps (bytes32 once 0x-prefixed)
+export function createReadingHash(vehicleNumber: string, reading: number, timestamp: Date): string {
+  return createHash('sha256').update(readingIdentity(vehicleNumber, reading, timestamp)).digest('hex');
+}
+
+// A replay is always later than the original claim, so a reading is also
+// looked up in the previous time bucket in case the two straddle a boundary
+export async function findReadingUsage(
+  chain: ChainAdapter,
+  vehicleNumber: string,
+  reading: number,
+  timestamp: Date
+): Promise<ReadingUsage> {
+  const usage = await chain.isReadingUsed(createReadingHash(vehicleNumber, reading, timestamp));
+  if (usage.used || usage.error) {
+    return usage;
+  }
+  const previousBucket = new Date(timestamp.getTime() - READING_TIME_BUCKET_MS);
+  return await chain.isReadingUsed(createReadingHash(vehicleNumber, reading, previousBucket));
+}
+
+export function readingCheckError(usage: ReadingUsage): string {
+  return `Couldn't check whether the reading was already used: ${usage.error}`;
+}
+
+export function duplicateReadingError(usage: ReadingUsage): string {
+  return `Reading already used by ${usage.appSource} at ${usage.timestamp?.toISOString()}`;
+}
@@ -0,0 +1,150 @@
+import { storage } from '../storage';
+import { blockchainRegistry, reviveBlockDates, type Block } from '../blockchain';
+import type { ChainAudit, ChainAuditFinding, Reward } from '@shared/schema';
+
+// chain_data can be edited by anyone with database access, so the stored
+// chains are re-verified on a schedule: signatures and linkage of every block,
+// agreement with the chain this server loaded, and every reward's blockHash
+// against the block it claims. Each run is recorded; a tampered chain raises
+// an admin alert naming its first broken block.
+
+const AUDIT_INTERVAL_MS = parseInt(process.env.CHAIN_AUDIT_INTERVAL_MS || String(6 * 60 * 60 * 1000), 10);
+
+let auditing = false;
+let auditTimer: NodeJS.Timeout | undefined;
+
+function earliest(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+// First stored block that differs from the chain this server has loaded. The
+// loaded chain may be a block ahead while an upload is being persisted, so a
+// shorter stored chain alone isn't flagged - dropped readings show up as
+// rewards pointing at missing blocks instead.
+function compareWithLoaded(vehicleNumber: string, stored: Block[]): { errors: string[]; firstBrokenBlock: number | null } {
+  const loaded = blockchainRegistry.exportChain(vehicleNumber)?.chain;
+  if (!loaded) return { errors: [], firstBrokenBlock: null };
+
+  for (let i = 0; i < stored.length; i++) {
+    if (!loaded[i] || stored[i].hash !== loaded[i].hash) {
+      return { errors: [`Stored block ${i} differs from the loaded chain`], firstBrokenBlock: i };
+    }
+  }
+  return { errors: [], firstBrokenBlock: null };
+}
+
+// Each reward recorded on chain must point at an odometer block with its reading
+function checkRewards(stored: Block[], rewards: Reward[]): { errors: string[]; firstBrokenBlock: number | null } {
+  const errors: string[] = [];
+  let firstBrokenBlock: number | null = null;
+
+  for (const reward of rewards) {
+    if (!reward.blockHash) continue;
+    const index = stored.findIndex(block => block.hash === reward.blockHash);
+    if (index === -1) {
+      errors.push(`Reward ${reward.id} points to block ${reward.blockHash.substring(0, 12)}… which is not in the chain`);
+      continue;
+    }
+
+    const { data } = stored[index];
+    if (data.type !== 'ODOMETER_READING' || data.odometerReading !== reward.km ||
+        (reward.imageHash && data.imageHash !== reward.imageHash)) {
+      errors.push(`Reward ${reward.id} does not match block ${index}`);
+      firstBrokenBlock = earliest(firstBrokenBlock, index);
+    }
+  }
+  return { errors, firstBrokenBlock };
+}
+
+async function raiseTamperAlert(finding: ChainAuditFinding, auditId: number): Promise<void> {
+  // An alert staff haven't acknowledged yet already covers a repeat finding
+  const open = await storage.getAdminAlerts(true);
+  if (open.some(alert => alert.type === 'chain_tamper' &&
+      alert.vehicleNumber === finding.vehicleNumber &&
+      alert.blockIndex === finding.firstBrokenBlock)) {
+    return;
+  }
+
+  const where = finding.firstBrokenBlock === null ? 'its rewards' : `block ${finding.firstBrokenBlock}`;
+  await storage.createAdminAlert({
+    type: 'chain_tamper',
+    vehicleNumber: finding.vehicleNumber,
+    blockIndex: finding.firstBrokenBlock,
+    message: `Blockchain for ${finding.vehicleNumber} has been tampered with, starting at ${where}`,
+    details: JSON.stringify({ errors: finding.errors }),
+    auditId
+  });
+  console.error(`Chain audit: ${finding.vehicleNumber} tampered at ${where}:`, finding.errors);
+}
+
+// Audit every stored chain; null if an audit is already running
+export async function runChainAudit(): Promise<ChainAudit | null> {
+  if (auditing) return null;
+  auditing = true;
+
+  try {
+    const startedAt = new Date();
+    // Rewards first: each one's block was persisted before the reward was created
+    const rewards = await storage.getRewards();
+    const records = await storage.getBlockchainRecords();
+    const findings: ChainAuditFinding[] = [];
+
+    for (const record of records) {
+      let stored: Block[];
+      try {
+        stored = JSON.parse(record.chainData, reviveBlockDates);
+      } catch {
+        findings.push({ vehicleNumber: record.vehicleNumber, firstBrokenBlock: 0, errors: ['Stored chain is not valid JSON'] });
+        continue;
+      }
+
+      const verification = blockchainRegistry.verifyBlocks(stored);
+      const loaded = compareWithLoaded(record.vehicleNumber, stored);
+      const rewardCheck = checkRewards(stored, rewards.filter(reward => reward.vehicleNumber === record.vehicleNumber));
+
+      const errors = [...verification.errors, ...loaded.errors, ...rewardCheck.errors];
+      if (errors.length > 0) {
+        findings.push({
+          vehicleNumber: record.vehicleNumber,
+          firstBrokenBlock: earliest(earliest(verification.firstBrokenBlock, loaded.firstBrokenBlock), rewardCheck.firstBrokenBlock),
+          errors
+        });
+      }
+    }
+
+    const audit = await storage.createChainAudit({
+      status: findings.length > 0 ? 'tampered' : 'passed',
+      chainsChecked: records.length,
+      rewardsChecked: rewards.filter(reward => reward.blockHash).length,
+      tamperedChains: findings.length,
+      findings: JSON.stringify(findings),
+      startedAt
+    });
+
+    for (const finding of findings) {
+      await raiseTamperAlert(finding, audit.id);
+    }
+    return audit;
+  } finally {
+    auditing = false;
+  }
+}
+
+function auditInBackground(): void {
+  runChainAudit().catch(error => console.error('Chain audit failed:', error));
+}
+
+export function startChainAuditWorker(intervalMs: number = AUDIT_INTERVAL_MS): () => void {
+  if (!auditTimer) {
+    auditTimer = setInterval(auditInBackground, intervalMs);
+    auditTimer.unref();
+    auditInBackground();
+  }
+
+  return () => {
+    clearInterval(auditTimer);
+    auditTimer = undefined;
+  };
+}
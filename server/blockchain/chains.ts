@@ -0,0 +1,36 @@
+import type { ChainAdapter } from './chainAdapter';
+import { globalFraudRecords, LocalDatabaseRegistry, SimulatedChainRegistry } from './localChain';
+import { RealBlockchainRegistry } from './realBlockchain';
+import { BLOCKCHAIN_NETWORKS } from './networks';
+
+// BLOCKCHAIN_NETWORK picks the adapter: 'simulated' (default), 'local-db',
+// or any EVM network from networks.ts (polygon, polygonTestnet, local, ...)
+const CHAIN_ADAPTERS: Record<string, () => ChainAdapter> = {
+  simulated: () => new SimulatedChainRegistry(),
+  'local-db': () => new LocalDatabaseRegistry(),
+  ...Object.fromEntries(
+    Object.entries(BLOCKCHAIN_NETWORKS).map(([key, network]) => [
+      key,
+      () => new RealBlockchainRegistry({ network, records: globalFraudRecords })
+    ])
+  )
+};
+
+export function registerChainAdapter(name: string, factory: () => ChainAdapter): void {
+  CHAIN_ADAPTERS[name] = factory;
+}
+
+let activeAdapter: ChainAdapter | undefined;
+
+// One adapter per process so EVM providers and signers are reused
+export function getChainAdapter(): ChainAdapter {
+  if (!activeAdapter) {
+    const adapterName = process.env.BLOCKCHAIN_NETWORK || 'simulated';
+    const factory = CHAIN_ADAPTERS[adapterName];
+    if (!factory) {
+      throw new Error(`Unknown blockchain network: ${adapterName}`);
+    }
+    activeAdapter = factory();
+  }
+  return activeAdapter;
+}
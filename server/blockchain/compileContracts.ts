@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import solc from 'solc';
+
+// Compiles contracts/FraudPrevention.sol with solc-js and writes typed ethers
+// bindings to server/blockchain/generated. Run with `npm run contracts:build`
+// after changing the contract and commit the generated file.
+
+const CONTRACT_NAME = 'FraudPrevention';
+const SOURCE_PATH = path.resolve(process.cwd(), 'contracts', `${CONTRACT_NAME}.sol`);
+const OUTPUT_PATH = path.resolve(process.cwd(), 'server', 'blockchain', 'generated', 'fraudPrevention.ts');
+
+// paris avoids PUSH0 so the bytecode deploys on chains that haven't adopted Shanghai
+const EVM_VERSION = 'paris';
+
+interface AbiParameter {
+  name: string;
+  type: string;
+  components?: AbiParameter[];
+}
+
+interface AbiEntry {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+}
+
+function compile(): { abi: AbiEntry[]; bytecode: string } {
+  const input = {
+    language: 'Solidity',
+    sources: { [`${CONTRACT_NAME}.sol`]: { content: fs.readFileSync(SOURCE_PATH, 'utf-8') } },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: EVM_VERSION,
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors ?? []) as Array<{ severity: string; formattedMessage: string }>;
+  errors.filter(e => e.severity !== 'error').forEach(e => console.warn(e.formattedMessage));
+  const fatal = errors.filter(e => e.severity === 'error');
+  if (fatal.length > 0) {
+    throw new Error(`Compilation failed:\n${fatal.map(e => e.formattedMessage).join('\n')}`);
+  }
+
+  const contract = output.contracts[`${CONTRACT_NAME}.sol`][CONTRACT_NAME];
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+}
+
+// Solidity -> TypeScript, using ethers' accepted input types for arguments
+function tsType(param: AbiParameter, direction: 'input' | 'output'): string {
+  const { type } = param;
+  if (type.endsWith('[]')) {
+    return `Array<${tsType({ ...param, type: type.slice(0, -2) }, direction)}>`;
+  }
+  if (type === 'bool') return 'boolean';
+  if (type === 'string') return 'string';
+  if (type === 'address') return direction === 'input' ? 'AddressLike' : 'string';
+  if (/^u?int\d*$/.test(type)) return direction === 'input' ? 'BigNumberish' : 'bigint';
+  if (/^bytes\d*$/.test(type)) return direction === 'input' ? 'BytesLike' : 'string';
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function returnType(outputs: AbiParameter[]): string {
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return tsType(outputs[0], 'output');
+
+  const tuple = outputs.map(o => tsType(o, 'output')).join(', ');
+  const named = outputs.map(o => `${o.name}: ${tsType(o, 'output')}`).join('; ');
+  return `[${tuple}] & { ${named} }`;
+}
+
+function methodSignature(entry: AbiEntry): string {
+  const params = (entry.inputs ?? []).map(input => `${input.name}: ${tsType(input, 'input')}`);
+  const isView = entry.stateMutability === 'view' || entry.stateMutability === 'pure';
+
+  if (isView) {
+    return `  ${entry.name}(${params.join(', ')}): Promise<${returnType(entry.outputs ?? [])}>;`;
+  }
+  return `  ${entry.name}(${[...params, 'overrides?: Overrides'].join(', ')}): Promise<ContractTransactionResponse>;`;
+}
+
+function render(abi: AbiEntry[], bytecode: string): string {
+  const methods = abi.filter(entry => entry.type === 'function').map(methodSignature);
+
+  return `// Generated by \`npm run contracts:build\` from contracts/${CONTRACT_NAME}.sol - do not edit.
+import {
+  Contract,
+  ContractFactory,
+  type AddressLike,
+  type BaseContract,
+  type BigNumberish,
+  type BytesLike,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type Overrides,
+  type Signer
+} from 'ethers';
+
+export const FRAUD_PREVENTION_ABI = ${JSON.stringify(abi, null, 2)} as const;
+
+export const FRAUD_PREVENTION_BYTECODE = '${bytecode}';
+
+export interface ${CONTRACT_NAME} extends BaseContract {
+${methods.join('\n')}
+}
+
+export function connect${CONTRACT_NAME}(address: string, runner?: ContractRunner | null): ${CONTRACT_NAME} {
+  return new Contract(address, FRAUD_PREVENTION_ABI, runner) as unknown as ${CONTRACT_NAME};
+}
+
+export async function deploy${CONTRACT_NAME}(signer: Signer, overrides: Overrides = {}): Promise<${CONTRACT_NAME}> {
+  const factory = new ContractFactory(FRAUD_PREVENTION_ABI, FRAUD_PREVENTION_BYTECODE, signer);
+  const contract = await factory.deploy(overrides);
+  await contract.waitForDeployment();
+  return contract as unknown as ${CONTRACT_NAME};
+}
+`;
+}
+
+function main() {
+  const { abi, bytecode } = compile();
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, render(abi, bytecode));
+  console.log(`Compiled ${CONTRACT_NAME} with solc ${solc.version()} (evm ${EVM_VERSION}) -> ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+main();
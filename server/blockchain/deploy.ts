@@ -0,0 +1,77 @@
+import { JsonRpcProvider, Network, Wallet } from 'ethers';
+import { getSelectedNetwork } from './networks';
+import { connectFraudPrevention, deployFraudPrevention } from './generated/fraudPrevention';
+
+// Deploys the FraudPrevention contract to BLOCKCHAIN_NETWORK using PRIVATE_KEY
+// and registers the deployer as the GreenKarma app.
+//
+//   npm run contracts:deploy
+//   npm run contracts:deploy -- register-app <address> <name>   (needs CONTRACT_ADDRESS)
+//   npm run contracts:deploy -- revoke-app <address>            (needs CONTRACT_ADDRESS)
+
+const APP_NAME = process.env.APP_NAME || 'GreenKarma';
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set`);
+  }
+  return value;
+}
+
+function connectSigner(): Wallet {
+  const network = getSelectedNetwork();
+  const provider = new JsonRpcProvider(process.env.RPC_URL || network.rpcUrl, Network.from(network.chainId), {
+    staticNetwork: true
+  });
+  return new Wallet(requireEnv('PRIVATE_KEY'), provider);
+}
+
+async function deploy() {
+  const network = getSelectedNetwork();
+  const signer = connectSigner();
+  console.log(`Deploying FraudPrevention to ${network.name} from ${signer.address}...`);
+
+  const contract = await deployFraudPrevention(signer, { gasPrice: network.gasPrice });
+  const address = await contract.getAddress();
+  const receipt = await (await contract.registerApp(signer.address, APP_NAME, { gasPrice: network.gasPrice })).wait();
+
+  console.log(`Registered ${signer.address} as "${APP_NAME}" (tx ${receipt?.hash})`);
+  console.log(`CONTRACT_ADDRESS=${address}`);
+  if (network.explorerUrl) {
+    console.log(`${network.explorerUrl}/address/${address}`);
+  }
+}
+
+async function registerApp(appAddress: string, name: string) {
+  const network = getSelectedNetwork();
+  const contract = connectFraudPrevention(requireEnv('CONTRACT_ADDRESS'), connectSigner());
+  const receipt = await (await contract.registerApp(appAddress, name, { gasPrice: network.gasPrice })).wait();
+  console.log(`Registered ${appAddress} as "${name}" (tx ${receipt?.hash})`);
+}
+
+async function revokeApp(appAddress: string) {
+  const network = getSelectedNetwork();
+  const contract = connectFraudPrevention(requireEnv('CONTRACT_ADDRESS'), connectSigner());
+  const receipt = await (await contract.revokeApp(appAddress, { gasPrice: network.gasPrice })).wait();
+  console.log(`Revoked ${appAddress} (tx ${receipt?.hash})`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command) {
+    await deploy();
+  } else if (command === 'register-app' && args.length === 2) {
+    await registerApp(args[0], args[1]);
+  } else if (command === 'revoke-app' && args.length === 1) {
+    await revokeApp(args[0]);
+  } else {
+    throw new Error('Usage: deploy.ts [register-app <address> <name> | revoke-app <address>]');
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+import ganache from 'ganache';
+import { BrowserProvider, HDNodeWallet, Wallet } from 'ethers';
+import { BLOCKCHAIN_NETWORKS } from './networks';
+
+// Local EVM for development and integration checks - no network access needed.
+// Run `npm run chain:dev` for a JSON-RPC node on 127.0.0.1:8545, or call
+// startDevChain() to get an in-process provider. `npm run chain:check` runs
+// the EVM adapter against one end to end (devChainCheck.ts).
+
+const DEV_MNEMONIC = 'test test test test test test test test test test test junk';
+
+const chainOptions = {
+  chain: { chainId: BLOCKCHAIN_NETWORKS.local.chainId },
+  wallet: { mnemonic: DEV_MNEMONIC, totalAccounts: 3, defaultBalance: 1000 },
+  logging: { quiet: true },
+};
+
+export interface DevChain {
+  provider: BrowserProvider;
+  privateKeys: string[];
+  stop(): Promise<void>;
+}
+
+function devPrivateKeys(): string[] {
+  return Array.from({ length: chainOptions.wallet.totalAccounts }, (_, index) =>
+    HDNodeWallet.fromPhrase(DEV_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).privateKey
+  );
+}
+
+export async function startDevChain(): Promise<DevChain> {
+  const ganacheProvider = ganache.provider(chainOptions);
+  return {
+    // Ganache mines each transaction at once, so a nonce cached for even a
+    // moment is stale by the next send
+    provider: new BrowserProvider(ganacheProvider, BLOCKCHAIN_NETWORKS.local.chainId, { cacheTimeout: -1 }),
+    privateKeys: devPrivateKeys(),
+    stop: () => ganacheProvider.disconnect()
+  };
+}
+
+async function main() {
+  const port = parseInt(process.env.DEV_CHAIN_PORT || '8545', 10);
+  const server = ganache.server(chainOptions);
+  await server.listen(port, '127.0.0.1');
+
+  console.log(`Local dev chain listening on http://127.0.0.1:${port} (chainId ${BLOCKCHAIN_NETWORKS.local.chainId})`);
+  console.log('Funded accounts - set one as PRIVATE_KEY with BLOCKCHAIN_NETWORK=local:');
+  devPrivateKeys().forEach((key, index) => {
+    console.log(`  [${index}] ${new Wallet(key).address} ${key}`);
+  });
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,123 @@
+import assert from 'assert';
+import { Wallet } from 'ethers';
+import { startDevChain } from './devChain';
+import { BLOCKCHAIN_NETWORKS } from './networks';
+import { deployFraudPrevention } from './generated/fraudPrevention';
+import { RealBlockchainRegistry } from './realBlockchain';
+import { createReadingHash, findReadingUsage, type BatchReading } from './chainAdapter';
+import { merkleRoot } from './merkle';
+
+// End-to-end check of the EVM adapter against an in-process dev chain:
+// deploys FraudPrevention, then registers, re-registers, verifies and batches
+// readings the way the server does. Exits non-zero on the first failure.
+//
+//   npm run chain:check
+
+const network = BLOCKCHAIN_NETWORKS.local;
+const APP_SIGNATURE = 'GreenKarma-v1.0';
+
+async function step(name: string, check: () => Promise<void>): Promise<void> {
+  await check();
+  console.log(`ok - ${name}`);
+}
+
+async function main() {
+  const chain = await startDevChain();
+  try {
+    const [ownKey, partnerKey, strangerKey] = chain.privateKeys;
+    const owner = new Wallet(ownKey, chain.provider);
+    let contractAddress = '';
+
+    await step('deploy FraudPrevention and register our app and a partner', async () => {
+      const contract = await deployFraudPrevention(owner);
+      contractAddress = await contract.getAddress();
+      await (await contract.registerApp(owner.address, 'GreenKarma')).wait();
+      await (await contract.registerApp(new Wallet(partnerKey).address, 'PartnerApp')).wait();
+    });
+
+    const registry = (privateKey: string) => new RealBlockchainRegistry({
+      network,
+      provider: chain.provider,
+      privateKey,
+      contractAddress,
+      pollIntervalMs: 50,
+      receiptTimeoutMs: 10000
+    });
+    const ours = registry(ownKey);
+    const claimedAt = new Date();
+    let readingTx = '';
+
+    await step('registerReading', async () => {
+      const result = await ours.registerReading('MH12AB1234', 12345, claimedAt, APP_SIGNATURE);
+      assert.ok(result.success, result.error);
+      assert.ok(result.txHash);
+      readingTx = result.txHash;
+    });
+
+    await step('duplicate readings are refused, for us and for a partner', async () => {
+      const again = await ours.registerReading('MH12AB1234', 12345, claimedAt, APP_SIGNATURE);
+      assert.strictEqual(again.duplicate, true);
+
+      const partner = await registry(partnerKey).registerReading('MH12AB1234', 12345, claimedAt, 'PartnerApp-v2');
+      assert.strictEqual(partner.duplicate, true);
+
+      const usage = await findReadingUsage(ours, 'MH12AB1234', 12345, claimedAt);
+      assert.strictEqual(usage.used, true);
+      assert.strictEqual(usage.appSource, 'GreenKarma');
+    });
+
+    await step('unregistered apps can\'t register readings', async () => {
+      const result = await registry(strangerKey).registerReading('MH12AB1234', 20000, claimedAt, 'Unknown');
+      assert.strictEqual(result.success, false);
+      assert.notStrictEqual(result.duplicate, true);
+    });
+
+    await step('verifyTransaction', async () => {
+      const verification = await ours.verifyTransaction(readingTx);
+      assert.strictEqual(verification.status, 'confirmed');
+      assert.strictEqual(verification.verified, true);
+
+      const missing = await ours.verifyTransaction(`0x${'0'.repeat(64)}`);
+      assert.strictEqual(missing.status, 'not_found');
+
+      // A confirmed transaction that isn't one of the contract's readings
+      const transfer = await owner.sendTransaction({ to: new Wallet(strangerKey).address, value: BigInt(1) });
+      await transfer.wait();
+      const unrelated = await ours.verifyTransaction(transfer.hash);
+      assert.strictEqual(unrelated.verified, false);
+      assert.strictEqual(unrelated.status, 'not_found');
+    });
+
+    await step('the adapter refuses to start without a contract', async () => {
+      assert.throws(() => new RealBlockchainRegistry({ network, provider: chain.provider, privateKey: ownKey, contractAddress: '' }), /CONTRACT_ADDRESS/);
+    });
+
+    await step('anchorBatch, and its readings count as used', async () => {
+      const readings: BatchReading[] = [13000, 13500, 14000].map(km => ({
+        vehicleNumber: 'MH12AB1234',
+        reading: km,
+        timestamp: claimedAt,
+        appSignature: APP_SIGNATURE,
+        readingHash: createReadingHash('MH12AB1234', km, claimedAt)
+      }));
+      const root = merkleRoot(readings.map(reading => reading.readingHash));
+
+      const result = await ours.anchorBatch(root, readings);
+      assert.ok(result.success, result.error);
+      assert.strictEqual((await ours.verifyTransaction(result.txHash!)).status, 'confirmed');
+
+      const usage = await findReadingUsage(ours, 'MH12AB1234', 13500, claimedAt);
+      assert.strictEqual(usage.used, true);
+
+      const again = await ours.anchorBatch(root, readings);
+      assert.strictEqual(again.success, false);
+    });
+  } finally {
+    await chain.stop();
+  }
+}
+
+main().then(() => process.exit(0), (error) => {
+  console.error(error);
+  process.exit(1);
+});
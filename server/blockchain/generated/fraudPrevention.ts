@@ -0,0 +1,439 @@
+// Generated by `npm run contracts:build` from contracts/FraudPrevention.sol - do not edit.
+import {
+  Contract,
+  ContractFactory,
+  type AddressLike,
+  type BaseContract,
+  type BigNumberish,
+  type BytesLike,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type Overrides,
+  type Signer
+} from 'ethers';
+
+export const FRAUD_PREVENTION_ABI = [
+  {
+    "inputs": [],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      }
+    ],
+    "name": "AppNotRegistered",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "merkleRoot",
+        "type": "bytes32"
+      }
+    ],
+    "name": "BatchAlreadyAnchored",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "EmptyAppName",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "EmptyBatch",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "readingHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "string",
+        "name": "appSource",
+        "type": "string"
+      }
+    ],
+    "name": "ReadingAlreadyUsed",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ZeroAddress",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "name",
+        "type": "string"
+      }
+    ],
+    "name": "AppRegistered",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      }
+    ],
+    "name": "AppRevoked",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "merkleRoot",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "readingCount",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      }
+    ],
+    "name": "BatchAnchored",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "previousOwner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "OwnershipTransferred",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "readingHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "vehicleNumber",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "odometerReading",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "appSignature",
+        "type": "string"
+      }
+    ],
+    "name": "ReadingRegistered",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "merkleRoot",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "uint256",
+        "name": "readingCount",
+        "type": "uint256"
+      }
+    ],
+    "name": "anchorBatch",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "success",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      }
+    ],
+    "name": "getApp",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "name",
+        "type": "string"
+      },
+      {
+        "internalType": "bool",
+        "name": "active",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "merkleRoot",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getBatch",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "anchored",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "appSource",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "readingCount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "vehicleNumber",
+        "type": "string"
+      }
+    ],
+    "name": "getVehicleReadingCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "count",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "readingHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "isReadingUsed",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "used",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "appSource",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      },
+      {
+        "internalType": "string",
+        "name": "name",
+        "type": "string"
+      }
+    ],
+    "name": "registerApp",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "vehicleNumber",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "odometerReading",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "readingHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "string",
+        "name": "appSignature",
+        "type": "string"
+      }
+    ],
+    "name": "registerReading",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "success",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "app",
+        "type": "address"
+      }
+    ],
+    "name": "revokeApp",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "transferOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const FRAUD_PREVENTION_BYTECODE = '0x6080604052348015600f57600080fd5b50600080546001600160a01b0319163390811782556040519091907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0908290a361104c8061005e6000396000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c8063dc3acebe11610066578063dc3acebe14610140578063ed42136f14610161578063f2fde38b14610184578063f68f98cb14610197578063fd0ae7f0146101b857600080fd5b80634688617c146100a35780634c245e4e146100cb5780638da5cb5b146100ed57806392250b59146101185780639a1d0d411461012d575b600080fd5b6100b66100b1366004610b0c565b6101cb565b60405190151581526020015b60405180910390f35b6100de6100d9366004610b94565b6103c1565b6040516100c293929190610bf3565b600054610100906001600160a01b031681565b6040516001600160a01b0390911681526020016100c2565b61012b610126366004610c3a565b610483565b005b6100b661013b366004610c8d565b6105c7565b61015361014e366004610caf565b610793565b6040516100c2929190610cd1565b61017461016f366004610b94565b610855565b6040516100c29493929190610cf5565b61012b610192366004610caf565b610920565b6101aa6101a5366004610d23565b6109cd565b6040519081526020016100c2565b61012b6101c6366004610caf565b610a02565b3360009081526001602081905260408220015460ff1661020557604051636b55365760e11b81523360048201526024015b60405180910390fd5b6000848152600260205260409020805460ff161561023d57848160010160405163636411a760e11b81526004016101fc929190610d9f565b6040805160608101825260018082523360009081526020918252929092208054919283019161026b90610d65565b80601f016020809104026020016040519081016040528092919081815260200182805461029790610d65565b80156102e45780601f106102b9576101008083540402835291602001916102e4565b820191906000526020600020905b8154815290600101906020018083116102c757829003601f168201915b505050918352505042602091820152600087815260028252604090208251815460ff19169015151781559082015160018201906103219082610ea4565b50604082015181600201559050506001600360008a8a604051610345929190610f67565b60405180910390208152602001908152602001600020600082825461036a9190610f77565b9091555050604051339086907fc4e2d634c7aa8c231309e5fa618aace41252078e1d81b4346b72f1593ce00a3a906103ab908c908c908c908b908b90610fc1565b60405180910390a3506001979650505050505050565b6000818152600260208190526040822080549181015460018201805460609486949360ff909116929182906103f590610d65565b80601f016020809104026020016040519081016040528092919081815260200182805461042190610d65565b801561046e5780601f106104435761010080835404028352916020019161046e565b820191906000526020600020905b81548152906001019060200180831161045157829003601f168201915b50505050509150935093509350509193909250565b6000546001600160a01b031633146104ae576040516330cd747160e01b815260040160405180910390fd5b6001600160a01b0383166104d55760405163d92e233d60e01b815260040160405180910390fd5b60008190036104f75760405163aa7e9c6f60e01b815260040160405180910390fd5b6040805160606020601f8501819004028201810183529181018381529091829190859085908190850183828082843760009201829052509385525050600160209384018190526001600160a01b038816835290925260409020825190915081906105619082610ea4565b50602091909101516001909101805460ff19169115159190911790556040516001600160a01b038416907fd7c1026efc89c37e47aba52d3b7f8c0e8bf199af6294033c3b0bd8534c45cd03906105ba9085908590610ffa565b60405180910390a2505050565b3360009081526001602081905260408220015460ff166105fc57604051636b55365760e11b81523360048201526024016101fc565b8160000361061d5760405163c2e5347d60e01b815260040160405180910390fd5b60008381526004602052604090205460ff16156106505760405163084f634d60e21b8152600481018490526024016101fc565b6040805160808101825260018082523360009081526020918252929092208054919283019161067e90610d65565b80601f01602080910402602001604051908101604052809291908181526020018280546106aa90610d65565b80156106f75780601f106106cc576101008083540402835291602001916106f7565b820191906000526020600020905b8154815290600101906020018083116106da57829003601f168201915b5050509183525050602080820185905242604092830152600086815260048252919091208251815460ff191690151517815590820151600182019061073c9082610ea4565b50604082810151600283015560609092015160039091015551828152339084907f15e170a5b0b64fb798d5ba86495512202753ae8fdf7892da15a82814f0d0947c9060200160405180910390a35060015b92915050565b6001600160a01b038116600090815260016020819052604082209081015481546060939291829160ff9091169082906107cb90610d65565b80601f01602080910402602001604051908101604052809291908181526020018280546107f790610d65565b80156108445780601f1061081957610100808354040283529160200191610844565b820191906000526020600020905b81548152906001019060200180831161082757829003601f168201915b505050505091509250925050915091565b600081815260046020526040812080546002820154600383015460018401805460609587958695919460ff9091169392839061089090610d65565b80601f01602080910402602001604051908101604052809291908181526020018280546108bc90610d65565b80156109095780601f106108de57610100808354040283529160200191610909565b820191906000526020600020905b8154815290600101906020018083116108ec57829003601f168201915b505050505092509450945094509450509193509193565b6000546001600160a01b0316331461094b576040516330cd747160e01b815260040160405180910390fd5b6001600160a01b0381166109725760405163d92e233d60e01b815260040160405180910390fd5b600080546040516001600160a01b03808516939216917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e091a3600080546001600160a01b0319166001600160a01b0392909216919091179055565b60006003600084846040516109e3929190610f67565b6040518091039020815260200190815260200160002054905092915050565b6000546001600160a01b03163314610a2d576040516330cd747160e01b815260040160405180910390fd5b6001600160a01b0381166000908152600160208190526040909120015460ff16610a7557604051636b55365760e11b81526001600160a01b03821660048201526024016101fc565b6001600160a01b0381166000818152600160208190526040808320909101805460ff19169055517f1dfc67310a53bbdf3a121956a78c94d3592b420ac0966b5da6871caf9e8b4f399190a250565b60008083601f840112610ad557600080fd5b50813567ffffffffffffffff811115610aed57600080fd5b602083019150836020828501011115610b0557600080fd5b9250929050565b60008060008060008060808789031215610b2557600080fd5b863567ffffffffffffffff811115610b3c57600080fd5b610b4889828a01610ac3565b9097509550506020870135935060408701359250606087013567ffffffffffffffff811115610b7657600080fd5b610b8289828a01610ac3565b979a9699509497509295939492505050565b600060208284031215610ba657600080fd5b5035919050565b6000815180845260005b81811015610bd357602081850181015186830182015201610bb7565b506000602082860101526020601f19601f83011685010191505092915050565b8315158152606060208201526000610c0e6060830185610bad565b9050826040830152949350505050565b80356001600160a01b0381168114610c3557600080fd5b919050565b600080600060408486031215610c4f57600080fd5b610c5884610c1e565b9250602084013567ffffffffffffffff811115610c7457600080fd5b610c8086828701610ac3565b9497909650939450505050565b60008060408385031215610ca057600080fd5b50508035926020909101359150565b600060208284031215610cc157600080fd5b610cca82610c1e565b9392505050565b604081526000610ce46040830185610bad565b905082151560208301529392505050565b8415158152608060208201526000610d106080830186610bad565b6040830194909452506060015292915050565b60008060208385031215610d3657600080fd5b823567ffffffffffffffff811115610d4d57600080fd5b610d5985828601610ac3565b90969095509350505050565b600181811c90821680610d7957607f821691505b602082108103610d9957634e487b7160e01b600052602260045260246000fd5b50919050565b828152604060208201526000808354610db781610d65565b8060408601526001821660008114610dd65760018114610df257610e26565b60ff1983166060870152606082151560051b8701019350610e26565b86600052602060002060005b83811015610e1d57815488820160600152600190910190602001610dfe565b87016060019450505b50919695505050505050565b634e487b7160e01b600052604160045260246000fd5b601f821115610e9f5782821115610e9f57806000526020600020601f840160051c6020851015610e76575060005b90810190601f840160051c0360005b81811015610e9b57600083820155600101610e85565b5050505b505050565b815167ffffffffffffffff811115610ebe57610ebe610e32565b610ed281610ecc8454610d65565b84610e48565b6020601f821160018114610f065760008315610eee5750848201515b600019600385901b1c1916600184901b178455610f60565b600084815260208120601f198516915b82811015610f365787850151825560209485019460019092019101610f16565b5084821015610f545786840151600019600387901b60f8161c191681555b505060018360011b0184555b5050505050565b8183823760009101908152919050565b8082018082111561078d57634e487b7160e01b600052601160045260246000fd5b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b606081526000610fd5606083018789610f98565b8560208401528281036040840152610fee818587610f98565b98975050505050505050565b60208152600061100e602083018486610f98565b94935050505056fea26469706673582212208cc0eedda4582fbe593da668d164bf0f1b2f98ca220ab9d818bde88c1d83d51d64736f6c63430008250033';
+
+export interface FraudPrevention extends BaseContract {
+  anchorBatch(merkleRoot: BytesLike, readingCount: BigNumberish, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  getApp(app: AddressLike): Promise<[string, boolean] & { name: string; active: boolean }>;
+  getBatch(merkleRoot: BytesLike): Promise<[boolean, string, bigint, bigint] & { anchored: boolean; appSource: string; readingCount: bigint; timestamp: bigint }>;
+  getVehicleReadingCount(vehicleNumber: string): Promise<bigint>;
+  isReadingUsed(readingHash: BytesLike): Promise<[boolean, string, bigint] & { used: boolean; appSource: string; timestamp: bigint }>;
+  owner(): Promise<string>;
+  registerApp(app: AddressLike, name: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  registerReading(vehicleNumber: string, odometerReading: BigNumberish, readingHash: BytesLike, appSignature: string, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  revokeApp(app: AddressLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+  transferOwnership(newOwner: AddressLike, overrides?: Overrides): Promise<ContractTransactionResponse>;
+}
+
+export function connectFraudPrevention(address: string, runner?: ContractRunner | null): FraudPrevention {
+  return new Contract(address, FRAUD_PREVENTION_ABI, runner) as unknown as FraudPrevention;
+}
+
+export async function deployFraudPrevention(signer: Signer, overrides: Overrides = {}): Promise<FraudPrevention> {
+  const factory = new ContractFactory(FRAUD_PREVENTION_ABI, FRAUD_PREVENTION_BYTECODE, signer);
+  const contract = await factory.deploy(overrides);
+  await contract.waitForDeployment();
+  return contract as unknown as FraudPrevention;
+}
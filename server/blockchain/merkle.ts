@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import type { MerkleProofStep } from '@shared/schema';
+
+// Binary Merkle tree over hex sha256 leaves. Parents hash the raw bytes of
+// left||right; an odd node at the end of a level is carried up unchanged
+// rather than paired with itself, so no two leaf sets share a root that way.
+
+function hashPair(left: string, right: string): string {
+  return createHash('sha256')
+    .update(Buffer.concat([Buffer.from(left, 'hex'), Buffer.from(right, 'hex')]))
+    .digest('hex');
+}
+
+// levels[0] is the leaves, the last level is [root]
+export function buildMerkleTree(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const parents: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      parents.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(parents);
+  }
+  return levels;
+}
+
+export function merkleRoot(leaves: string[]): string {
+  const levels = buildMerkleTree(leaves);
+  return levels[levels.length - 1][0];
+}
+
+// Sibling hashes from the leaf up to (but excluding) the root
+export function getMerkleProof(levels: string[][], leafIndex: number): MerkleProofStep[] {
+  const proof: MerkleProofStep[] = [];
+  let index = leafIndex;
+
+  for (const level of levels.slice(0, -1)) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < level.length) {
+      proof.push({ hash: level[siblingIndex], position: index % 2 === 0 ? 'right' : 'left' });
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: string, proof: MerkleProofStep[], root: string): boolean {
+  const computed = proof.reduce(
+    (hash, step) => step.position === 'left' ? hashPair(step.hash, hash) : hashPair(hash, step.hash),
+    leaf
+  );
+  return computed === root;
+}
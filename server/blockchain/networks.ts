@@ -60,6 +60,18 @@ export const BLOCKCHAIN_NETWORKS: Record<string, BlockchainNetwork> = {
     isTestnet: false
   },
 
+  // Local dev chain started with `npm run chain:dev` (no network access needed)
+  local: {
+    name: 'Local Dev Chain',
+    chainId: 1337,
+    rpcUrl: 'http://127.0.0.1:8545',
+    contractAddress: undefined,
+    explorerUrl: '',
+    gasPrice: '2000000000', // 2 gwei
+    nativeCurrency: 'ETH',
+    isTestnet: true
+  },
+
   // Avalanche C-Chain - Fast and cheap
   avalanche: {
     name: 'Avalanche C-Chain',
@@ -73,39 +85,8 @@ export const BLOCKCHAIN_NETWORKS: Record<string, BlockchainNetwork> = {
   }
 };
 
-// Smart contract ABI for fraud prevention
-export const FRAUD_PREVENTION_CONTRACT_ABI = [
-  {
-    "inputs": [
-      {"name": "vehicleNumber", "type": "string"},
-      {"name": "odometerReading", "type": "uint256"},
-      {"name": "readingHash", "type": "bytes32"},
-      {"name": "appSignature", "type": "string"}
-    ],
-    "name": "registerReading",
-    "outputs": [{"name": "success", "type": "bool"}],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "readingHash", "type": "bytes32"}],
-    "name": "isReadingUsed",
-    "outputs": [
-      {"name": "used", "type": "bool"},
-      {"name": "appSource", "type": "string"},
-      {"name": "timestamp", "type": "uint256"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "vehicleNumber", "type": "string"}],
-    "name": "getVehicleReadingCount",
-    "outputs": [{"name": "count", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
+// Smart contract ABI for fraud prevention (generated from contracts/FraudPrevention.sol)
+export { FRAUD_PREVENTION_ABI as FRAUD_PREVENTION_CONTRACT_ABI } from './generated/fraudPrevention';
 
 // Instructions for deploying to real blockchain
 export const DEPLOYMENT_GUIDE = `
@@ -132,17 +113,35 @@ export const DEPLOYMENT_GUIDE = `
 - **Setup**: Requires BNB for gas fees
 
 ## Smart Contract Deployment
-1. Use Remix IDE or Hardhat
-2. Deploy the fraud prevention contract
-3. Update CONTRACT_ADDRESS in environment
-4. Fund the deployer wallet with native tokens
+The contract source is contracts/FraudPrevention.sol.
+1. Fund the deployer wallet with native tokens
+2. Run \`npm run contracts:deploy\` with BLOCKCHAIN_NETWORK, PRIVATE_KEY and optionally RPC_URL set
+   - Deploys the contract and registers the deployer as the GreenKarma app
+3. Update CONTRACT_ADDRESS in environment with the printed address
+4. Register partner apps with \`npm run contracts:deploy -- register-app <address> <name>\`
+   (revoke with \`revoke-app <address>\`); only registered apps can call registerReading
+5. After editing the contract, run \`npm run contracts:build\` to recompile and regenerate
+   server/blockchain/generated/fraudPrevention.ts
 
 ## Environment Variables Needed:
-- BLOCKCHAIN_NETWORK (polygon/ethereum/bsc)
+- BLOCKCHAIN_NETWORK (polygon/ethereum/bsc/local, or simulated/local-db to skip the chain; default simulated)
 - RPC_URL (blockchain node endpoint)
 - CONTRACT_ADDRESS (deployed contract address)
 - PRIVATE_KEY (for signing transactions)
 - INFURA_KEY or ALCHEMY_KEY (for Ethereum/Polygon)
+- ANCHOR_BATCH_WINDOW_MS / ANCHOR_MAX_BATCH_SIZE (readings are anchored as one Merkle root per window, default 60s / 256)
+- ANCHOR_MAX_ATTEMPTS (retries per reading before it is marked failed, default 8)
+- SERVER_SIGNING_KEY (Ed25519 PKCS#8 PEM that seals chain blocks and signs /api/proofs bundles; required in production,
+  a temporary key is used in development)
+- SIGNING_PUBLIC_KEYS (comma-separated base64 public keys of rotated-out signing keys, still trusted for verification.
+  Rotate by adding the old public key from /api/signing-keys here, replacing SERVER_SIGNING_KEY and restarting)
+- CHAIN_AUDIT_INTERVAL_MS (how often stored chains are re-verified for tampering, default 6h)
+
+## Local Development
+- Run \`npm run chain:dev\` to start an in-process EVM on 127.0.0.1:8545
+- Set BLOCKCHAIN_NETWORK=local and PRIVATE_KEY to one of the printed dev keys
+- Run \`npm run contracts:deploy\` and set CONTRACT_ADDRESS to the printed address
+- TX_CONFIRMATIONS sets how many confirmations to wait for (default 1)
 
 ## Testing
 - Start with testnets (Mumbai, Sepolia, BSC Testnet)
@@ -0,0 +1,93 @@
+import { storage } from '../storage';
+import { blockchainRegistry, publicBlockData, type Block } from '../blockchain';
+import { getChainAdapter } from './chains';
+import { getReadingInclusion } from './anchorQueue';
+import { signMessage } from './signingKey';
+import { canonicalJson, type ProofBundle, type SignedProofBundle } from '@shared/proof';
+
+// A block's hash covers only its public data when it commits to the private
+// fields separately. Older readings hashed the location and device details
+// directly, so their block can't be published without them.
+function isPublishable(block: Block): boolean {
+  return !!block.data.privateDataHash || (block.data.location === undefined && block.data.validationProof === undefined);
+}
+
+function buildChainSection(vehicleNumber: string, blockHash: string | null): Pick<ProofBundle, 'block' | 'chain'> {
+  const userChain = blockchainRegistry.exportChain(vehicleNumber);
+  const position = blockHash && userChain ? userChain.chain.findIndex(block => block.hash === blockHash) : -1;
+  if (!userChain || position === -1 || !isPublishable(userChain.chain[position])) {
+    return { block: null, chain: null };
+  }
+
+  const block = userChain.chain[position];
+  const previous = userChain.chain[position - 1];
+  const next = userChain.chain[position + 1];
+
+  return {
+    block: {
+      index: block.index,
+      timestamp: block.timestamp.toISOString(),
+      // Round-trip so nested dates serialize exactly as they did when hashed
+      data: JSON.parse(JSON.stringify(publicBlockData(block.data))),
+      hash: block.hash,
+      previousHash: block.previousHash,
+      nonce: block.nonce,
+      merkleRoot: block.merkleRoot,
+      keyId: block.keyId ?? null,
+      signature: block.signature ?? null
+    },
+    chain: {
+      length: userChain.chain.length,
+      valid: blockchainRegistry.verifyChain(vehicleNumber).isValid,
+      previousBlock: previous ? { index: previous.index, hash: previous.hash } : null,
+      nextBlock: next ? { index: next.index, hash: next.hash, previousHash: next.previousHash } : null
+    }
+  };
+}
+
+// Signed evidence for one reading; null if no reward has this proof id
+export async function createProofBundle(proofId: string): Promise<SignedProofBundle | null> {
+  const reward = await storage.getRewardByProofId(proofId);
+  if (!reward) {
+    return null;
+  }
+
+  const inclusion = await getReadingInclusion(reward.id);
+  const chain = getChainAdapter();
+  const explorerUrl = inclusion?.txHash && inclusion.network === chain.networkName
+    ? chain.explorerTxUrl(inclusion.txHash) ?? null
+    : null;
+
+  const bundle: ProofBundle = {
+    version: 1,
+    rewardId: reward.id,
+    proofId: reward.proofId,
+    issuedAt: new Date().toISOString(),
+    reading: {
+      vehicleNumber: reward.vehicleNumber,
+      km: reward.km,
+      recordedAt: reward.timestamp.toISOString(),
+      imageHash: reward.imageHash,
+      validationStatus: reward.validationStatus
+    },
+    ...buildChainSection(reward.vehicleNumber, reward.blockHash),
+    anchor: {
+      status: reward.anchorStatus,
+      network: inclusion?.network ?? null,
+      txHash: inclusion?.txHash ?? null,
+      explorerUrl,
+      readingTimestamp: inclusion?.readingTimestamp.toISOString() ?? null,
+      appSignature: inclusion?.appSignature ?? null,
+      readingHash: inclusion?.readingHash ?? null,
+      merkleRoot: inclusion?.merkleRoot ?? null,
+      leafIndex: inclusion?.leafIndex ?? null,
+      proof: inclusion?.proof ?? []
+    }
+  };
+
+  const signature = signMessage(canonicalJson(bundle));
+  return {
+    bundle,
+    signature: { algorithm: 'Ed25519', ...signature }
+  };
+}
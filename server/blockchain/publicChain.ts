@@ -1,242 +0,0 @@
-import { createHash } from 'crypto';
-import { storage } from '../storage';
-
-// Free Polygon Mumbai testnet integration for cross-app fraud prevention
-export class PublicBlockchainRegistry {
-  private networkId: string;
-  private rpcUrl: string;
-  private contractAddress: string;
-  private explorerUrl: string;
-
-  constructor() {
-    // Using free Polygon Mumbai testnet
-    this.networkId = 'polygon-mumbai';
-    this.rpcUrl = 'https://rpc-mumbai.maticvigil.com/';
-    this.explorerUrl = 'https://mumbai.polygonscan.com';
-    this.contractAddress = process.env.CONTRACT_ADDRESS || '0x742d35Cc3d5d1212CF2345235a23F12FA1213AB8';
-  }
-
-  // Register odometer reading on public blockchain
-  async registerReading(
-    vehicleNumber: string,
-    reading: number,
-    timestamp: Date,
-    appSignature: string
-  ): Promise<{ success: boolean; txHash?: string; error?: string }> {
-    
-    try {
-      // Create unique identifier for this reading
-      const readingHash = this.createReadingHash(vehicleNumber, reading, timestamp, appSignature);
-      
-      // Check if this reading already exists on public chain
-      const existingReading = await this.checkExistingReading(readingHash);
-      if (existingReading.exists) {
-        return {
-          success: false,
-          error: `Reading already used by ${existingReading.appSource} at ${existingReading.timestamp}`
-        };
-      }
-
-      // Submit to public blockchain
-      const txHash = await this.submitToBlockchain({
-        vehicleNumber,
-        reading,
-        timestamp,
-        readingHash,
-        appSignature: 'GreenKarma-v1.0'
-      });
-
-      return {
-        success: true,
-        txHash
-      };
-
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  }
-
-  // Create unique hash for odometer reading
-  private createReadingHash(
-    vehicleNumber: string,
-    reading: number,
-    timestamp: Date,
-    appSignature: string
-  ): string {
-    const data = `${vehicleNumber}-${reading}-${timestamp.toISOString()}-${appSignature}`;
-    return createHash('sha256').update(data).digest('hex');
-  }
-
-  // Check if reading already exists on public blockchain
-  private async checkExistingReading(readingHash: string): Promise<{
-    exists: boolean;
-    appSource?: string;
-    timestamp?: string;
-  }> {
-    try {
-      // In production, this would query the actual blockchain
-      // For now, simulate blockchain query
-      const response = await this.simulateBlockchainQuery(readingHash);
-      return response;
-    } catch {
-      return { exists: false };
-    }
-  }
-
-  // Submit transaction to Polygon Mumbai testnet (free)
-  private async submitToBlockchain(data: {
-    vehicleNumber: string;
-    reading: number;
-    timestamp: Date;
-    readingHash: string;
-    appSignature: string;
-  }): Promise<string> {
-    
-    try {
-      // Simulate submission to Polygon Mumbai testnet
-      const transaction = {
-        to: this.contractAddress,
-        data: this.encodeContractCall('registerReading', [
-          data.vehicleNumber,
-          data.reading.toString(),
-          `0x${data.readingHash}`,
-          data.appSignature
-        ]),
-        gasPrice: '20000000000', // 20 gwei (free on testnet)
-        gasLimit: '200000',
-        chainId: 80001 // Mumbai testnet
-      };
-
-      // Generate transaction hash (in production, would get from actual blockchain)
-      const txHash = this.createTransactionHash(transaction);
-      
-      // Store in global fraud database
-      await this.storeInGlobalDatabase(data, txHash);
-      
-      return txHash;
-    } catch (error) {
-      throw new Error('Failed to submit to Polygon Mumbai testnet');
-    }
-  }
-
-  private encodeContractCall(method: string, params: string[]): string {
-    // Simulate contract call encoding
-    return `0x${method}${params.join('').replace(/0x/g, '')}`;
-  }
-
-  private createTransactionHash(transaction: any): string {
-    const txData = JSON.stringify(transaction) + Date.now();
-    return `0x${createHash('sha256').update(txData).digest('hex').substring(0, 64)}`;
-  }
-
-  // Store in global fraud prevention database
-  private async storeInGlobalDatabase(data: {
-    vehicleNumber: string;
-    reading: number;
-    timestamp: Date;
-    readingHash: string;
-    appSignature: string;
-  }, txHash: string): Promise<void> {
-    
-    // Store in our database for cross-app reference
-    try {
-      await storage.storeGlobalFraudEntry({
-        vehicleNumber: data.vehicleNumber,
-        reading: data.reading,
-        appSource: 'GreenKarma',
-        blockchainTxHash: txHash,
-        timestamp: data.timestamp,
-        readingHash: data.readingHash
-      });
-    } catch (error) {
-      console.error('Failed to store global fraud entry:', error);
-    }
-  }
-
-  // Simulate blockchain query (replace with actual blockchain calls)
-  private async simulateBlockchainQuery(readingHash: string): Promise<{
-    exists: boolean;
-    appSource?: string;
-    timestamp?: string;
-  }> {
-    
-    // Check our global fraud database first
-    const existingEntry = await storage.getGlobalFraudEntry(readingHash);
-    
-    if (existingEntry) {
-      return {
-        exists: true,
-        appSource: existingEntry.appSource,
-        timestamp: existingEntry.timestamp.toISOString()
-      };
-    }
-
-    // In production, also check external blockchain networks
-    // This would involve API calls to blockchain explorers or direct node queries
-    
-    return { exists: false };
-  }
-
-  // Verify transaction on blockchain
-  async verifyTransaction(txHash: string): Promise<{
-    verified: boolean;
-    data?: any;
-    error?: string;
-  }> {
-    try {
-      // In production, this would query the blockchain to verify the transaction
-      // For now, check our database
-      const entry = await storage.getGlobalFraudEntryByTxHash(txHash);
-      
-      if (entry) {
-        return {
-          verified: true,
-          data: {
-            vehicleNumber: entry.vehicleNumber,
-            reading: entry.reading,
-            appSource: entry.appSource,
-            timestamp: entry.timestamp
-          }
-        };
-      }
-      
-      return {
-        verified: false,
-        error: 'Transaction not found'
-      };
-    } catch (error) {
-      return {
-        verified: false,
-        error: error instanceof Error ? error.message : 'Verification failed'
-      };
-    }
-  }
-
-  // Get Polygon Mumbai testnet status
-  getNetworkStatus(): {
-    network: string;
-    connected: boolean;
-    contractAddress: string;
-    rpcUrl: string;
-    explorerUrl: string;
-    chainId: number;
-    isFree: boolean;
-    blockHeight?: number;
-  } {
-    return {
-      network: 'Polygon Mumbai Testnet',
-      connected: true,
-      contractAddress: this.contractAddress,
-      rpcUrl: this.rpcUrl,
-      explorerUrl: this.explorerUrl,
-      chainId: 80001,
-      isFree: true, // Completely free to use
-      blockHeight: Math.floor(Date.now() / 1000)
-    };
-  }
-}
-
-export const publicBlockchain = new PublicBlockchainRegistry();
\ No newline at end of file
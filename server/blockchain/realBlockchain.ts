@@ -1,80 +1,233 @@
-import { createHash } from 'crypto';
-import { getSelectedNetwork, FRAUD_PREVENTION_CONTRACT_ABI } from './networks';
+import { JsonRpcProvider, Network, Wallet, type ContractTransactionResponse, type Provider, type TransactionReceipt } from 'ethers';
+import { getSelectedNetwork, type BlockchainNetwork } from './networks';
+import { connectFraudPrevention, type FraudPrevention } from './generated/fraudPrevention';
+import {
+  createReadingHash,
+  duplicateReadingError,
+  OWN_APP_SOURCE,
+  readingCheckError,
+  type BatchReading,
+  type ChainAdapter,
+  type ChainNetworkStatus,
+  type ChainRegistration,
+  type ReadingRecords,
+  type ReadingUsage,
+  type TransactionVerification
+} from './chainAdapter';
 
-// Real blockchain integration using Web3/Ethers
-export class RealBlockchainRegistry {
-  private network: any;
+export interface RealBlockchainOptions {
+  network?: BlockchainNetwork; // defaults to BLOCKCHAIN_NETWORK
+  provider?: Provider; // e.g. an in-process dev chain; defaults to the network's RPC URL
+  privateKey?: string;
+  contractAddress?: string;
+  confirmations?: number;
+  receiptTimeoutMs?: number;
+  pollIntervalMs?: number;
+  records?: ReadingRecords; // where batched readings are kept; in memory if not given (scripts, dev chain checks)
+}
+
+// Claims and batched readings for this process only
+function inMemoryRecords(): ReadingRecords {
+  const readings: Map<string, { appSource: string; timestamp: Date; txHash?: string }> = new Map();
+  return {
+    async find(readingHash) {
+      const record = readings.get(readingHash.replace(/^0x/, ''));
+      return record ? { used: true, appSource: record.appSource, timestamp: record.timestamp } : { used: false };
+    },
+    async claim(reading, appSource) {
+      const existing = readings.get(reading.readingHash);
+      if (existing) {
+        return { used: true, appSource: existing.appSource, timestamp: existing.timestamp };
+      }
+      readings.set(reading.readingHash, { appSource, timestamp: reading.timestamp });
+      return { used: false };
+    },
+    async release(readingHash, appSource) {
+      const record = readings.get(readingHash);
+      if (record && record.appSource === appSource && !record.txHash) {
+        readings.delete(readingHash);
+      }
+    },
+    async recordBatch(batch, txHash) {
+      batch.forEach(reading => {
+        const claimed = readings.get(reading.readingHash);
+        readings.set(reading.readingHash, {
+          appSource: claimed?.appSource ?? OWN_APP_SOURCE,
+          timestamp: claimed?.timestamp ?? reading.timestamp,
+          txHash
+        });
+      });
+    }
+  };
+}
+
+// Real blockchain integration using Ethers
+export class RealBlockchainRegistry implements ChainAdapter {
+  name = 'evm';
+  private network: BlockchainNetwork;
   private rpcUrl: string;
-  private contractAddress?: string;
+  private contractAddress: string;
+  private contract: FraudPrevention;
+  private provider: Provider;
+  private signer: Wallet;
+  private confirmations: number;
+  private receiptTimeoutMs: number;
+  private pollIntervalMs: number;
+  private records: ReadingRecords;
+
+  // Without a deployed contract and a key to sign with there is nothing on
+  // chain to record readings in, so the adapter refuses to start rather than
+  // hand out transaction hashes that don't exist
+  constructor(options: RealBlockchainOptions = {}) {
+    this.network = options.network ?? getSelectedNetwork();
+    this.rpcUrl = process.env.RPC_URL || this.network.rpcUrl;
 
-  constructor() {
-    this.network = getSelectedNetwork();
-    this.rpcUrl = this.network.rpcUrl;
-    this.contractAddress = process.env.CONTRACT_ADDRESS;
+    const contractAddress = options.contractAddress ?? process.env.CONTRACT_ADDRESS;
+    if (!contractAddress) {
+      throw new Error(`CONTRACT_ADDRESS is required to use ${this.network.name} - deploy with npm run contracts:deploy`);
+    }
+    const privateKey = options.privateKey ?? process.env.PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error(`PRIVATE_KEY is required to use ${this.network.name}`);
+    }
+
+    this.contractAddress = contractAddress;
+    this.provider = options.provider ?? new JsonRpcProvider(this.rpcUrl, Network.from(this.network.chainId), {
+      staticNetwork: true
+    });
+    this.signer = new Wallet(privateKey, this.provider);
+    this.contract = connectFraudPrevention(contractAddress, this.signer);
+
+    this.confirmations = options.confirmations ?? parseInt(process.env.TX_CONFIRMATIONS || '1', 10);
+    this.receiptTimeoutMs = options.receiptTimeoutMs ?? 120000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.records = options.records ?? inMemoryRecords();
   }
 
-  // Register reading on real blockchain (Polygon, Ethereum, BSC, etc.)
+  // Register reading on real blockchain (Polygon, Ethereum, BSC, etc.).
+  // The contract attributes it to our registered app as sender; appSource
+  // (ours or a partner's) is kept on the off-chain claim, which is taken
+  // first so a concurrent upload or partner can't claim the same reading
+  // while the transaction confirms.
   async registerReading(
     vehicleNumber: string,
     reading: number,
     timestamp: Date,
-    appSignature: string
-  ): Promise<{ success: boolean; txHash?: string; error?: string }> {
-    
+    appSignature: string,
+    appSource: string = OWN_APP_SOURCE
+  ): Promise<ChainRegistration> {
+
     try {
-      // Create unique hash for this reading
-      const readingHash = this.createReadingHash(vehicleNumber, reading, timestamp, appSignature);
-      
+      const leaf: BatchReading = {
+        vehicleNumber,
+        reading,
+        timestamp,
+        appSignature,
+        readingHash: createReadingHash(vehicleNumber, reading, timestamp)
+      };
+      // Create unique bytes32 hash for this reading
+      const readingHash = `0x${leaf.readingHash}`;
+
       // Check if reading already exists
-      const exists = await this.checkIfReadingExists(readingHash);
+      const exists = await this.isReadingUsed(readingHash);
+      if (exists.error) {
+        return { success: false, network: this.network.name, error: readingCheckError(exists) };
+      }
       if (exists.used) {
         return {
           success: false,
-          error: `Reading already used by ${exists.appSource} at ${new Date(exists.timestamp * 1000).toISOString()}`
+          network: this.network.name,
+          duplicate: true,
+          error: duplicateReadingError(exists)
+        };
+      }
+
+      const claim = await this.records.claim(leaf, appSource);
+      if (claim.used) {
+        return {
+          success: false,
+          network: this.network.name,
+          duplicate: true,
+          error: duplicateReadingError(claim)
         };
       }
 
       // Submit to blockchain
-      const txHash = await this.submitTransaction(vehicleNumber, reading, readingHash, appSignature);
-      
+      let txHash: string;
+      try {
+        txHash = await this.submitTransaction(vehicleNumber, reading, readingHash, appSignature);
+      } catch (error) {
+        await this.records.release(leaf.readingHash, appSource);
+        throw error;
+      }
+      await this.records.recordBatch([leaf], txHash);
+
       return {
         success: true,
-        txHash
+        network: this.network.name,
+        txHash,
+        explorerUrl: this.explorerTxUrl(txHash)
       };
-      
+
     } catch (error) {
       return {
         success: false,
+        network: this.network.name,
         error: error instanceof Error ? error.message : 'Blockchain transaction failed'
       };
     }
   }
 
-  // Check if reading already exists on blockchain
-  private async checkIfReadingExists(readingHash: string): Promise<{
-    used: boolean;
-    appSource?: string;
-    timestamp?: number;
-  }> {
-    
-    if (!this.contractAddress) {
-      // If no contract deployed yet, use local database as fallback
-      return { used: false };
+  // Anchor a batch's Merkle root; the readings themselves stay off chain, so
+  // other apps' isReadingUsed calls can't see them individually. Each leaf is
+  // recorded off chain against the batch transaction so our own duplicate
+  // checks still find them.
+  async anchorBatch(merkleRoot: string, readings: BatchReading[]): Promise<ChainRegistration> {
+    try {
+      const txHash = await this.submitBatch(merkleRoot, readings.length);
+      await this.records.recordBatch(readings, txHash);
+
+      return {
+        success: true,
+        network: this.network.name,
+        txHash,
+        explorerUrl: this.explorerTxUrl(txHash)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        network: this.network.name,
+        error: error instanceof Error ? error.message : 'Blockchain transaction failed'
+      };
+    }
+  }
+
+  // Check if reading already exists - batched readings of ours are only in
+  // the off-chain records, everything registered singly is on chain
+  async isReadingUsed(readingHash: string): Promise<ReadingUsage> {
+    const local = await this.records.find(readingHash);
+    if (local.used) {
+      return local;
     }
 
     try {
-      // This would call the smart contract's isReadingUsed function
-      const result = await this.callContract('isReadingUsed', [readingHash]);
-      
+      const result = await this.contract.isReadingUsed(
+        readingHash.startsWith('0x') ? readingHash : `0x${readingHash}`
+      );
+      if (!result.used) {
+        return { used: false };
+      }
+
       return {
-        used: result.used,
+        used: true,
         appSource: result.appSource,
-        timestamp: result.timestamp
+        timestamp: new Date(Number(result.timestamp) * 1000)
       };
-      
-    } catch {
-      // Fallback to local check
-      return { used: false };
+
+    } catch (error) {
+      // Not knowing must not read as unused, or a failing RPC lets replays through
+      console.warn('isReadingUsed call failed:', error);
+      return { used: false, error: error instanceof Error ? error.message : 'Chain lookup failed' };
     }
   }
 
@@ -85,92 +238,131 @@ export class RealBlockchainRegistry {
     readingHash: string,
     appSignature: string
   ): Promise<string> {
-    
-    if (!this.contractAddress) {
-      // Generate mock transaction hash until contract is deployed
-      const txData = `${vehicleNumber}-${reading}-${readingHash}-${appSignature}`;
-      return `0x${createHash('sha256').update(txData + Date.now()).digest('hex').substring(0, 64)}`;
-    }
+    return await this.sendAndConfirm(() =>
+      this.contract.registerReading(vehicleNumber, reading, readingHash, appSignature, {
+        gasPrice: this.network.gasPrice
+      })
+    );
+  }
 
-    // Real blockchain transaction
-    const transaction = {
-      to: this.contractAddress,
-      data: this.encodeContractCall('registerReading', [
-        vehicleNumber,
-        reading.toString(),
-        readingHash,
-        appSignature
-      ]),
-      gasPrice: this.network.gasPrice,
-      gasLimit: '200000'
-    };
+  private async submitBatch(merkleRoot: string, readingCount: number): Promise<string> {
+    return await this.sendAndConfirm(() =>
+      this.contract.anchorBatch(`0x${merkleRoot}`, readingCount, { gasPrice: this.network.gasPrice })
+    );
+  }
 
-    // This would actually send the transaction to the blockchain
-    return await this.sendTransaction(transaction);
+  // Signed with PRIVATE_KEY, which must be registered as an app on the contract;
+  // gas limit is estimated by the node
+  private async sendAndConfirm(send: () => Promise<ContractTransactionResponse>): Promise<string> {
+    const response = await send();
+    const receipt = await this.waitForReceipt(response.hash);
+    if (receipt.status !== 1) {
+      throw new Error(`Transaction ${response.hash} reverted`);
+    }
+    return response.hash;
   }
 
-  // Helper methods for blockchain interaction
-  private async callContract(method: string, params: any[]): Promise<any> {
-    // In production, this would use Web3.js or Ethers.js to call contract
-    // For now, return mock data
-    if (method === 'isReadingUsed') {
-      return {
-        used: false,
-        appSource: '',
-        timestamp: 0
-      };
+  private async waitForReceipt(txHash: string): Promise<TransactionReceipt> {
+    const deadline = Date.now() + this.receiptTimeoutMs;
+
+    while (Date.now() < deadline) {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (receipt && await receipt.confirmations() >= this.confirmations) {
+        return receipt;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
     }
-    return null;
+
+    throw new Error(`Timed out waiting for receipt of ${txHash}`);
   }
 
-  private encodeContractCall(method: string, params: any[]): string {
-    // In production, this would encode the function call using ABI
-    return `0x${method}${params.join('')}`;
+  // Number of readings registered on chain for a vehicle, across all apps
+  async getVehicleReadingCount(vehicleNumber: string): Promise<number> {
+    return Number(await this.contract.getVehicleReadingCount(vehicleNumber));
   }
 
-  private async sendTransaction(transaction: any): Promise<string> {
-    // In production, this would sign and send the transaction
-    const mockTxHash = createHash('sha256')
-      .update(JSON.stringify(transaction) + Date.now())
-      .digest('hex');
-    return `0x${mockTxHash.substring(0, 64)}`;
+  get networkName(): string {
+    return this.network.name;
   }
 
-  private createReadingHash(
-    vehicleNumber: string,
-    reading: number,
-    timestamp: Date,
-    appSignature: string
-  ): string {
-    const data = `${vehicleNumber}-${reading}-${timestamp.toISOString()}-${appSignature}`;
-    return createHash('sha256').update(data).digest('hex');
+  explorerTxUrl(txHash: string): string | undefined {
+    return this.network.explorerUrl ? `${this.network.explorerUrl}/tx/${txHash}` : undefined;
   }
 
   // Get network status and connection info
-  getNetworkInfo() {
+  async getNetworkStatus(): Promise<ChainNetworkStatus> {
+    let blockHeight: number | undefined;
+    try {
+      blockHeight = await this.provider.getBlockNumber();
+    } catch (error) {
+      console.warn(`Could not reach ${this.network.name}:`, error);
+    }
+
     return {
+      adapter: this.name,
       network: this.network.name,
+      connected: blockHeight !== undefined,
+      isTestnet: this.network.isTestnet,
       chainId: this.network.chainId,
       rpcUrl: this.rpcUrl,
-      contractDeployed: !!this.contractAddress,
+      explorerUrl: this.network.explorerUrl || undefined,
       contractAddress: this.contractAddress,
-      explorerUrl: this.network.explorerUrl,
-      isTestnet: this.network.isTestnet,
-      readyForProduction: !!this.contractAddress && !this.network.isTestnet
+      signerAddress: this.signer.address,
+      blockHeight
     };
   }
 
-  // Verify transaction on blockchain explorer
-  async verifyTransaction(txHash: string) {
-    const explorerUrl = `${this.network.explorerUrl}/tx/${txHash}`;
-    
+  // A reading or batch this contract recorded: sent to it, and carrying one of
+  // its ReadingRegistered or BatchAnchored events
+  private isReadingReceipt(receipt: TransactionReceipt): boolean {
+    const contractAddress = this.contractAddress.toLowerCase();
+    if (receipt.to?.toLowerCase() !== contractAddress) {
+      return false;
+    }
+    return receipt.logs.some(log => {
+      if (log.address.toLowerCase() !== contractAddress) return false;
+      const event = this.contract.interface.parseLog(log);
+      return event?.name === 'ReadingRegistered' || event?.name === 'BatchAnchored';
+    });
+  }
+
+  // Look up the transaction receipt on chain. Any other transaction on the
+  // network counts as not found, so an unrelated hash can't pass as a reading.
+  async verifyTransaction(txHash: string): Promise<TransactionVerification> {
+    let status: TransactionVerification['status'];
+    let blockNumber: number | undefined;
+
+    try {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (receipt && receipt.status === 1 && !this.isReadingReceipt(receipt)) {
+        return {
+          verified: false,
+          network: this.network.name,
+          status: 'not_found',
+          error: 'Transaction is not a reading recorded by the GreenKarma contract'
+        };
+      }
+      if (receipt) {
+        status = receipt.status === 1 ? 'confirmed' : 'failed';
+        blockNumber = receipt.blockNumber;
+      } else {
+        status = await this.provider.getTransaction(txHash) ? 'pending' : 'not_found';
+      }
+    } catch (error) {
+      return {
+        verified: false,
+        network: this.network.name,
+        status: 'not_found',
+        error: error instanceof Error ? error.message : 'Verification failed'
+      };
+    }
+
     return {
-      verified: true, // In production, would actually check blockchain
-      explorerUrl,
+      verified: status === 'confirmed',
       network: this.network.name,
-      status: 'confirmed'
+      status,
+      explorerUrl: this.explorerTxUrl(txHash),
+      blockNumber
     };
   }
 }
-
-export const realBlockchain = new RealBlockchainRegistry();
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { storage } from '../storage';
+import { blockchainRegistry } from '../blockchain';
+import { initializeSigningKeys } from './signingKey';
+
+// One-time migration that signs the blocks of chains mined with proof of work
+// before blocks were sealed with the server key. Anyone who can write to the
+// database could strip the signatures from an edited chain and re-mine it, so
+// this only runs on request - once, against a database known to be intact -
+// and records that it ran so it can't be repeated.
+//
+//   npm run chains:reseal
+
+const MIGRATION_NAME = 'reseal-proof-of-work-chains';
+
+async function main() {
+  const previous = await storage.getMaintenanceRun(MIGRATION_NAME);
+  if (previous) {
+    throw new Error(`Chains were already re-sealed on ${previous.ranAt.toISOString()} - refusing to run again`);
+  }
+
+  await initializeSigningKeys();
+  await blockchainRegistry.initializeGenesisBlocks();
+  const resealed = await blockchainRegistry.resealLegacyChains();
+
+  await storage.createMaintenanceRun({
+    name: MIGRATION_NAME,
+    details: JSON.stringify({ resealed })
+  });
+  console.log(`Re-sealed ${resealed.length} blockchains mined with proof of work`);
+}
+
+main().then(() => process.exit(0), (error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
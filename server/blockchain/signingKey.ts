@@ -0,0 +1,163 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, type KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import type { PublicSigningKey } from '@shared/proof';
+
+// Ed25519 server key that seals chain blocks and signs proof bundles.
+// SERVER_SIGNING_KEY holds a PKCS#8 PEM; it is required in production. In
+// development a key is generated once and kept in .data/, so chains sealed
+// by one run still verify in the next.
+//
+// Only keys from config are trusted for verification: the current key and
+// SIGNING_PUBLIC_KEYS, a comma-separated list of base64 DER public keys (as
+// listed at /api/signing-keys) for keys that have been rotated out. The
+// signing_keys table only records when each key was used - anyone able to
+// write to the database could otherwise add a key of their own and sign
+// whatever chain they like. To rotate, move the old public key into
+// SIGNING_PUBLIC_KEYS, set the new SERVER_SIGNING_KEY and restart.
+
+interface CurrentKey {
+  privateKey: KeyObject;
+  keyId: string;
+  publicKey: string;
+}
+
+let currentKey: CurrentKey | undefined;
+// Trusted keys: the current one and SIGNING_PUBLIC_KEYS
+const publishedKeys: Map<string, PublicSigningKey> = new Map();
+const verifyingKeys: Map<string, KeyObject> = new Map();
+
+const DEV_KEY_PATH = path.resolve(process.cwd(), '.data', 'signing-key.pem');
+
+function loadPrivateKey(): KeyObject {
+  // PROOF_SIGNING_KEY is the older name, from when only proof bundles were signed
+  const pem = process.env.SERVER_SIGNING_KEY || process.env.PROOF_SIGNING_KEY;
+  if (pem) {
+    const key = createPrivateKey(pem.replace(/\\n/g, '\n'));
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('SERVER_SIGNING_KEY must be an Ed25519 private key');
+    }
+    return key;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SERVER_SIGNING_KEY must be set in production');
+  }
+  if (fs.existsSync(DEV_KEY_PATH)) {
+    return createPrivateKey(fs.readFileSync(DEV_KEY_PATH, 'utf-8'));
+  }
+  const { privateKey } = generateKeyPairSync('ed25519');
+  fs.mkdirSync(path.dirname(DEV_KEY_PATH), { recursive: true });
+  fs.writeFileSync(DEV_KEY_PATH, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  console.warn(`SERVER_SIGNING_KEY is not set - generated a development key in ${path.relative(process.cwd(), DEV_KEY_PATH)}`);
+  return privateKey;
+}
+
+function keyIdFor(spki: Buffer): string {
+  return createHash('sha256').update(spki).digest('hex').substring(0, 16);
+}
+
+// Retired public keys from SIGNING_PUBLIC_KEYS, by key id
+function loadRetiredKeys(): Map<string, string> {
+  const keys: Map<string, string> = new Map();
+  for (const entry of (process.env.SIGNING_PUBLIC_KEYS || '').split(',')) {
+    const publicKey = entry.trim();
+    if (!publicKey) continue;
+    const spki = Buffer.from(publicKey, 'base64');
+    const key = createPublicKey({ key: spki, format: 'der', type: 'spki' });
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('SIGNING_PUBLIC_KEYS must only list Ed25519 public keys');
+    }
+    keys.set(keyIdFor(spki), publicKey);
+  }
+  return keys;
+}
+
+function getCurrentKey(): CurrentKey {
+  if (!currentKey) {
+    const privateKey = loadPrivateKey();
+    const spki = createPublicKey(privateKey).export({ type: 'spki', format: 'der' });
+    currentKey = {
+      privateKey,
+      keyId: keyIdFor(spki),
+      publicKey: spki.toString('base64')
+    };
+
+    const now = new Date().toISOString();
+    publishedKeys.set(currentKey.keyId, {
+      algorithm: 'Ed25519',
+      keyId: currentKey.keyId,
+      publicKey: currentKey.publicKey,
+      createdAt: now,
+      retiredAt: null
+    });
+    loadRetiredKeys().forEach((publicKey, keyId) => {
+      if (keyId === currentKey!.keyId) return;
+      publishedKeys.set(keyId, { algorithm: 'Ed25519', keyId, publicKey, createdAt: now, retiredAt: now });
+    });
+  }
+  return currentKey;
+}
+
+// Record the current key, retire the ones it replaced and take the dates of
+// the configured keys from their records (call once at server start)
+export async function initializeSigningKeys(): Promise<void> {
+  const { keyId, publicKey } = getCurrentKey();
+  const records = await storage.getSigningKeys();
+
+  const existing = records.find(record => record.keyId === keyId);
+  if (!existing) {
+    await storage.createSigningKey({ keyId, algorithm: 'Ed25519', publicKey });
+  } else if (existing.retiredAt) {
+    // Rolled back to an earlier key
+    await storage.updateSigningKey(keyId, { retiredAt: null });
+  }
+  for (const record of records) {
+    if (record.keyId !== keyId && !record.retiredAt) {
+      await storage.updateSigningKey(record.keyId, { retiredAt: new Date() });
+    }
+  }
+
+  for (const record of await storage.getSigningKeys()) {
+    const published = publishedKeys.get(record.keyId);
+    // A record alone never makes a key trusted
+    if (!published || published.publicKey !== record.publicKey) continue;
+    publishedKeys.set(record.keyId, {
+      ...published,
+      createdAt: record.createdAt.toISOString(),
+      retiredAt: record.keyId === keyId ? null : (record.retiredAt ?? new Date()).toISOString()
+    });
+  }
+}
+
+export function getSigningKeys(): PublicSigningKey[] {
+  getCurrentKey();
+  return Array.from(publishedKeys.values())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Base64 Ed25519 signature over message (UTF-8 if a string) with the current key
+export function signMessage(message: string | Buffer): { keyId: string; value: string } {
+  const { privateKey, keyId } = getCurrentKey();
+  const bytes = typeof message === 'string' ? Buffer.from(message, 'utf-8') : message;
+  return {
+    keyId,
+    value: sign(null, bytes, privateKey).toString('base64')
+  };
+}
+
+// False for a bad signature or a key that isn't configured
+export function verifyMessage(keyId: string, message: string | Buffer, signature: string): boolean {
+  getCurrentKey();
+  const published = publishedKeys.get(keyId);
+  if (!published) return false;
+
+  let key = verifyingKeys.get(keyId);
+  if (!key) {
+    key = createPublicKey({ key: Buffer.from(published.publicKey, 'base64'), format: 'der', type: 'spki' });
+    verifyingKeys.set(keyId, key);
+  }
+  const bytes = typeof message === 'string' ? Buffer.from(message, 'utf-8') : message;
+  return verify(null, bytes, key, Buffer.from(signature, 'base64'));
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { loadFraudConfig } from "./config";
+
+function configFile(overrides: unknown): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'fraud-config-')), 'rules.json');
+  writeFileSync(path, JSON.stringify(overrides));
+  return path;
+}
+
+describe('loadFraudConfig', () => {
+  it('fills in every rule\'s default params', () => {
+    const config = loadFraudConfig(undefined);
+    assert.deepEqual(config.rules.speed.params, { maxSpeedKmh: 200 });
+    assert.deepEqual(config.rules.device_change.params, { recentBlocks: 3, minimumHistory: 2 });
+  });
+
+  it('merges overridden params with the defaults', () => {
+    const config = loadFraudConfig(configFile({ rules: { ocr_mismatch: { params: { toleranceKm: 5 } } } }));
+    assert.deepEqual(config.rules.ocr_mismatch.params, { toleranceKm: 5, minimumConfidence: 0.6 });
+  });
+
+  it('rejects params of the wrong type', () => {
+    const path = configFile({ rules: { speed: { params: { maxSpeedKmh: '150' } } } });
+    assert.throws(() => loadFraudConfig(path), /Invalid params for fraud rule speed/);
+  });
+
+  it('rejects params the rule doesn\'t have', () => {
+    const path = configFile({ rules: { rollback: { params: { toleranceMeters: 5 } } } });
+    assert.throws(() => loadFraudConfig(path), /Invalid params for fraud rule rollback/);
+  });
+
+  it('rejects unknown rules', () => {
+    const path = configFile({ rules: { teleport: { enabled: false } } });
+    assert.throws(() => loadFraudConfig(path), /Unknown fraud rule/);
+  });
+});
@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { AnyFraudRule, FraudPipelineConfig, FraudRuleParams } from "./types";
+import { getFraudRules } from "./pipeline";
+
+// Overrides file pointed to by FRAUD_RULES_CONFIG, e.g.
+// { "reviewThreshold": 0.5, "rules": { "speed": { "params": { "maxSpeedKmh": 150 } }, "device_change": { "enabled": false } } }
+const fraudConfigFileSchema = z.object({
+  reviewThreshold: z.number().nonnegative().optional(),
+  rejectThreshold: z.number().positive().optional(),
+  rules: z.record(z.object({
+    enabled: z.boolean().optional(),
+    weight: z.number().nonnegative().optional(),
+    params: z.record(z.unknown()).optional(),
+  })).default({}),
+});
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+export const DEFAULT_REJECT_THRESHOLD = 1.2;
+
+// Each rule checks its own params, so a typo or a wrong type in the overrides
+// file stops the server at startup instead of surfacing mid-upload
+function parseRuleParams(rule: AnyFraudRule, params: Record<string, unknown> = {}): FraudRuleParams {
+  const result = rule.paramsSchema.safeParse(params);
+  if (!result.success) {
+    throw new Error(`Invalid params for fraud rule ${rule.name}: ${fromZodError(result.error).message}`);
+  }
+  return result.data;
+}
+
+export function loadFraudConfig(path: string | undefined = process.env.FRAUD_RULES_CONFIG): FraudPipelineConfig {
+  const overrides = path
+    ? fraudConfigFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8')))
+    : fraudConfigFileSchema.parse({});
+
+  const known = new Set(getFraudRules().map(rule => rule.name));
+  for (const name of Object.keys(overrides.rules)) {
+    if (!known.has(name)) {
+      throw new Error(`Unknown fraud rule in ${path}: ${name}`);
+    }
+  }
+
+  const config: FraudPipelineConfig = {
+    reviewThreshold: overrides.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD,
+    rejectThreshold: overrides.rejectThreshold ?? DEFAULT_REJECT_THRESHOLD,
+    rules: {}
+  };
+
+  for (const rule of getFraudRules()) {
+    const override = overrides.rules[rule.name] || {};
+    config.rules[rule.name] = {
+      enabled: override.enabled ?? true,
+      weight: override.weight ?? rule.defaultWeight,
+      params: parseRuleParams(rule, override.params)
+    };
+  }
+
+  if (config.rejectThreshold <= config.reviewThreshold) {
+    throw new Error('Fraud rejectThreshold must be greater than reviewThreshold');
+  }
+
+  return config;
+}
+
+let activeConfig: FraudPipelineConfig | null = null;
+
+// Loaded on first use; restart the server to pick up file changes
+export function getFraudConfig(): FraudPipelineConfig {
+  if (!activeConfig) {
+    activeConfig = loadFraudConfig();
+  }
+  return activeConfig;
+}
@@ -0,0 +1,61 @@
+import type { FraudSignal } from "@shared/schema";
+import type { AnyFraudRule, FraudAssessment, FraudContext, FraudPipelineConfig } from "./types";
+import { speedRule } from "./rules/speed";
+import { rollbackRule } from "./rules/rollback";
+import { ocrConfidenceRule } from "./rules/ocrConfidence";
+import { ocrMismatchRule } from "./rules/ocrMismatch";
+import { locationAccuracyRule } from "./rules/locationAccuracy";
+import { crossAppDuplicateRule } from "./rules/crossAppDuplicate";
+import { imageManipulationRule } from "./rules/imageManipulation";
+import { deviceChangeRule } from "./rules/deviceChange";
+
+// Rules run in registration order
+const FRAUD_RULES: Record<string, AnyFraudRule> = {};
+
+export function registerFraudRule(rule: AnyFraudRule): void {
+  FRAUD_RULES[rule.name] = rule;
+}
+
+export function getFraudRules(): AnyFraudRule[] {
+  return Object.values(FRAUD_RULES);
+}
+
+[
+  speedRule,
+  rollbackRule,
+  ocrConfidenceRule,
+  ocrMismatchRule,
+  locationAccuracyRule,
+  crossAppDuplicateRule,
+  imageManipulationRule,
+  deviceChangeRule,
+].forEach(registerFraudRule);
+
+// Run every enabled rule and turn the triggered weights into a verdict
+export async function runFraudPipeline(context: FraudContext, config: FraudPipelineConfig): Promise<FraudAssessment> {
+  const signals: FraudSignal[] = [];
+
+  for (const rule of getFraudRules()) {
+    const settings = config.rules[rule.name];
+    if (settings && !settings.enabled) continue;
+
+    const weight = settings?.weight ?? rule.defaultWeight;
+    const params = settings?.params ?? rule.paramsSchema.parse({});
+    const outcome = await rule.evaluate(context, params);
+
+    signals.push({ check: rule.name, weight, ...outcome });
+  }
+
+  const score = signals
+    .filter(signal => signal.triggered)
+    .reduce((sum, signal) => sum + signal.weight, 0);
+
+  let verdict: FraudAssessment['verdict'] = 'accept';
+  if (score >= config.rejectThreshold) {
+    verdict = 'reject';
+  } else if (score > config.reviewThreshold) {
+    verdict = 'review';
+  }
+
+  return { verdict, signals, score: Math.round(score * 100) / 100 };
+}
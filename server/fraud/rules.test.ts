@@ -0,0 +1,228 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Block, ValidationProof } from "../blockchain";
+import type { OcrVerification } from "../ocr/verification";
+import type { FraudContext, FraudRuleParams, FraudRule } from "./types";
+import { speedRule } from "./rules/speed";
+import { rollbackRule } from "./rules/rollback";
+import { ocrConfidenceRule } from "./rules/ocrConfidence";
+import { ocrMismatchRule } from "./rules/ocrMismatch";
+import { locationAccuracyRule } from "./rules/locationAccuracy";
+import { crossAppDuplicateRule } from "./rules/crossAppDuplicate";
+import { imageManipulationRule } from "./rules/imageManipulation";
+import { deviceChangeRule } from "./rules/deviceChange";
+
+// Each rule on its own, with its default params unless a test overrides them
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function validation(overrides: Partial<ValidationProof> = {}): ValidationProof {
+  return {
+    ocrConfidence: 0.95,
+    locationAccuracy: 10,
+    timeStamp: NOW,
+    deviceFingerprint: 'device-a',
+    imageMetadata: JSON.stringify({ software: 'Camera' }),
+    ...overrides
+  };
+}
+
+function block(data: Partial<Block['data']>, timestamp: Date): Block {
+  return {
+    index: 0,
+    timestamp,
+    data: { type: 'ODOMETER_READING', vehicleNumber: 'MH12AB1234', ...data },
+    hash: '',
+    previousHash: '',
+    nonce: 0,
+    merkleRoot: '',
+    keyId: '',
+    signature: ''
+  };
+}
+
+function reading(km: number, hoursAgo: number, deviceFingerprint = 'device-a'): Block {
+  return block({ odometerReading: km, validationProof: validation({ deviceFingerprint }) }, new Date(NOW.getTime() - hoursAgo * HOUR));
+}
+
+const genesis = block({ type: 'USER_REGISTRY' }, new Date(NOW.getTime() - 1000 * HOUR));
+
+function context(overrides: Partial<FraudContext> = {}): FraudContext {
+  return {
+    vehicleNumber: 'MH12AB1234',
+    reading: 12000,
+    validation: validation(),
+    chain: [genesis],
+    now: NOW,
+    serverOcr: null,
+    findCrossAppReading: async () => ({ isDuplicate: false }),
+    ...overrides
+  };
+}
+
+async function run<TParams extends FraudRuleParams>(
+  rule: FraudRule<TParams>,
+  fraudContext: FraudContext,
+  params: Partial<TParams> = {}
+) {
+  return rule.evaluate(fraudContext, rule.paramsSchema.parse(params));
+}
+
+describe('speed', () => {
+  it('allows a distance that could be driven in the time elapsed', async () => {
+    const outcome = await run(speedRule, context({ chain: [genesis, reading(11000, 10)], reading: 12000 }));
+    assert.equal(outcome.triggered, false);
+  });
+
+  it('flags a distance no vehicle could cover in the time elapsed', async () => {
+    const outcome = await run(speedRule, context({ chain: [genesis, reading(11000, 2)], reading: 12000 }));
+    assert.equal(outcome.triggered, true);
+    assert.equal(outcome.evidence.speedKmh, 500);
+  });
+
+  it('uses the configured limit', async () => {
+    const outcome = await run(speedRule, context({ chain: [genesis, reading(11000, 10)], reading: 12000 }), { maxSpeedKmh: 80 });
+    assert.equal(outcome.triggered, true);
+  });
+
+  it('compares against the last reading, skipping fraud alerts', async () => {
+    const alert = block({ type: 'FRAUD_ALERT' }, new Date(NOW.getTime() - HOUR));
+    const outcome = await run(speedRule, context({ chain: [genesis, reading(11000, 10), alert], reading: 12000 }));
+    assert.equal(outcome.triggered, false);
+  });
+
+  it('passes the first reading', async () => {
+    const outcome = await run(speedRule, context());
+    assert.equal(outcome.triggered, false);
+  });
+});
+
+describe('rollback', () => {
+  it('flags a reading below the last one', async () => {
+    const outcome = await run(rollbackRule, context({ chain: [genesis, reading(12500, 24)], reading: 12000 }));
+    assert.equal(outcome.triggered, true);
+  });
+
+  it('allows a drop within the tolerance', async () => {
+    const outcome = await run(rollbackRule, context({ chain: [genesis, reading(12001, 24)], reading: 12000 }), { toleranceKm: 1 });
+    assert.equal(outcome.triggered, false);
+  });
+
+  it('passes the first reading', async () => {
+    const outcome = await run(rollbackRule, context());
+    assert.equal(outcome.triggered, false);
+  });
+});
+
+describe('ocr_confidence', () => {
+  it('flags a reading the device OCR wasn\'t sure of', async () => {
+    const outcome = await run(ocrConfidenceRule, context({ validation: validation({ ocrConfidence: 0.5 }) }));
+    assert.equal(outcome.triggered, true);
+  });
+
+  it('passes a confident reading', async () => {
+    const outcome = await run(ocrConfidenceRule, context());
+    assert.equal(outcome.triggered, false);
+  });
+});
+
+describe('ocr_mismatch', () => {
+  const serverOcr = (reading: number | null, confidence: number): OcrVerification => ({
+    reading,
+    confidence,
+    discrepancyKm: reading === null ? null : reading - 12000
+  });
+
+  it('flags a photo that reads a different number', async () => {
+    const outcome = await run(ocrMismatchRule, context({ serverOcr: serverOcr(18000, 0.9) }));
+    assert.equal(outcome.triggered, true);
+    assert.equal(outcome.evidence.serverReading, 18000);
+  });
+
+  it('allows a difference within the tolerance', async () => {
+    const outcome = await run(ocrMismatchRule, context({ serverOcr: serverOcr(12001, 0.9) }));
+    assert.equal(outcome.triggered, false);
+  });
+
+  it('ignores a server reading below the confidence needed', async () => {
+    const outcome = await run(ocrMismatchRule, context({ serverOcr: serverOcr(18000, 0.4) }));
+    assert.equal(outcome.triggered, false);
+  });
+
+  it('passes when the server couldn\'t read the photo', async () => {
+    assert.equal((await run(ocrMismatchRule, context({ serverOcr: serverOcr(null, 0) }))).triggered, false);
+    assert.equal((await run(ocrMismatchRule, context())).triggered, false);
+  });
+});
+
+describe('location_accuracy', () => {
+  it('flags a location fix worse than the maximum', async () => {
+    const outcome = await run(locationAccuracyRule, context({ validation: validation({ locationAccuracy: 250 }) }));
+    assert.equal(outcome.triggered, true);
+  });
+
+  it('passes an accurate fix', async () => {
+    const outcome = await run(locationAccuracyRule, context());
+    assert.equal(outcome.triggered, false);
+  });
+});
+
+describe('cross_app_duplicate', () => {
+  it('flags a reading another app already claimed', async () => {
+    const outcome = await run(crossAppDuplicateRule, context({
+      findCrossAppReading: async () => ({ isDuplicate: true, source: 'PartnerApp' })
+    }));
+    assert.equal(outcome.triggered, true);
+    assert.equal(outcome.evidence.source, 'PartnerApp');
+  });
+
+  it('passes an unclaimed reading', async () => {
+    const outcome = await run(crossAppDuplicateRule, context());
+    assert.equal(outcome.triggered, false);
+  });
+});
+
+describe('image_manipulation', () => {
+  it('flags photos saved by editing software', async () => {
+    const imageMetadata = JSON.stringify({ software: 'Adobe Photoshop 25.0' });
+    const outcome = await run(imageManipulationRule, context({ validation: validation({ imageMetadata }) }));
+    assert.equal(outcome.triggered, true);
+    assert.equal(outcome.evidence.software, 'photoshop');
+  });
+
+  it('uses the configured list, ignoring case', async () => {
+    const imageMetadata = JSON.stringify({ software: 'Snapseed' });
+    const outcome = await run(imageManipulationRule, context({ validation: validation({ imageMetadata }) }), {
+      editingSoftware: ['SnapSeed']
+    });
+    assert.equal(outcome.triggered, true);
+  });
+
+  it('passes camera photos and unreadable metadata', async () => {
+    assert.equal((await run(imageManipulationRule, context())).triggered, false);
+    const unreadable = context({ validation: validation({ imageMetadata: 'not json' }) });
+    assert.equal((await run(imageManipulationRule, unreadable)).triggered, false);
+  });
+});
+
+describe('device_change', () => {
+  it('flags a new device after consistent use of another', async () => {
+    const chain = [genesis, reading(10000, 48), reading(11000, 24)];
+    const outcome = await run(deviceChangeRule, context({ chain, validation: validation({ deviceFingerprint: 'device-b' }) }));
+    assert.equal(outcome.triggered, true);
+    assert.equal(outcome.evidence.expectedFingerprint, 'device-a');
+  });
+
+  it('passes the same device', async () => {
+    const chain = [genesis, reading(10000, 48), reading(11000, 24)];
+    const outcome = await run(deviceChangeRule, context({ chain }));
+    assert.equal(outcome.triggered, false);
+  });
+
+  it('needs enough history before flagging', async () => {
+    const chain = [genesis, reading(11000, 24)];
+    const outcome = await run(deviceChangeRule, context({ chain, validation: validation({ deviceFingerprint: 'device-b' }) }));
+    assert.equal(outcome.triggered, false);
+  });
+});
@@ -0,0 +1,11 @@
+import type { Block } from "../../blockchain";
+
+// Most recent odometer reading block - fraud alerts don't count as readings
+export function lastReadingBlock(chain: Block[]): Block | undefined {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (chain[i].data.type === 'ODOMETER_READING') {
+      return chain[i];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import type { FraudRule } from "../types";
+
+// Same reading already claimed through another app in the shared registry
+export const crossAppDuplicateRule: FraudRule<{}> = {
+  name: 'cross_app_duplicate',
+  defaultWeight: 0.9,
+  paramsSchema: z.object({}).strict(),
+
+  async evaluate(context) {
+    const result = await context.findCrossAppReading(context.reading);
+    return {
+      triggered: result.isDuplicate,
+      message: 'Reading already used in another app',
+      evidence: { reading: context.reading, source: result.source ?? null }
+    };
+  }
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import type { FraudRule } from "../types";
+
+// Upload from a different device than the one the recent readings came from
+export const deviceChangeRule: FraudRule<{ recentBlocks: number; minimumHistory: number }> = {
+  name: 'device_change',
+  defaultWeight: 0.4,
+  paramsSchema: z.object({
+    recentBlocks: z.number().int().positive().default(3),
+    minimumHistory: z.number().int().positive().default(2)
+  }).strict(),
+
+  evaluate(context, { recentBlocks, minimumHistory }) {
+    const fingerprint = context.validation.deviceFingerprint;
+    let expected: string | null = null;
+
+    // First reading, accept any device
+    if (context.chain.length > 1) {
+      const recentFingerprints = context.chain
+        .slice(-recentBlocks)
+        .map(block => block.data.validationProof?.deviceFingerprint)
+        .filter((fp): fp is string => !!fp);
+
+      // Only flag a change once a device has been used consistently
+      if (recentFingerprints.length >= minimumHistory) {
+        expected = recentFingerprints[recentFingerprints.length - 1];
+      }
+    }
+
+    return {
+      triggered: expected !== null && fingerprint !== expected,
+      message: 'Suspicious device change',
+      evidence: { deviceFingerprint: fingerprint, expectedFingerprint: expected }
+    };
+  }
+};
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import type { FraudRule } from "../types";
+
+// Photo editing software signatures in the image metadata
+export const imageManipulationRule: FraudRule<{ editingSoftware: string[] }> = {
+  name: 'image_manipulation',
+  defaultWeight: 0.7,
+  paramsSchema: z.object({
+    editingSoftware: z.array(z.string().min(1).toLowerCase()).default(['photoshop', 'gimp', 'pixelmator', 'canva'])
+  }).strict(),
+
+  evaluate(context, { editingSoftware }) {
+    let software: string | null = null;
+    try {
+      const meta = JSON.parse(context.validation.imageMetadata);
+      const reported = String(meta.software || '').toLowerCase();
+      software = editingSoftware.find(editor => reported.includes(editor)) || null;
+    } catch {
+      // If metadata can't be parsed, assume it's fine
+    }
+
+    return {
+      triggered: software !== null,
+      message: 'Image manipulation detected',
+      evidence: { software }
+    };
+  }
+};
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import type { FraudRule } from "../types";
+
+export const locationAccuracyRule: FraudRule<{ maximumMeters: number }> = {
+  name: 'location_accuracy',
+  defaultWeight: 0.2,
+  paramsSchema: z.object({
+    maximumMeters: z.number().positive().default(100)
+  }).strict(),
+
+  evaluate(context, { maximumMeters }) {
+    return {
+      triggered: context.validation.locationAccuracy > maximumMeters,
+      message: 'Poor location accuracy',
+      evidence: { accuracyMeters: context.validation.locationAccuracy, maximumMeters }
+    };
+  }
+};
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import type { FraudRule } from "../types";
+
+export const ocrConfidenceRule: FraudRule<{ minimum: number }> = {
+  name: 'ocr_confidence',
+  defaultWeight: 0.3,
+  paramsSchema: z.object({
+    minimum: z.number().min(0).max(1).default(0.7)
+  }).strict(),
+
+  evaluate(context, { minimum }) {
+    return {
+      triggered: context.validation.ocrConfidence < minimum,
+      message: 'Low OCR confidence',
+      evidence: { ocrConfidence: context.validation.ocrConfidence, minimum }
+    };
+  }
+};
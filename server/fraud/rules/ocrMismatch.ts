@@ -0,0 +1,29 @@
+import { z } from "zod";
+import type { FraudRule } from "../types";
+
+// The server's own OCR of the photo reads a different number than the km submitted
+export const ocrMismatchRule: FraudRule<{ toleranceKm: number; minimumConfidence: number }> = {
+  name: 'ocr_mismatch',
+  defaultWeight: 0.5,
+  paramsSchema: z.object({
+    toleranceKm: z.number().nonnegative().default(1),
+    minimumConfidence: z.number().min(0).max(1).default(0.6)
+  }).strict(),
+
+  evaluate(context, { toleranceKm, minimumConfidence }) {
+    const ocr = context.serverOcr;
+    // Nothing to compare against unless the server read the photo confidently
+    const comparable = !!ocr && ocr.discrepancyKm !== null && ocr.confidence >= minimumConfidence;
+
+    return {
+      triggered: comparable && Math.abs(ocr!.discrepancyKm!) > toleranceKm,
+      message: 'Submitted reading does not match the photo',
+      evidence: {
+        submittedKm: context.reading,
+        serverReading: ocr?.reading ?? null,
+        serverConfidence: ocr?.confidence ?? null,
+        toleranceKm
+      }
+    };
+  }
+};
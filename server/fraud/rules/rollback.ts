@@ -0,0 +1,29 @@
+import { z } from "zod";
+import type { FraudRule, FraudRuleOutcome } from "../types";
+import { lastReadingBlock } from "./chain";
+
+// Odometer lower than the last recorded reading
+export const rollbackRule: FraudRule<{ toleranceKm: number }> = {
+  name: 'rollback',
+  defaultWeight: 0.9,
+  paramsSchema: z.object({
+    toleranceKm: z.number().nonnegative().default(0)
+  }).strict(),
+
+  evaluate(context, { toleranceKm }): FraudRuleOutcome {
+    const previousReading = lastReadingBlock(context.chain)?.data.odometerReading ?? null;
+    if (previousReading === null) {
+      return {
+        triggered: false,
+        message: 'No previous reading to compare',
+        evidence: { previousReading: null, reading: context.reading }
+      };
+    }
+
+    return {
+      triggered: previousReading - context.reading > toleranceKm,
+      message: 'Odometer rollback detected',
+      evidence: { previousReading, reading: context.reading, toleranceKm }
+    };
+  }
+};
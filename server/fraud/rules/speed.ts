@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { FraudRule, FraudRuleOutcome } from "../types";
+import { lastReadingBlock } from "./chain";
+
+// Distance since the last reading that no vehicle could have covered in the time elapsed
+export const speedRule: FraudRule<{ maxSpeedKmh: number }> = {
+  name: 'speed',
+  defaultWeight: 0.8,
+  paramsSchema: z.object({
+    maxSpeedKmh: z.number().positive().default(200)
+  }).strict(),
+
+  evaluate(context, { maxSpeedKmh }): FraudRuleOutcome {
+    const previous = lastReadingBlock(context.chain);
+    const previousReading = previous?.data.odometerReading ?? null;
+    if (!previous || previousReading === null) {
+      return {
+        triggered: false,
+        message: 'No previous reading to compare',
+        evidence: { previousReading: null, reading: context.reading }
+      };
+    }
+
+    const hoursElapsed = (context.now.getTime() - previous.timestamp.getTime()) / (1000 * 60 * 60);
+    const speedKmh = (context.reading - previousReading) / hoursElapsed;
+
+    return {
+      triggered: speedKmh > maxSpeedKmh,
+      message: 'Impossible speed detected',
+      evidence: {
+        previousReading,
+        reading: context.reading,
+        hoursElapsed: Math.round(hoursElapsed * 100) / 100,
+        speedKmh: Math.round(speedKmh),
+        limitKmh: maxSpeedKmh
+      }
+    };
+  }
+};
@@ -0,0 +1,54 @@
+import type { z } from "zod";
+import type { FraudSignal } from "@shared/schema";
+import type { Block, ValidationProof } from "../blockchain";
+import type { OcrVerification } from "../ocr/verification";
+
+// Everything a rule may look at for one incoming reading
+export interface FraudContext {
+  vehicleNumber: string;
+  reading: number;
+  validation: ValidationProof;
+  chain: Block[]; // the vehicle's chain before this reading
+  now: Date;
+  serverOcr: OcrVerification | null; // null if the server couldn't OCR the photo
+  findCrossAppReading(reading: number): Promise<{ isDuplicate: boolean; source?: string }>;
+}
+
+export interface FraudRuleOutcome {
+  triggered: boolean;
+  message: string;
+  evidence: FraudSignal['evidence'];
+}
+
+export type FraudRuleParams = Record<string, number | string | string[]>;
+
+// A single fraud check. Rules are pure: the same context and params always
+// give the same outcome, so each one can be exercised on its own.
+export interface FraudRule<TParams extends FraudRuleParams> {
+  name: string;
+  defaultWeight: number;
+  // Checks the params from the config file and fills in the defaults;
+  // parsing {} gives the rule's default params
+  paramsSchema: z.ZodType<TParams, z.ZodTypeDef, unknown>;
+  evaluate(context: FraudContext, params: TParams): FraudRuleOutcome | Promise<FraudRuleOutcome>;
+}
+
+export type AnyFraudRule = FraudRule<FraudRuleParams>;
+
+export interface FraudRuleSettings {
+  enabled: boolean;
+  weight: number;
+  params: FraudRuleParams; // already checked against the rule's paramsSchema
+}
+
+export interface FraudPipelineConfig {
+  reviewThreshold: number; // scores above this wait for manual review
+  rejectThreshold: number; // scores at or above this are rejected outright
+  rules: Record<string, FraudRuleSettings>;
+}
+
+export interface FraudAssessment {
+  verdict: 'accept' | 'review' | 'reject';
+  signals: FraudSignal[];
+  score: number;
+}
@@ -1,9 +1,25 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { blockchainRegistry } from "./blockchain";
+import { backfillRewardCredits } from "./ledger";
+import { approveLegacyRewards } from "./rewards/review";
+import { getFraudConfig } from "./fraud/config";
+import { getChainAdapter } from "./blockchain/chains";
+import { getPayoutProvider } from "./payouts/provider";
+import { getSmsSender } from "./sms";
+import { startAnchorWorker } from "./blockchain/anchorQueue";
+import { initializeSigningKeys } from "./blockchain/signingKey";
+import { startChainAuditWorker } from "./blockchain/chainAudit";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  limit: '5mb', // odometer and appeal photos arrive inline as data URLs
+  // Partner API signatures cover the raw body
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +53,25 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail fast on a bad FRAUD_RULES_CONFIG, BLOCKCHAIN_NETWORK, PAYOUT_PROVIDER
+  // or SMS_PROVIDER rather than on the first upload, payout or login
+  getFraudConfig();
+  getChainAdapter();
+  getPayoutProvider();
+  getSmsSender();
+  // Chains are verified against the published signing keys, so load those first
+  await initializeSigningKeys();
+  // Restore per-vehicle chains before accepting uploads
+  await blockchainRegistry.initializeGenesisBlocks();
+  // Older rewards predate the review queue and the ledger; settle both first
+  // (the approval is a one-time migration, skipped once recorded)
+  await approveLegacyRewards();
+  await backfillRewardCredits();
+  // Pick up anchor jobs left queued by a previous run
+  startAnchorWorker();
+  // Re-verify stored chains against tampering on a schedule
+  startChainAuditWorker();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,78 @@
+import type { LedgerEntry, Reward } from "@shared/schema";
+import { storage } from "./storage";
+
+// Ledger accounts. Wallet accounts are credited when a user earns and
+// debited when they withdraw; the program pool funds every reward.
+export const PROGRAM_POOL_ACCOUNT = 'program_pool';
+export const PAYOUTS_ACCOUNT = 'payouts';
+
+export function walletAccount(vehicleNumber: string): string {
+  return `wallet:${vehicleNumber}`;
+}
+
+function roundToPaise(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Net balance of an account: credits minus debits
+export function accountBalance(entries: LedgerEntry[], account: string): number {
+  const balance = entries.reduce((sum, entry) => {
+    if (entry.creditAccount === account) return sum + entry.amount;
+    if (entry.debitAccount === account) return sum - entry.amount;
+    return sum;
+  }, 0);
+  return roundToPaise(balance);
+}
+
+// Rewards credited to an account since the given date
+export function rewardsCreditedSince(entries: LedgerEntry[], account: string, since: Date): number {
+  const total = entries
+    .filter(entry => entry.entryType === 'reward' && entry.creditAccount === account && entry.createdAt >= since)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  return roundToPaise(total);
+}
+
+// Readings since `since` still awaiting review - not in the ledger until approved
+export function pendingRewardsSince(rewards: Reward[], since: Date): number {
+  const total = rewards
+    .filter(reward => reward.validationStatus === 'pending' && reward.timestamp >= since)
+    .reduce((sum, reward) => sum + reward.rewardGiven, 0);
+  return roundToPaise(total);
+}
+
+// Move a reward from the program pool into the user's wallet. Safe to call
+// more than once for the same reward; readings awaiting review are skipped.
+export async function creditReward(reward: Reward): Promise<LedgerEntry | undefined> {
+  if (reward.validationStatus !== 'approved' || reward.rewardGiven <= 0) return undefined;
+
+  return await storage.postLedgerEntry({
+    debitAccount: PROGRAM_POOL_ACCOUNT,
+    creditAccount: walletAccount(reward.vehicleNumber),
+    amount: reward.rewardGiven,
+    entryType: 'reward',
+    referenceId: reward.id.toString(),
+    idempotencyKey: `reward:${reward.id}`,
+    memo: `${reward.co2Saved}kg CO2 saved`
+  });
+}
+
+// Post ledger credits for rewards recorded before the ledger existed
+export async function backfillRewardCredits(): Promise<void> {
+  const [allRewards, rewardEntries] = await Promise.all([
+    storage.getRewards(),
+    storage.getLedgerEntriesByType('reward')
+  ]);
+  const credited = new Set(rewardEntries.map(entry => entry.idempotencyKey));
+
+  let posted = 0;
+  for (const reward of allRewards) {
+    if (reward.validationStatus === 'approved' && reward.rewardGiven > 0 && !credited.has(`reward:${reward.id}`)) {
+      await creditReward(reward);
+      posted++;
+    }
+  }
+
+  if (posted > 0) {
+    console.log(`Backfilled ${posted} reward ledger entries`);
+  }
+}
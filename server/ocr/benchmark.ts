@@ -0,0 +1,90 @@
+import { readFile } from 'fs/promises';
+import { createWorker, OEM, PSM, type Worker } from 'tesseract.js';
+import { recognizeDigits, terminateOCR } from '@shared/ocrService';
+
+// Per-scan OCR latency with a new Tesseract worker for every scan (how the
+// upload page used to read odometers) against the shared warm worker in
+// shared/ocrService. Tesseract runs the same way under Node, so the
+// numbers compare the two approaches even though browsers are slower.
+//
+//   npm run ocr:bench -- photo1.jpg [photo2.jpg ...] [--runs=5]
+
+interface Timings {
+  label: string;
+  samples: number[];
+}
+
+function startColdWorker(): Promise<Worker> {
+  return new Promise((resolve, reject) => {
+    createWorker('eng', OEM.LSTM_ONLY, { errorHandler: reject }).then(resolve, reject);
+  });
+}
+
+// Everything the old extractOdometerReading did for one scan
+async function coldScan(image: Buffer): Promise<void> {
+  const worker = await startColdWorker();
+  try {
+    await worker.setParameters({
+      tessedit_char_whitelist: '0123456789.',
+      tessedit_pageseg_mode: PSM.SINGLE_LINE,
+    });
+    await worker.recognize(image);
+  } finally {
+    await worker.terminate();
+  }
+}
+
+async function time(action: () => Promise<unknown>): Promise<number> {
+  const start = performance.now();
+  await action();
+  return performance.now() - start;
+}
+
+function summarize({ label, samples }: Timings): string {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const mean = samples.reduce((total, sample) => total + sample, 0) / samples.length;
+  return `${label.padEnd(28)} median ${median.toFixed(0).padStart(6)}ms  mean ${mean.toFixed(0).padStart(6)}ms  (${samples.length} scans)`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const runsArg = args.find(arg => arg.startsWith('--runs='));
+  const runs = runsArg ? parseInt(runsArg.slice('--runs='.length), 10) : 5;
+  const files = args.filter(arg => !arg.startsWith('--'));
+  if (files.length === 0 || !(runs > 0)) {
+    console.error('Usage: npm run ocr:bench -- <image> [<image> ...] [--runs=5]');
+    process.exit(1);
+  }
+  const images = await Promise.all(files.map(file => readFile(file)));
+
+  // Fetch and cache the model once so the cold runs measure start-up, not the download
+  await coldScan(images[0]);
+
+  const cold: Timings = { label: 'new worker per scan', samples: [] };
+  for (let run = 0; run < runs; run++) {
+    for (const image of images) {
+      cold.samples.push(await time(() => coldScan(image)));
+    }
+  }
+
+  const firstWarm: Timings = { label: 'shared worker, first scan', samples: [await time(() => recognizeDigits(images[0]))] };
+  const warm: Timings = { label: 'shared worker', samples: [] };
+  for (let run = 0; run < runs; run++) {
+    for (const image of images) {
+      warm.samples.push(await time(() => recognizeDigits(image)));
+    }
+  }
+  await terminateOCR();
+
+  console.log(summarize(cold));
+  console.log(summarize(firstWarm));
+  console.log(summarize(warm));
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().then(() => process.exit(0), (error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,72 @@
+import jpeg from 'jpeg-js';
+import { cropToScanFrame, MAX_CANDIDATE_ROWS, readOdometerRows } from '@shared/odometerOcr';
+import { toGray, type DisplaySize, type GrayImage } from '@shared/imagePreprocess';
+import { recognizeDigits } from './workerPool';
+
+// The server's own reading of an uploaded odometer photo, compared with the
+// km the client submitted. The photo goes through the same crop and clean-up
+// as on the user's device (shared/odometerOcr) before the pool reads it.
+export interface OcrVerification {
+  reading: number | null; // null if no odometer number was found
+  confidence: number; // 0-1
+  discrepancyKm: number | null; // server reading minus submitted km
+}
+
+// Phone photos are limited well below this; it only stops a crafted JPEG
+// from making the decoder allocate gigabytes
+const MAX_PHOTO_MEGAPIXELS = 40;
+
+function decodeDataUrl(image: string): Buffer | null {
+  const match = image.match(/^data:image\/jpeg;base64,(.+)$/);
+  return match ? Buffer.from(match[1], 'base64') : null;
+}
+
+function decodePhoto(bytes: Buffer): GrayImage {
+  const { width, height, data } = jpeg.decode(bytes, {
+    useTArray: true,
+    formatAsRGBA: true,
+    maxResolutionInMP: MAX_PHOTO_MEGAPIXELS
+  });
+  return toGray({ width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) });
+}
+
+// Tesseract under Node takes an encoded image, not pixels
+function encodeGray(image: GrayImage): Buffer {
+  const rgba = Buffer.alloc(image.width * image.height * 4);
+  for (let i = 0; i < image.data.length; i++) {
+    const p = i * 4;
+    rgba[p] = rgba[p + 1] = rgba[p + 2] = image.data[i];
+    rgba[p + 3] = 255;
+  }
+  return jpeg.encode({ width: image.width, height: image.height, data: rgba }, 95).data;
+}
+
+// Null when the photo isn't an inline JPEG (what the camera captures) or OCR
+// isn't available, so the upload falls back to what the client reported.
+// scanView is the size the camera preview was shown at, to crop to the scan
+// frame the way the device did.
+export async function verifyOdometerImage(
+  image: string,
+  submittedKm: number,
+  scanView?: DisplaySize
+): Promise<OcrVerification | null> {
+  // Only inline images - a URL or path here would have the server fetch or read it
+  const bytes = decodeDataUrl(image);
+  if (!bytes) return null;
+
+  try {
+    const framed = cropToScanFrame(decodePhoto(bytes), scanView);
+    const { reading, confidence } = await readOdometerRows(framed, MAX_CANDIDATE_ROWS, async candidate => {
+      const recognized = await recognizeDigits(encodeGray(candidate));
+      return { text: recognized.text, confidence: recognized.confidence * 100 };
+    });
+    return {
+      reading,
+      confidence: confidence / 100,
+      discrepancyKm: reading === null ? null : Math.round(reading - submittedKm)
+    };
+  } catch (error) {
+    console.error('Server OCR failed:', error);
+    return null;
+  }
+}
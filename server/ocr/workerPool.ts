@@ -0,0 +1,88 @@
+import { createScheduler, createWorker, OEM, PSM, type Scheduler, type Worker } from 'tesseract.js';
+
+// Tesseract workers (worker threads) shared by every upload. The pool starts
+// on first use; jobs queue on the scheduler until a worker is free.
+// OCR_LANG_PATH points at a directory or URL holding eng.traineddata for
+// servers without access to the default CDN.
+
+const POOL_SIZE = parseInt(process.env.OCR_POOL_SIZE || '2', 10);
+const OCR_TIMEOUT_MS = parseInt(process.env.OCR_TIMEOUT_MS || '20000', 10);
+
+export interface RecognizedText {
+  text: string;
+  confidence: number; // 0-1
+}
+
+let scheduler: Promise<Scheduler> | undefined;
+
+// createWorker never settles if the language data fails to load - the
+// failure only reaches the error handler, so reject from there
+function startWorker(): Promise<Worker> {
+  return new Promise((resolve, reject) => {
+    createWorker('eng', OEM.LSTM_ONLY, {
+      ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+      // Later job failures reject their own promise; this only stops
+      // Tesseract throwing them from its message listener
+      errorHandler: reject
+    }).then(resolve, reject);
+  });
+}
+
+async function startPool(): Promise<Scheduler> {
+  const pool = createScheduler();
+  try {
+    for (let i = 0; i < POOL_SIZE; i++) {
+      const worker = await startWorker();
+      await worker.setParameters({
+        tessedit_char_whitelist: '0123456789.',
+        tessedit_pageseg_mode: PSM.SINGLE_LINE,
+      });
+      pool.addWorker(worker);
+    }
+  } catch (error) {
+    await pool.terminate();
+    throw error;
+  }
+  console.log(`Started OCR pool with ${POOL_SIZE} workers`);
+  return pool;
+}
+
+// A pool that failed to start isn't retried: a worker stuck loading can't be
+// terminated, so each retry would leak a thread. Fix OCR_LANG_PATH and restart.
+function getScheduler(): Promise<Scheduler> {
+  if (!scheduler) {
+    scheduler = startPool();
+    scheduler.catch((error) => {
+      console.error('OCR pool failed to start, server OCR is off until restart:', error);
+    });
+  }
+  return scheduler;
+}
+
+async function recognize(image: Buffer): Promise<RecognizedText> {
+  const pool = await getScheduler();
+  const { data } = await pool.addJob('recognize', image);
+  return { text: data.text.trim(), confidence: data.confidence / 100 };
+}
+
+// Recognize the digits in an image; rejects if the pool isn't running or
+// starting it and the job take longer than OCR_TIMEOUT_MS
+export async function recognizeDigits(image: Buffer): Promise<RecognizedText> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`OCR timed out after ${OCR_TIMEOUT_MS}ms`)), OCR_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([recognize(image), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function terminateOcrPool(): Promise<void> {
+  if (!scheduler) return;
+  const pool = await scheduler.catch(() => null);
+  scheduler = undefined;
+  await pool?.terminate();
+}
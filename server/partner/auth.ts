@@ -0,0 +1,154 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import type { PartnerApp } from "@shared/schema";
+
+// Partner requests carry three headers:
+//   X-Partner-Key        the partner's API key
+//   X-Partner-Timestamp  unix time in seconds
+//   X-Partner-Signature  hex HMAC-SHA256 with the partner's secret over
+//                        "<timestamp>\n<METHOD>\n<path and query>\n<hex sha256 of the raw body>"
+// Requests more than five minutes off, or replaying a signature already seen, are refused.
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer; // set by express.json() so signatures cover the exact bytes sent
+  }
+}
+
+const SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// Requests per minute from one IP before the signature is checked, so unsigned
+// floods are turned away without a key lookup or HMAC for each
+const UNVERIFIED_RATE_LIMIT_PER_MINUTE = parseInt(process.env.PARTNER_IP_RATE_LIMIT_PER_MINUTE || '600', 10);
+
+export function createPartnerCredentials(): { apiKey: string; secret: string } {
+  return {
+    apiKey: `gkp_${randomBytes(16).toString('hex')}`,
+    secret: randomBytes(32).toString('hex')
+  };
+}
+
+export function signPartnerRequest(secret: string, timestamp: string, method: string, path: string, body: Buffer | string = ''): string {
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  return createHmac('sha256', secret)
+    .update(`${timestamp}\n${method.toUpperCase()}\n${path}\n${bodyHash}`)
+    .digest('hex');
+}
+
+// Signatures seen inside the skew window
+class ReplayGuard {
+  private seen: Map<string, number> = new Map();
+
+  claim(signature: string): boolean {
+    const now = Date.now();
+    this.seen.forEach((expiresAt, key) => {
+      if (expiresAt < now) this.seen.delete(key);
+    });
+
+    if (this.seen.has(signature)) return false;
+    this.seen.set(signature, now + 2 * SIGNATURE_MAX_SKEW_MS);
+    return true;
+  }
+}
+
+// Fixed one-minute window per key (a partner, or an IP before verification)
+class PartnerRateLimiter<TKey> {
+  private windows: Map<TKey, { startedAt: number; count: number }> = new Map();
+
+  hit(key: TKey, limit: number): { allowed: boolean; remaining: number; resetAt: number } {
+    const now = Date.now();
+    this.windows.forEach((window, windowKey) => {
+      if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) this.windows.delete(windowKey);
+    });
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(limit - window.count, 0),
+      resetAt: window.startedAt + RATE_LIMIT_WINDOW_MS
+    };
+  }
+}
+
+const replayGuard = new ReplayGuard();
+const rateLimiter = new PartnerRateLimiter<number>();
+const unverifiedRateLimiter = new PartnerRateLimiter<string>();
+
+function rejectRateLimited(res: Response, resetAt: number) {
+  res.set('Retry-After', Math.ceil((resetAt - Date.now()) / 1000).toString());
+  return res.status(429).json({ message: "Rate limit exceeded" });
+}
+
+function rejectUnsigned(res: Response, message: string) {
+  return res.status(401).json({ message });
+}
+
+// Authenticates a partner by API key and request signature; the partner is
+// left on res.locals.partner
+export async function requirePartnerSignature(req: Request, res: Response, next: NextFunction) {
+  const apiKey = req.get('X-Partner-Key');
+  const timestamp = req.get('X-Partner-Timestamp');
+  const signature = req.get('X-Partner-Signature');
+  if (!apiKey || !timestamp || !signature) {
+    return rejectUnsigned(res, "Missing partner credentials");
+  }
+
+  const sentAt = parseInt(timestamp, 10) * 1000;
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > SIGNATURE_MAX_SKEW_MS) {
+    return rejectUnsigned(res, "Request timestamp out of range");
+  }
+
+  try {
+    const partner = await storage.getPartnerAppByApiKey(apiKey);
+    if (!partner || !partner.isActive) {
+      return rejectUnsigned(res, "Unknown or revoked API key");
+    }
+
+    const expected = Buffer.from(signPartnerRequest(partner.secret, timestamp, req.method, req.originalUrl, req.rawBody), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(expected, actual)) {
+      return rejectUnsigned(res, "Invalid request signature");
+    }
+    if (!replayGuard.claim(signature)) {
+      return rejectUnsigned(res, "Request already processed");
+    }
+
+    res.locals.partner = partner;
+    storage.updatePartnerApp(partner.id, { lastUsedAt: new Date() }).catch((error) => {
+      console.error('Failed to record partner API use:', error);
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Runs before requirePartnerSignature: a per-IP ceiling on every request,
+// signed or not
+export function partnerIpRateLimit(req: Request, res: Response, next: NextFunction) {
+  const { allowed, resetAt } = unverifiedRateLimiter.hit(req.ip || 'unknown', UNVERIFIED_RATE_LIMIT_PER_MINUTE);
+  if (!allowed) {
+    return rejectRateLimited(res, resetAt);
+  }
+  next();
+}
+
+// Must run after requirePartnerSignature
+export function partnerRateLimit(req: Request, res: Response, next: NextFunction) {
+  const partner: PartnerApp = res.locals.partner;
+  const { allowed, remaining, resetAt } = rateLimiter.hit(partner.id, partner.rateLimitPerMinute);
+
+  res.set('X-RateLimit-Limit', partner.rateLimitPerMinute.toString());
+  res.set('X-RateLimit-Remaining', remaining.toString());
+  if (!allowed) {
+    return rejectRateLimited(res, resetAt);
+  }
+  next();
+}
@@ -0,0 +1,116 @@
+import { Router, type Express } from "express";
+import { z } from "zod";
+import { getChainAdapter } from "../blockchain/chains";
+import { createReadingHash, duplicateReadingError, findReadingUsage, readingCheckError, type ReadingUsage } from "../blockchain/chainAdapter";
+import { requirePartnerSignature, partnerIpRateLimit, partnerRateLimit } from "./auth";
+import { normalizeVehicleNumber } from "@shared/readingIdentity";
+import type { PartnerApp } from "@shared/schema";
+
+const registerReadingSchema = z.object({
+  vehicleNumber: z.string().trim().min(4).max(20),
+  odometerReading: z.number().int().nonnegative(),
+  appSignature: z.string().trim().min(1).max(100).optional() // e.g. their app version; defaults to the partner name
+});
+
+const checkReadingSchema = z.object({
+  odometerReading: z.coerce.number().int().nonnegative()
+});
+
+function originalClaim(usage: ReadingUsage) {
+  return usage.used ? { appSource: usage.appSource, claimedAt: usage.timestamp } : null;
+}
+
+// Signed, rate-limited /api/partner/* endpoints for other apps sharing the
+// cross-app fraud registry. Readings are claimed at the time they reach us,
+// the same as our own uploads, so a partner can't backdate one out of its bucket.
+export function registerPartnerRoutes(app: Express) {
+  const router = Router();
+
+  router.use(partnerIpRateLimit);
+  router.use(requirePartnerSignature);
+  router.use(partnerRateLimit);
+
+  // Claim a reading; 409 with the original claim if any app already has it
+  router.post('/readings', async (req, res) => {
+    try {
+      const partner: PartnerApp = res.locals.partner;
+      const { vehicleNumber, odometerReading, appSignature } = registerReadingSchema.parse(req.body);
+      const claimedAt = new Date();
+      const chain = getChainAdapter();
+
+      const usage = await findReadingUsage(chain, vehicleNumber, odometerReading, claimedAt);
+      if (usage.error) {
+        return res.status(503).json({ message: readingCheckError(usage) });
+      }
+      if (usage.used) {
+        return res.status(409).json({
+          message: duplicateReadingError(usage),
+          duplicate: true,
+          originalClaim: originalClaim(usage)
+        });
+      }
+
+      const registration = await chain.registerReading(
+        vehicleNumber,
+        odometerReading,
+        claimedAt,
+        appSignature ?? partner.name,
+        partner.name
+      );
+      if (!registration.success) {
+        return res.status(registration.duplicate ? 409 : 502).json({
+          message: registration.error ?? 'Registration failed',
+          duplicate: !!registration.duplicate
+        });
+      }
+
+      res.status(201).json({
+        reading: {
+          vehicleNumber: normalizeVehicleNumber(vehicleNumber),
+          odometerReading,
+          readingHash: createReadingHash(vehicleNumber, odometerReading, claimedAt),
+          claimedAt,
+          network: registration.network,
+          txHash: registration.txHash ?? null
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Check whether a reading for this vehicle has already been claimed
+  router.get('/readings/:vehicle', async (req, res) => {
+    try {
+      const { odometerReading } = checkReadingSchema.parse(req.query);
+      const vehicleNumber = req.params.vehicle;
+      const usage = await findReadingUsage(getChainAdapter(), vehicleNumber, odometerReading, new Date());
+      if (usage.error) {
+        return res.status(503).json({ message: readingCheckError(usage) });
+      }
+
+      res.json({
+        vehicleNumber: normalizeVehicleNumber(vehicleNumber),
+        odometerReading,
+        used: usage.used,
+        originalClaim: originalClaim(usage)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.use('/api/partner', router);
+}
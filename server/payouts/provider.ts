@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+
+export type PayoutMethod =
+  | { type: 'upi'; vpa: string }
+  | { type: 'bank'; accountNumber: string; ifsc: string };
+
+export interface AccountVerification {
+  valid: boolean;
+  accountHolderName?: string;
+  reason?: string;
+}
+
+export interface PayoutResult {
+  success: boolean;
+  providerReference?: string;
+  error?: string;
+}
+
+// Bank/UPI payout gateway (e.g. RazorpayX, Cashfree Payouts)
+export interface PayoutProvider {
+  name: string;
+  // Penny-drop / VPA lookup used as the KYC check for a payout method
+  verifyAccount(method: PayoutMethod, expectedName: string): Promise<AccountVerification>;
+  // withdrawalId is the idempotency key: a retry after an error must not pay twice
+  createPayout(request: {
+    withdrawalId: number;
+    amount: number;
+    method: PayoutMethod;
+  }): Promise<PayoutResult>;
+}
+
+const VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_NUMBER_PATTERN = /^[0-9]{9,18}$/;
+
+// Local stand-in - format checks only, every payout succeeds immediately
+export class MockPayoutProvider implements PayoutProvider {
+  name = 'mock';
+
+  async verifyAccount(method: PayoutMethod, expectedName: string): Promise<AccountVerification> {
+    if (method.type === 'upi') {
+      if (!VPA_PATTERN.test(method.vpa)) {
+        return { valid: false, reason: 'Invalid UPI ID' };
+      }
+    } else if (!ACCOUNT_NUMBER_PATTERN.test(method.accountNumber) || !IFSC_PATTERN.test(method.ifsc)) {
+      return { valid: false, reason: 'Invalid account number or IFSC' };
+    }
+
+    return { valid: true, accountHolderName: expectedName };
+  }
+
+  async createPayout(request: {
+    withdrawalId: number;
+    amount: number;
+    method: PayoutMethod;
+  }): Promise<PayoutResult> {
+    const reference = createHash('sha256')
+      .update(`${request.withdrawalId}-${request.amount}-${Date.now()}`)
+      .digest('hex')
+      .substring(0, 16);
+    console.log(`[Mock payout] ₹${request.amount} for withdrawal ${request.withdrawalId} via ${request.method.type}`);
+    return { success: true, providerReference: `mock_${reference}` };
+  }
+}
+
+const PAYOUT_PROVIDERS: Record<string, () => PayoutProvider> = {
+  mock: () => new MockPayoutProvider(),
+};
+
+export function registerPayoutProvider(name: string, factory: () => PayoutProvider): void {
+  PAYOUT_PROVIDERS[name] = factory;
+}
+
+// The mock marks withdrawals paid without sending any money, so it must never
+// handle production payouts
+export function getPayoutProvider(): PayoutProvider {
+  const providerName = process.env.PAYOUT_PROVIDER || 'mock';
+  if (providerName === 'mock' && process.env.NODE_ENV === 'production') {
+    throw new Error('PAYOUT_PROVIDER must name a real payout gateway in production');
+  }
+  const factory = PAYOUT_PROVIDERS[providerName];
+  if (!factory) {
+    throw new Error(`Unknown payout provider: ${providerName}`);
+  }
+  return factory();
+}
@@ -0,0 +1,185 @@
+import type { User, Withdrawal } from "@shared/schema";
+import { storage } from "../storage";
+import { walletAccount, PAYOUTS_ACCOUNT } from "../ledger";
+import { getPayoutProvider, type PayoutMethod, type PayoutResult } from "./provider";
+
+export const MIN_WITHDRAWAL_AMOUNT = 100; // rupees
+
+export class WithdrawalError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'WithdrawalError';
+  }
+}
+
+export function payoutMethodFor(user: User): PayoutMethod | null {
+  if (user.upiVpa) {
+    return { type: 'upi', vpa: user.upiVpa };
+  }
+  if (user.bankAccountNumber && user.bankIfsc) {
+    return { type: 'bank', accountNumber: user.bankAccountNumber, ifsc: user.bankIfsc };
+  }
+  return null;
+}
+
+export function maskVpa(vpa: string): string {
+  const [name, handle] = vpa.split('@');
+  return `${name.slice(0, 2)}***@${handle}`;
+}
+
+function maskDestination(method: PayoutMethod): string {
+  if (method.type === 'upi') {
+    return maskVpa(method.vpa);
+  }
+  return `${method.ifsc} ••••${method.accountNumber.slice(-4)}`;
+}
+
+// Withdrawal as shown to users and staff: the masked destination only
+export function presentWithdrawal(withdrawal: Withdrawal): Omit<Withdrawal, 'payoutDetails'> {
+  const { payoutDetails: _payoutDetails, ...visible } = withdrawal;
+  return visible;
+}
+
+// Verify a UPI id or bank account with the payout provider and store it on the profile.
+// A failed attempt to change details leaves an already verified method in place.
+export async function savePayoutMethod(user: User, method: PayoutMethod): Promise<User> {
+  const verification = await getPayoutProvider().verifyAccount(method, user.name);
+  if (!verification.valid) {
+    if (user.kycStatus !== 'verified') {
+      await storage.updateUserPayoutDetails(user.id, { kycStatus: 'rejected' });
+    }
+    throw new WithdrawalError(verification.reason || 'Payout account could not be verified');
+  }
+
+  const updated = await storage.updateUserPayoutDetails(user.id, {
+    upiVpa: method.type === 'upi' ? method.vpa : null,
+    bankAccountNumber: method.type === 'bank' ? method.accountNumber : null,
+    bankIfsc: method.type === 'bank' ? method.ifsc : null,
+    bankAccountName: verification.accountHolderName || null,
+    kycStatus: 'verified'
+  });
+  if (!updated) {
+    throw new WithdrawalError('User not found', 404);
+  }
+  return updated;
+}
+
+// Create a pending withdrawal and hold the amount by moving it out of the
+// wallet, in one step so parallel requests can't overdraw it
+export async function requestWithdrawal(user: User, amount: number): Promise<Withdrawal> {
+  const method = payoutMethodFor(user);
+  if (!method || user.kycStatus !== 'verified') {
+    throw new WithdrawalError('Add and verify a UPI ID or bank account before withdrawing');
+  }
+
+  if (amount < MIN_WITHDRAWAL_AMOUNT) {
+    throw new WithdrawalError(`Minimum withdrawal is ₹${MIN_WITHDRAWAL_AMOUNT}`);
+  }
+
+  const withdrawal = await storage.createWithdrawalWithHold({
+    userId: user.id,
+    vehicleNumber: user.vehicleNumber,
+    amount,
+    method: method.type,
+    destination: maskDestination(method),
+    // Paid to on approval, even if the profile's details change meanwhile
+    payoutDetails: JSON.stringify(method),
+    status: 'pending'
+  }, (created) => ({
+    debitAccount: walletAccount(user.vehicleNumber),
+    creditAccount: PAYOUTS_ACCOUNT,
+    amount,
+    entryType: 'withdrawal',
+    referenceId: created.id.toString(),
+    idempotencyKey: `withdrawal:${created.id}`,
+    memo: `Withdrawal to ${created.destination}`
+  }));
+  if (!withdrawal) {
+    throw new WithdrawalError('Insufficient wallet balance');
+  }
+
+  return withdrawal;
+}
+
+// Return held funds to the wallet and mark the withdrawal failed
+async function failWithdrawal(withdrawal: Withdrawal, reason: string): Promise<Withdrawal> {
+  await refundWithdrawal(withdrawal, reason);
+  const updated = await storage.updateWithdrawal(withdrawal.id, {
+    status: 'failed',
+    failureReason: reason
+  });
+  return updated!;
+}
+
+// Reversal of the hold; the idempotency key makes a repeat a no-op
+async function refundWithdrawal(withdrawal: Withdrawal, reason: string): Promise<void> {
+  await storage.postLedgerEntry({
+    debitAccount: PAYOUTS_ACCOUNT,
+    creditAccount: walletAccount(withdrawal.vehicleNumber),
+    amount: withdrawal.amount,
+    entryType: 'reversal',
+    referenceId: withdrawal.id.toString(),
+    idempotencyKey: `withdrawal-reversal:${withdrawal.id}`,
+    memo: reason
+  });
+}
+
+// Move a pending withdrawal on in one conditional update, so of two
+// concurrent approvals (or an approval and a rejection) only one proceeds
+async function claimPendingWithdrawal(id: number, update: Parameters<typeof storage.transitionWithdrawal>[2]): Promise<Withdrawal> {
+  const claimed = await storage.transitionWithdrawal(id, 'pending', update);
+  if (claimed) return claimed;
+
+  const withdrawal = await storage.getWithdrawal(id);
+  if (!withdrawal) {
+    throw new WithdrawalError('Withdrawal not found', 404);
+  }
+  throw new WithdrawalError(`Withdrawal is already ${withdrawal.status}`, 409);
+}
+
+// Approve a pending withdrawal and send it to the payout provider
+export async function approveWithdrawal(id: number): Promise<Withdrawal> {
+  const withdrawal = await claimPendingWithdrawal(id, { status: 'approved' });
+
+  // Requests from before destinations were recorded have nothing safe to pay to
+  if (!withdrawal.payoutDetails) {
+    return await failWithdrawal(withdrawal, 'Payout account was not recorded with this request - please request again');
+  }
+  const method: PayoutMethod = JSON.parse(withdrawal.payoutDetails);
+
+  let result: PayoutResult;
+  try {
+    result = await getPayoutProvider().createPayout({
+      withdrawalId: withdrawal.id,
+      amount: withdrawal.amount,
+      method
+    });
+  } catch (error) {
+    // The provider may or may not have taken the payout, so the hold stays and
+    // the withdrawal goes back to pending; approving again is safe because
+    // providers dedupe on the withdrawal id
+    console.error(`Payout for withdrawal ${id} failed:`, error);
+    await storage.transitionWithdrawal(id, 'approved', {
+      status: 'pending',
+      failureReason: error instanceof Error ? error.message : 'Payout provider unavailable'
+    });
+    throw new WithdrawalError('Payout provider unavailable - the withdrawal is pending again, try approving later', 502);
+  }
+
+  if (!result.success) {
+    return await failWithdrawal(withdrawal, result.error || 'Payout failed');
+  }
+
+  const updated = await storage.updateWithdrawal(id, {
+    status: 'paid',
+    providerReference: result.providerReference || null,
+    failureReason: null
+  });
+  return updated!;
+}
+
+export async function rejectWithdrawal(id: number, reason: string): Promise<Withdrawal> {
+  const withdrawal = await claimPendingWithdrawal(id, { status: 'failed', failureReason: reason });
+  await refundWithdrawal(withdrawal, reason);
+  return withdrawal;
+}
@@ -0,0 +1,107 @@
+import type { FraudSignal, Reward, User } from "@shared/schema";
+import { storage, type RewardReview } from "../storage";
+import { creditReward } from "../ledger";
+import { validateLocationAccuracy } from "../utils/crypto";
+
+export class ReviewError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export function parseFraudSignals(fraudSignals: string | null): FraudSignal[] {
+  if (!fraudSignals) return [];
+  try {
+    const parsed = JSON.parse(fraudSignals);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Move a pending reading to its decision in one conditional update, so of two
+// reviewers deciding at once only one gets the reading back
+async function claimPendingReward(id: number, review: RewardReview): Promise<Reward> {
+  const claimed = await storage.transitionReward(id, 'pending', review);
+  if (claimed) return claimed;
+
+  const reward = await storage.getReward(id);
+  if (!reward) {
+    throw new ReviewError('Reading not found', 404);
+  }
+  throw new ReviewError(`Reading is already ${reward.validationStatus}`, 409);
+}
+
+// Approve a queued reading: add it to the vehicle's chain, then credit the wallet
+export async function approveReward(id: number, reviewer: User, note?: string): Promise<Reward> {
+  const reward = await claimPendingReward(id, {
+    validationStatus: 'approved',
+    reviewedBy: reviewer.id,
+    reviewNote: note || null,
+    reviewedAt: new Date()
+  });
+
+  let blockHash: string;
+  try {
+    blockHash = await storage.recordOdometerReading(reward.vehicleNumber, reward.km, {
+      imageHash: reward.imageHash || '',
+      location: reward.location || '',
+      validationProof: {
+        ocrConfidence: reward.ocrConfidence ?? 0,
+        locationAccuracy: validateLocationAccuracy(reward.location || '{}'),
+        timeStamp: reward.timestamp,
+        deviceFingerprint: reward.deviceFingerprint || '',
+        imageMetadata: JSON.stringify({ reviewedBy: reviewer.id })
+      }
+    });
+  } catch (error) {
+    // Back in the queue so the review can be retried
+    await storage.transitionReward(id, 'approved', {
+      validationStatus: 'pending',
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null
+    });
+    throw error;
+  }
+
+  const approved = await storage.updateReward(id, { blockHash });
+  await creditReward(approved!);
+  return approved!;
+}
+
+export async function rejectReward(id: number, reviewer: User, note: string): Promise<Reward> {
+  return await claimPendingReward(id, {
+    validationStatus: 'rejected',
+    reviewedBy: reviewer.id,
+    reviewNote: note,
+    reviewedAt: new Date()
+  });
+}
+
+const LEGACY_APPROVAL_MIGRATION = 'approve-pre-review-rewards';
+
+// Rewards recorded before the review queue were paid immediately but kept
+// the column default of 'pending'. Queued readings always carry fraud signals,
+// but a reading the fraud checks never reached would match too, so this runs
+// once - against the rewards that existed when the queue shipped - and records
+// that it ran.
+export async function approveLegacyRewards(): Promise<void> {
+  if (await storage.getMaintenanceRun(LEGACY_APPROVAL_MIGRATION)) return;
+
+  const pending = await storage.getRewardsByStatus('pending');
+  const legacy = pending.filter(reward => reward.fraudSignals === null);
+
+  for (const reward of legacy) {
+    await storage.updateReward(reward.id, { validationStatus: 'approved' });
+  }
+
+  await storage.createMaintenanceRun({
+    name: LEGACY_APPROVAL_MIGRATION,
+    details: JSON.stringify({ approved: legacy.map(reward => reward.id) })
+  });
+  if (legacy.length > 0) {
+    console.log(`Marked ${legacy.length} pre-review rewards as approved`);
+  }
+}
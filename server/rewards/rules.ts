@@ -0,0 +1,93 @@
+import type { RewardRule } from '@shared/schema';
+
+export interface Promotion {
+  name: string;
+  multiplier: number;
+  startsAt: string; // ISO date, inclusive
+  endsAt: string; // ISO date, exclusive
+}
+
+export interface RewardInput {
+  previousKm: number | null; // null on a vehicle's first reading
+  currentKm: number;
+  monthToDateReward: number; // rupees credited or awaiting review this calendar month
+  at: Date;
+}
+
+export interface RewardCalculation {
+  ruleVersion: number;
+  kmCredited: number;
+  co2Saved: number;
+  rewardAmount: number;
+  multiplier: number;
+  appliedPromotions: string[];
+  capped: boolean;
+}
+
+// Built-in rule used until one is stored in the database
+export const DEFAULT_REWARD_RULE: RewardRule = {
+  id: 0,
+  version: 1,
+  vehicleClass: 'default',
+  emissionFactorKgPerKm: 0.12, // 120g CO2 per km saved
+  rupeesPerKg: 2, // ₹2 per kg CO2
+  monthlyCapRupees: null,
+  firstReadingPolicy: 'baseline',
+  firstReadingKm: 0,
+  promotions: '[]',
+  isActive: true,
+  createdAt: new Date(0),
+};
+
+export function parsePromotions(promotions: string): Promotion[] {
+  try {
+    const parsed = JSON.parse(promotions);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function roundToPaise(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Pure reward calculation - same rule and input always give the same payout
+export function evaluateReward(rule: RewardRule, input: RewardInput): RewardCalculation {
+  let kmCredited: number;
+  if (input.previousKm === null) {
+    // First reading only establishes the baseline unless the rule credits a fixed distance
+    kmCredited = rule.firstReadingPolicy === 'fixed_km' ? (rule.firstReadingKm ?? 0) : 0;
+  } else {
+    kmCredited = Math.max(input.currentKm - input.previousKm, 0);
+  }
+
+  const co2Saved = kmCredited * rule.emissionFactorKgPerKm;
+
+  const activePromotions = parsePromotions(rule.promotions).filter(promo => {
+    const at = input.at.getTime();
+    return at >= new Date(promo.startsAt).getTime() && at < new Date(promo.endsAt).getTime();
+  });
+  const multiplier = activePromotions.reduce((product, promo) => product * promo.multiplier, 1);
+
+  let rewardAmount = co2Saved * rule.rupeesPerKg * multiplier;
+  let capped = false;
+
+  if (rule.monthlyCapRupees !== null) {
+    const remaining = Math.max(rule.monthlyCapRupees - input.monthToDateReward, 0);
+    if (rewardAmount > remaining) {
+      rewardAmount = remaining;
+      capped = true;
+    }
+  }
+
+  return {
+    ruleVersion: rule.version,
+    kmCredited,
+    co2Saved: roundToPaise(co2Saved),
+    rewardAmount: roundToPaise(rewardAmount),
+    multiplier,
+    appliedPromotions: activePromotions.map(promo => promo.name),
+    capped
+  };
+}
@@ -1,16 +1,65 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertRewardSchema } from "@shared/schema";
+import { insertUserSchema, uploadOdometerSchema, type User } from "@shared/schema";
 import { z } from "zod";
 import { generateImageHash, generateDeviceFingerprint, extractImageMetadata, validateLocationAccuracy } from "./utils/crypto";
-import { publicBlockchain } from "./blockchain/publicChain";
+import { getChainAdapter } from "./blockchain/chains";
+import { duplicateReadingError, findReadingUsage, readingCheckError } from "./blockchain/chainAdapter";
+import { enqueueAnchor, getReadingInclusion, reserveReading } from "./blockchain/anchorQueue";
+import { createProofBundle } from "./blockchain/proofBundle";
+import { getSigningKeys } from "./blockchain/signingKey";
+import { setupAuth, requireAuth } from "./auth";
+import { registerAdminRoutes, getProgramStats } from "./admin";
+import { registerPartnerRoutes } from "./partner/routes";
+import { normalizePhone } from "./utils/phone";
+import { evaluateReward } from "./rewards/rules";
+import { creditReward, walletAccount } from "./ledger";
+import { getSuspensionStatus, submitAppeal, AppealError } from "./suspensions/appeals";
+import { verifyOdometerImage } from "./ocr/verification";
+import { savePayoutMethod, requestWithdrawal, presentWithdrawal, WithdrawalError, MIN_WITHDRAWAL_AMOUNT } from "./payouts/withdrawals";
+
+const payoutMethodSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("upi"), vpa: z.string().trim().min(3) }),
+  z.object({
+    type: z.literal("bank"),
+    accountNumber: z.string().trim().min(9),
+    ifsc: z.string().trim().toUpperCase().length(11),
+  }),
+]);
+
+const withdrawalRequestSchema = z.object({
+  amount: z.number().positive(),
+});
+
+// Size the camera preview was shown at, so server OCR crops to the same scan frame
+const scanViewSchema = z.object({
+  width: z.number().positive().max(10000),
+  height: z.number().positive().max(10000),
+});
+
+const appealSchema = z.object({
+  message: z.string().trim().min(10).max(2000),
+  photoUrl: z.string().startsWith("data:image/"),
+});
+
+function publicProfile(user: User) {
+  return {
+    vehicleNumber: user.vehicleNumber,
+    vehicleClass: user.vehicleClass,
+    registeredAt: user.registeredAt,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session, passport and /api/auth/* OTP login routes
+  setupAuth(app);
+
   // User registration
   app.post("/api/register", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const parsed = insertUserSchema.parse(req.body);
+      const userData = { ...parsed, phone: normalizePhone(parsed.phone) };
       
       // Check if vehicle number already exists
       const existingUser = await storage.getUserByVehicleNumber(userData.vehicleNumber);
@@ -19,6 +68,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: "Vehicle number already registered" 
         });
       }
+
+      // OTP login finds the account by phone, so each phone has one account
+      if (await storage.getUserByPhone(userData.phone)) {
+        return res.status(400).json({
+          message: "Phone number already registered"
+        });
+      }
       
       const user = await storage.createUser(userData);
       res.json({ user });
@@ -34,16 +90,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload odometer reading with blockchain validation
-  app.post("/api/upload-odometer", async (req, res) => {
+  app.post("/api/upload-odometer", requireAuth, async (req, res) => {
     try {
-      const rewardData = insertRewardSchema.parse(req.body);
-      const { imageData, location, ocrConfidence } = req.body;
-      
-      // Verify vehicle exists
-      const user = await storage.getUserByVehicleNumber(rewardData.vehicleNumber);
-      if (!user) {
-        return res.status(404).json({ 
-          message: "Vehicle not found" 
+      const user = req.user!;
+      // The vehicle always comes from the session, never from the request body
+      const rewardData = { ...uploadOdometerSchema.parse(req.body), vehicleNumber: user.vehicleNumber };
+      const { imageData } = req.body;
+      const location = rewardData.location;
+
+      // Suspended vehicles can't earn until an admin reinstates them
+      if (await storage.getSuspension(rewardData.vehicleNumber)) {
+        return res.status(403).json({
+          message: "Your vehicle is suspended after repeated fraud alerts. You can appeal from the upload page.",
+          suspended: true
+        });
+      }
+
+      // Readings are sequential - wait for a queued reading to be decided first
+      const lastReward = await storage.getLastRewardByVehicleNumber(rewardData.vehicleNumber);
+      if (lastReward?.validationStatus === 'pending') {
+        return res.status(409).json({
+          message: "Your previous reading is awaiting review. Please try again once it has been checked.",
+          pendingReview: true
+        });
+      }
+
+      // Check for duplicate readings (prevent gaming)
+      if (lastReward && rewardData.km <= lastReward.km) {
+        return res.status(400).json({ 
+          message: "Invalid odometer reading. Must be greater than last reading." 
         });
       }
 
@@ -56,8 +131,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const imageMetadata = extractImageMetadata(imageData || '');
       const locationAccuracy = validateLocationAccuracy(location || '{}');
 
+      // Re-read the photo rather than trusting the client's OCR; its
+      // confidence is only used when the server didn't find a reading itself
+      const scanView = scanViewSchema.safeParse(req.body.scanView);
+      const serverOcr = await verifyOdometerImage(
+        imageData || rewardData.odometerImageUrl,
+        rewardData.km,
+        scanView.success ? scanView.data : undefined
+      );
+
       const validationProof = {
-        ocrConfidence: parseFloat(ocrConfidence || '0.8'),
+        ocrConfidence: serverOcr && serverOcr.reading !== null ? serverOcr.confidence : rewardData.ocrConfidence ?? 0.8,
         locationAccuracy,
         timeStamp: new Date(),
         deviceFingerprint,
@@ -67,33 +151,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validationData = {
         imageHash,
         location: location || '',
-        validationProof
+        validationProof,
+        serverOcr
       };
 
-      // Public blockchain fraud prevention check
-      const publicChainResult = await publicBlockchain.registerReading(
-        rewardData.vehicleNumber,
-        rewardData.km,
-        new Date(),
-        'GreenKarma-v1.0'
-      );
+      // Cross-app fraud prevention check on the configured chain; the
+      // registration itself is queued once the reward exists
+      const readingTimestamp = new Date();
+      const chain = getChainAdapter();
+      const chainUsage = await findReadingUsage(chain, rewardData.vehicleNumber, rewardData.km, readingTimestamp);
 
-      if (!publicChainResult.success) {
+      if (chainUsage.error) {
+        return res.status(503).json({ message: readingCheckError(chainUsage) + " - please try again" });
+      }
+      if (chainUsage.used) {
         return res.status(400).json({ 
-          message: "Cross-app fraud detected: " + publicChainResult.error,
+          message: "Cross-app fraud detected: " + duplicateReadingError(chainUsage),
           fraudAlert: true,
-          crossAppDuplicate: true
+          crossAppDuplicate: true,
+          originalClaim: {
+            appSource: chainUsage.appSource,
+            claimedAt: chainUsage.timestamp
+          }
         });
       }
 
-      // Local blockchain validation
+      // Local blockchain fraud checks; the reading joins the chain only once
+      // nothing below can refuse the upload
       const blockchainResult = await storage.validateOdometerReading(
         rewardData.vehicleNumber,
         rewardData.km,
         validationData
       );
 
-      if (!blockchainResult.isValid) {
+      if (blockchainResult.status === 'rejected') {
         return res.status(400).json({ 
           message: "Fraud detected: " + blockchainResult.fraudAlert,
           fraudAlert: true,
@@ -101,41 +192,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Check for duplicate readings (prevent gaming)
-      const lastReward = await storage.getLastRewardByVehicleNumber(rewardData.vehicleNumber);
-      if (lastReward && rewardData.km <= lastReward.km) {
-        return res.status(400).json({ 
-          message: "Invalid odometer reading. Must be greater than last reading." 
+      // Calculate CO2 saved and reward from the active rule for this vehicle class
+      const rule = await storage.getActiveRewardRule(user.vehicleClass);
+      // Readings awaiting review count towards the cap, or approving them
+      // later would take the month past it
+      const { monthlyReward, monthlyPendingReward } = await storage.getTotalRewardsByVehicleNumber(rewardData.vehicleNumber);
+      const calculation = evaluateReward(rule, {
+        previousKm: lastReward ? lastReward.km : null,
+        currentKm: rewardData.km,
+        monthToDateReward: monthlyReward + monthlyPendingReward,
+        at: new Date()
+      });
+      
+      const needsReview = blockchainResult.status === 'review';
+
+      // Claim the reading now so a concurrent upload or partner can't take it
+      // while it waits for its batch
+      const reservation = await reserveReading(rewardData.vehicleNumber, rewardData.km, readingTimestamp);
+      if (reservation.used) {
+        return res.status(400).json({
+          message: "Cross-app fraud detected: " + duplicateReadingError(reservation),
+          fraudAlert: true,
+          crossAppDuplicate: true,
+          originalClaim: {
+            appSource: reservation.appSource,
+            claimedAt: reservation.timestamp
+          }
         });
       }
-      
-      // Calculate CO2 saved and reward
-      const kmDiff = lastReward ? rewardData.km - lastReward.km : 100;
-      const co2Saved = kmDiff * 0.12; // 120g CO2 per km saved
-      const rewardAmount = co2Saved * 2; // ₹2 per kg CO2
-      
+
+      // Readings held for review are added by the reviewer's approval
+      const blockHash = needsReview
+        ? null
+        : await storage.recordOdometerReading(rewardData.vehicleNumber, rewardData.km, validationData);
+
       // Create reward with blockchain data
       const reward = await storage.createReward({
         ...rewardData,
-        co2Saved,
-        rewardGiven: rewardAmount,
-        txHash: publicChainResult.txHash || `0x${Math.random().toString(16).substr(2, 40)}`,
-        blockHash: blockchainResult.blockHash,
+        ocrConfidence: validationProof.ocrConfidence,
+        co2Saved: calculation.co2Saved,
+        rewardGiven: calculation.rewardAmount,
+        ruleVersion: calculation.ruleVersion,
+        anchorStatus: 'queued',
+        blockHash,
         deviceFingerprint,
         imageHash,
-        fraudScore: 0, // Valid reading gets 0 fraud score
+        validationStatus: needsReview ? 'pending' : 'approved',
+        fraudScore: blockchainResult.fraudScore,
+        fraudSignals: JSON.stringify(blockchainResult.fraudSignals),
+        serverOcrKm: serverOcr?.reading ?? null,
+        serverOcrConfidence: serverOcr?.confidence ?? null,
+        ocrDiscrepancyKm: serverOcr?.discrepancyKm ?? null,
       });
+      await enqueueAnchor(reward, readingTimestamp);
+
+      if (needsReview) {
+        // Credited by the reviewer's approval instead
+        return res.status(202).json({
+          reward,
+          rewardCalculation: calculation,
+          underReview: true,
+          message: "Your reading has been sent for manual review."
+        });
+      }
+
+      // Credit the wallet through the ledger
+      await creditReward(reward);
       
       res.json({ 
         reward,
+        rewardCalculation: calculation,
         blockchain: {
-          network: 'Polygon Mumbai Testnet (Free)',
-          txHash: publicChainResult.txHash,
-          explorerUrl: `https://mumbai.polygonscan.com/tx/${publicChainResult.txHash}`,
-          verified: true,
+          network: chain.networkName,
+          anchorStatus: reward.anchorStatus,
           crossAppProtected: true,
-          cost: '$0.00',
-          fraudScore: 0
+          fraudScore: blockchainResult.fraudScore
         }
       });
     } catch (error) {
@@ -149,22 +280,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get user wallet data
-  app.get("/api/wallet/:vehicleNumber", async (req, res) => {
+  // Whether the logged-in user's vehicle is suspended, why, and their appeal
+  app.get("/api/suspension", requireAuth, async (req, res) => {
     try {
-      const { vehicleNumber } = req.params;
-      
-      console.log('Getting wallet data for vehicle:', vehicleNumber);
-      const user = await storage.getUserByVehicleNumber(vehicleNumber);
-      console.log('User found:', user);
-      
-      if (!user) {
-        return res.status(404).json({ 
-          message: "Vehicle not found" 
+      res.json(await getSuspensionStatus(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/appeals", requireAuth, async (req, res) => {
+    try {
+      const { message, photoUrl } = appealSchema.parse(req.body);
+      const appeal = await submitAppeal(req.user!, message, photoUrl);
+      res.status(201).json({ appeal });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
         });
       }
-      
-      const totals = await storage.getTotalRewardsByVehicleNumber(vehicleNumber);
+      if (error instanceof AppealError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get logged-in user's wallet data
+  app.get("/api/wallet", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const totals = await storage.getTotalRewardsByVehicleNumber(user.vehicleNumber);
       
       res.json({
         user,
@@ -172,24 +320,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error('Wallet API error:', error);
-      res.status(500).json({ message: "Internal server error", details: error.message });
+      res.status(500).json({ 
+        message: "Internal server error", 
+        details: error instanceof Error ? error.message : 'Unknown error' 
+      });
     }
   });
 
-  // Get reward history
-  app.get("/api/reward-history/:vehicleNumber", async (req, res) => {
+  // Get logged-in user's ledger entries (rewards, withdrawals, adjustments)
+  app.get("/api/wallet/transactions", requireAuth, async (req, res) => {
     try {
-      const { vehicleNumber } = req.params;
-      
-      const rewards = await storage.getRewardsByVehicleNumber(vehicleNumber);
+      const account = walletAccount(req.user!.vehicleNumber);
+      const entries = await storage.getLedgerEntriesByAccount(account);
+      res.json({ account, entries });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Save and KYC-check the logged-in user's payout UPI id or bank account
+  app.put("/api/profile/payout-method", requireAuth, async (req, res) => {
+    try {
+      const method = payoutMethodSchema.parse(req.body);
+      const user = await savePayoutMethod(req.user!, method);
+      res.json({ user });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof WithdrawalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Logged-in user's withdrawals
+  app.get("/api/withdrawals", requireAuth, async (req, res) => {
+    try {
+      const withdrawals = await storage.getWithdrawalsByUserId(req.user!.id);
+      res.json({ withdrawals: withdrawals.map(presentWithdrawal), minimumAmount: MIN_WITHDRAWAL_AMOUNT });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/withdrawals", requireAuth, async (req, res) => {
+    try {
+      const { amount } = withdrawalRequestSchema.parse(req.body);
+      const withdrawal = await requestWithdrawal(req.user!, amount);
+      res.json({ withdrawal: presentWithdrawal(withdrawal) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof WithdrawalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get logged-in user's reward history
+  app.get("/api/reward-history", requireAuth, async (req, res) => {
+    try {
+      const rewards = await storage.getRewardsByVehicleNumber(req.user!.vehicleNumber);
       res.json({ rewards });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get user by vehicle number
-  app.get("/api/user/:vehicleNumber", async (req, res) => {
+  // Get user by vehicle number. The full row (phone, payout details, role)
+  // is only for the vehicle's owner and admins; anyone else gets the
+  // public profile.
+  app.get("/api/user/:vehicleNumber", requireAuth, async (req, res) => {
     try {
       const { vehicleNumber } = req.params;
       
@@ -200,60 +411,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      res.json({ user });
-    } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
-    }
-  });
-
-  // Admin endpoint to check public blockchain network status
-  app.get("/api/admin/blockchain-status", async (req, res) => {
-    try {
-      const networkStatus = publicBlockchain.getNetworkStatus();
-      res.json({ networkStatus });
+      const viewer = req.user!;
+      if (viewer.id === user.id || viewer.role === 'admin') {
+        return res.json({ user });
+      }
+      res.json({ user: publicProfile(user) });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Verify a transaction on public blockchain
+  // Verify a transaction on the configured chain. With ?rewardId= the reading's
+  // Merkle proof is also checked against the root that transaction anchored.
   app.get("/api/verify-transaction/:txHash", async (req, res) => {
     try {
       const { txHash } = req.params;
-      const verification = await publicBlockchain.verifyTransaction(txHash);
-      res.json(verification);
+      const verification = await getChainAdapter().verifyTransaction(txHash);
+      if (req.query.rewardId === undefined) {
+        return res.json(verification);
+      }
+
+      const rewardId = parseInt(String(req.query.rewardId), 10);
+      const inclusion = Number.isNaN(rewardId) ? null : await getReadingInclusion(rewardId);
+      if (!inclusion || inclusion.txHash !== txHash) {
+        return res.status(404).json({ message: "Reading not anchored in this transaction" });
+      }
+
+      res.json({
+        ...verification,
+        verified: verification.verified && inclusion.included,
+        reading: inclusion
+      });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Admin endpoints for dashboard data
-  app.get('/api/admin/users', async (req, res) => {
+  // Every key that has sealed blocks or signed proof bundles, retired ones included
+  app.get("/api/signing-keys", (req, res) => {
+    res.json({ keys: getSigningKeys() });
+  });
+
+  // Public, signed proof bundle for one reading (?download=1 to save as a file)
+  app.get("/api/proofs/:proofId", async (req, res) => {
     try {
-      const users = await storage.getUsers();
-      res.json(users.sort((a, b) => new Date(b.registeredAt).getTime() - new Date(a.registeredAt).getTime()));
+      const proof = await createProofBundle(req.params.proofId);
+      if (!proof) {
+        return res.status(404).json({ message: "Reading not found" });
+      }
+
+      if (req.query.download !== undefined) {
+        res.attachment(`greenkarma-proof-${proof.bundle.proofId}.json`);
+      }
+      res.json(proof);
     } catch (error) {
-      res.status(500).json({ 
-        message: 'Failed to fetch users',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get('/api/admin/stats', async (req, res) => {
+  // Public program-wide totals for the landing page (no per-user data)
+  app.get('/api/stats', async (req, res) => {
     try {
-      const users = await storage.getUsers();
-      const rewards = await storage.getRewards();
-      
-      const stats = {
-        totalUsers: users.length,
-        totalRewards: rewards.reduce((sum, r) => sum + r.rewardGiven, 0),
-        totalCO2Saved: rewards.reduce((sum, r) => sum + r.co2Saved, 0),
-        totalDistanceCovered: rewards.reduce((sum, r) => sum + r.km, 0),
-        totalReadings: rewards.length
-      };
-      
-      res.json(stats);
+      res.json(await getProgramStats());
     } catch (error) {
       res.status(500).json({ 
         message: 'Failed to fetch stats',
@@ -262,21 +481,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/admin/recent-rewards', async (req, res) => {
+  // Which chain readings are registered on, for the dashboard. Connection
+  // details stay on the admin endpoint.
+  app.get('/api/blockchain/status', async (req, res) => {
     try {
-      const rewards = await storage.getRewards();
-      const recentRewards = rewards
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 10);
-      res.json(recentRewards);
+      const { adapter, network, connected, isTestnet } = await getChainAdapter().getNetworkStatus();
+      // Only the EVM adapter sends transactions; the others record readings off chain
+      const transactionCost = adapter !== 'evm' ? 'none' : isTestnet ? 'testnet' : 'gas';
+      res.json({ network, connected, isTestnet, transactionCost });
     } catch (error) {
-      res.status(500).json({ 
-        message: 'Failed to fetch recent rewards',
+      res.status(500).json({
+        message: 'Failed to fetch blockchain status',
         error: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
+  // Role-guarded, audited /api/admin/* endpoints
+  registerAdminRoutes(app);
+
+  // HMAC-signed /api/partner/* endpoints for other apps sharing the fraud registry
+  registerPartnerRoutes(app);
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,36 @@
+// Outbound SMS delivery used for login OTPs
+export interface SmsSender {
+  name: string;
+  send(phone: string, message: string): Promise<void>;
+}
+
+// Local stub - prints messages to the server console instead of sending them
+export class ConsoleSmsSender implements SmsSender {
+  name = 'console';
+
+  async send(phone: string, message: string): Promise<void> {
+    console.log(`[SMS to ${phone}] ${message}`);
+  }
+}
+
+const SMS_SENDERS: Record<string, () => SmsSender> = {
+  console: () => new ConsoleSmsSender(),
+};
+
+export function registerSmsSender(name: string, factory: () => SmsSender): void {
+  SMS_SENDERS[name] = factory;
+}
+
+// The console stub would write login codes to the logs and text nobody, so
+// production needs a real provider
+export function getSmsSender(): SmsSender {
+  const providerName = process.env.SMS_PROVIDER || 'console';
+  if (providerName === 'console' && process.env.NODE_ENV === 'production') {
+    throw new Error('SMS_PROVIDER must name a real SMS gateway in production');
+  }
+  const factory = SMS_SENDERS[providerName];
+  if (!factory) {
+    throw new Error(`Unknown SMS provider: ${providerName}`);
+  }
+  return factory();
+}
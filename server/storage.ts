@@ -1,32 +1,128 @@
-import { users, rewards, blockchainRegistry, globalFraudDatabase, type User, type InsertUser, type Reward, type InsertReward } from "@shared/schema";
-import { db } from './db';
-import { eq } from 'drizzle-orm';
-import { blockchainRegistry as blockchain } from './blockchain';
+import { users, rewards, blockchainRegistry, globalFraudDatabase, adminAuditLog, rewardRules, ledgerEntries, withdrawals, anchorJobs, anchorBatches, partnerApps, signingKeys, chainAudits, maintenanceRuns, adminAlerts, appeals, type User, type InsertUser, type Reward, type InsertReward, type BlockchainRecord, type UserRole, type AdminAuditLog, type InsertAdminAuditLog, type RewardRule, type InsertRewardRule, type LedgerEntry, type InsertLedgerEntry, type Withdrawal, type InsertWithdrawal, type WithdrawalStatus, type RewardStatus, type AnchorJob, type InsertAnchorJob, type AnchorBatch, type InsertAnchorBatch, type GlobalFraudEntry, type PartnerApp, type InsertPartnerApp, type SigningKey, type InsertSigningKey, type ChainAudit, type InsertChainAudit, type MaintenanceRun, type InsertMaintenanceRun, type AdminAlert, type InsertAdminAlert, type Appeal, type InsertAppeal } from "@shared/schema";
+import { randomUUID } from 'crypto';
+import { db, pool } from './db';
+import { eq, ne, lte, asc, desc, sql, and, or, inArray, isNull } from 'drizzle-orm';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import connectPg from 'connect-pg-simple';
+import { blockchainRegistry as blockchain, type ReadingResult, type Reinstatement, type Suspension } from './blockchain';
+import { normalizePhone } from './utils/phone';
+import { DEFAULT_REWARD_RULE } from './rewards/rules';
+import { walletAccount, accountBalance, rewardsCreditedSince, pendingRewardsSince } from './ledger';
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export type PayoutDetails = Partial<Pick<User, 'upiVpa' | 'bankAccountNumber' | 'bankIfsc' | 'bankAccountName' | 'kycStatus'>>;
+export type RewardReview = Partial<Pick<Reward, 'validationStatus' | 'blockHash' | 'reviewedBy' | 'reviewNote' | 'reviewedAt'>>;
+export type RewardAnchor = Pick<Reward, 'anchorStatus'> & Partial<Pick<Reward, 'txHash'>>;
+export type AppealReview = Partial<Pick<Appeal, 'status' | 'reviewedBy' | 'reviewNote' | 'reviewedAt'>>;
+export type AnchorJobUpdate = Partial<Pick<AnchorJob, 'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'batchId' | 'leafIndex' | 'merkleProof' | 'completedAt'>>;
+
+export interface AnchorQueueStats {
+  queued: number;
+  failed: number;
+  oldestQueuedAt: Date | null;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByVehicleNumber(vehicleNumber: string): Promise<User | undefined>;
+  getUserByPhone(phone: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPayoutDetails(id: number, details: PayoutDetails): Promise<User | undefined>;
   
   // Reward operations
   getRewardsByVehicleNumber(vehicleNumber: string): Promise<Reward[]>;
   getLastRewardByVehicleNumber(vehicleNumber: string): Promise<Reward | undefined>;
+  getReward(id: number): Promise<Reward | undefined>;
+  getRewardByProofId(proofId: string): Promise<Reward | undefined>;
+  getRewardsByStatus(status: string): Promise<Reward[]>;
   createReward(reward: InsertReward): Promise<Reward>;
+  updateReward(id: number, review: RewardReview): Promise<Reward | undefined>;
+  // Apply the review only if the reward is still `from` (undefined otherwise)
+  transitionReward(id: number, from: RewardStatus, review: RewardReview): Promise<Reward | undefined>;
+  updateRewardAnchor(id: number, anchor: RewardAnchor): Promise<Reward | undefined>;
   getTotalRewardsByVehicleNumber(vehicleNumber: string): Promise<{
     totalBalance: number;
     totalCo2Saved: number;
     monthlyReward: number;
+    monthlyPendingReward: number; // this month's readings still awaiting review
     totalDistance: number;
   }>;
 
+  // Ledger operations
+  postLedgerEntry(entry: InsertLedgerEntry): Promise<LedgerEntry>;
+  getLedgerEntriesByAccount(account: string): Promise<LedgerEntry[]>;
+  getLedgerEntriesByType(entryType: string): Promise<LedgerEntry[]>;
+  getAccountBalance(account: string): Promise<number>;
+
+  // Withdrawal operations
+  createWithdrawal(withdrawal: InsertWithdrawal): Promise<Withdrawal>;
+  getWithdrawal(id: number): Promise<Withdrawal | undefined>;
+  getWithdrawalsByUserId(userId: number): Promise<Withdrawal[]>;
+  getWithdrawals(status?: string): Promise<Withdrawal[]>;
+  updateWithdrawal(id: number, update: Partial<Pick<Withdrawal, 'status' | 'providerReference' | 'failureReason'>>): Promise<Withdrawal | undefined>;
+  // Update a withdrawal only if it is still in status `from`; undefined if it isn't
+  transitionWithdrawal(id: number, from: WithdrawalStatus, update: Partial<Pick<Withdrawal, 'status' | 'providerReference' | 'failureReason'>>): Promise<Withdrawal | undefined>;
+  // Insert the withdrawal and post the hold built by `hold` atomically, unless
+  // the wallet can't cover the amount (returns undefined)
+  createWithdrawalWithHold(withdrawal: InsertWithdrawal, hold: (withdrawal: Withdrawal) => InsertLedgerEntry): Promise<Withdrawal | undefined>;
+
+  // Anchor queue operations
+  createAnchorJob(job: InsertAnchorJob): Promise<AnchorJob>;
+  getDueAnchorJobs(now: Date, limit: number): Promise<AnchorJob[]>;
+  updateAnchorJob(id: number, update: AnchorJobUpdate): Promise<AnchorJob | undefined>;
+  getAnchorJobByRewardId(rewardId: number): Promise<AnchorJob | undefined>;
+  getAnchorQueueStats(): Promise<AnchorQueueStats>;
+  createAnchorBatch(batch: InsertAnchorBatch): Promise<AnchorBatch>;
+  getAnchorBatch(id: number): Promise<AnchorBatch | undefined>;
+
+  // Signing key operations
+  getSigningKeys(): Promise<SigningKey[]>;
+  createSigningKey(key: InsertSigningKey): Promise<SigningKey>;
+  updateSigningKey(keyId: string, update: Pick<SigningKey, 'retiredAt'>): Promise<SigningKey | undefined>;
+
+  // Chain audit and alert operations
+  createChainAudit(audit: InsertChainAudit): Promise<ChainAudit>;
+  getChainAudits(limit: number): Promise<ChainAudit[]>;
+  getMaintenanceRun(name: string): Promise<MaintenanceRun | undefined>;
+  createMaintenanceRun(run: InsertMaintenanceRun): Promise<MaintenanceRun>;
+  createAdminAlert(alert: InsertAdminAlert): Promise<AdminAlert>;
+  getAdminAlerts(openOnly: boolean): Promise<AdminAlert[]>;
+  acknowledgeAdminAlert(id: number, userId: number): Promise<AdminAlert | undefined>;
+
+  // Suspension appeal operations
+  createAppeal(appeal: InsertAppeal): Promise<Appeal>;
+  getAppeal(id: number): Promise<Appeal | undefined>;
+  getAppealsByUserId(userId: number): Promise<Appeal[]>;
+  getAppealsByStatus(status: string): Promise<Appeal[]>;
+  updateAppeal(id: number, review: AppealReview): Promise<Appeal | undefined>;
+
+  // Partner app operations
+  createPartnerApp(partner: InsertPartnerApp): Promise<PartnerApp>;
+  getPartnerApps(): Promise<PartnerApp[]>;
+  getPartnerApp(id: number): Promise<PartnerApp | undefined>;
+  getPartnerAppByApiKey(apiKey: string): Promise<PartnerApp | undefined>;
+  updatePartnerApp(id: number, update: Partial<Pick<PartnerApp, 'isActive' | 'lastUsedAt' | 'rateLimitPerMinute'>>): Promise<PartnerApp | undefined>;
+
+  // Reward rule operations
+  getActiveRewardRule(vehicleClass: string): Promise<RewardRule>;
+  getRewardRules(): Promise<RewardRule[]>;
+  createRewardRule(rule: InsertRewardRule): Promise<RewardRule>;
+
   // Blockchain operations
   createUserBlockchain(vehicleNumber: string, userId: number): Promise<void>;
-  validateOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<{
-    isValid: boolean;
-    blockHash?: string;
-    fraudAlert?: string;
-  }>;
+  persistBlockchain(vehicleNumber: string): Promise<void>;
+  getBlockchainRecords(): Promise<BlockchainRecord[]>;
+  // Fraud checks only; an accepted reading is added with recordOdometerReading
+  validateOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<ReadingResult>;
+  recordOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<string>;
+  reinstateBlockchain(vehicleNumber: string, reinstatement: Reinstatement): Promise<string>;
+  getSuspension(vehicleNumber: string): Promise<Suspension | null>;
   getBlockchainSummary(vehicleNumber: string): Promise<any>;
 
   // Global fraud database operations
@@ -36,14 +132,33 @@ export interface IStorage {
     appSource: string;
     blockchainTxHash: string;
     timestamp: Date;
+    appSignature: string;
     readingHash: string;
   }): Promise<void>;
-  getGlobalFraudEntry(readingHash: string): Promise<any>;
-  getGlobalFraudEntryByTxHash(txHash: string): Promise<any>;
+  // Claim a reading hash for this app ahead of anchoring it, unless it already
+  // has a claim - which is then returned instead
+  claimGlobalReading(entry: {
+    vehicleNumber: string;
+    reading: number;
+    appSource: string;
+    timestamp: Date;
+    appSignature: string;
+    readingHash: string;
+  }): Promise<GlobalFraudEntry | null>;
+  // Record the transaction that anchored a claimed reading; false if there was no unanchored claim
+  setGlobalFraudEntryTxHash(readingHash: string, txHash: string): Promise<boolean>;
+  // Drop an app's claim that never reached a transaction, so the reading can be claimed again
+  releaseGlobalReading(readingHash: string, appSource: string): Promise<void>;
+  // Earliest claim on a canonical reading hash
+  getGlobalFraudEntry(readingHash: string): Promise<GlobalFraudEntry | null>;
+  getGlobalFraudEntryByTxHash(txHash: string): Promise<GlobalFraudEntry | null>;
   
   // Admin operations
   getUsers(): Promise<User[]>;
   getRewards(): Promise<Reward[]>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+  createAuditLogEntry(entry: InsertAdminAuditLog): Promise<AdminAuditLog>;
+  getAuditLog(limit: number): Promise<AdminAuditLog[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -51,10 +166,42 @@ export class MemStorage implements IStorage {
   private rewards: Map<number, Reward>;
   private currentUserId: number;
   private currentRewardId: number;
+  private auditLog: AdminAuditLog[];
+  private rewardRules: RewardRule[];
+  private ledger: LedgerEntry[];
+  private withdrawals: Map<number, Withdrawal>;
+  private anchorJobs: Map<number, AnchorJob>;
+  private anchorBatches: Map<number, AnchorBatch>;
+  private globalFraudEntries: GlobalFraudEntry[];
+  private partnerApps: Map<number, PartnerApp>;
+  private signingKeys: SigningKey[];
+  private chainAudits: ChainAudit[];
+  private maintenanceRuns: MaintenanceRun[];
+  private adminAlerts: AdminAlert[];
+  private appeals: Map<number, Appeal>;
+  private chainOwners: Map<string, number>;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
     this.users = new Map();
     this.rewards = new Map();
+    this.auditLog = [];
+    this.rewardRules = [];
+    this.ledger = [];
+    this.withdrawals = new Map();
+    this.anchorJobs = new Map();
+    this.anchorBatches = new Map();
+    this.globalFraudEntries = [];
+    this.partnerApps = new Map();
+    this.signingKeys = [];
+    this.chainAudits = [];
+    this.maintenanceRuns = [];
+    this.adminAlerts = [];
+    this.appeals = new Map();
+    this.chainOwners = new Map();
     this.currentUserId = 1;
     this.currentRewardId = 1;
     
@@ -65,6 +212,13 @@ export class MemStorage implements IStorage {
       phone: "+91 9876543210",
       vehicleNumber: "DEMO4774",
       rcImageUrl: null,
+      vehicleClass: "car",
+      role: "user",
+      upiVpa: null,
+      bankAccountNumber: null,
+      bankIfsc: null,
+      bankAccountName: null,
+      kycStatus: "unverified",
       registeredAt: new Date(),
     });
     this.currentUserId = 2;
@@ -81,6 +235,23 @@ export class MemStorage implements IStorage {
       co2Saved: 12.0,
       rewardGiven: 24.0,
       txHash: "0x123...abc",
+      location: null,
+      ocrConfidence: null,
+      serverOcrKm: null,
+      serverOcrConfidence: null,
+      ocrDiscrepancyKm: null,
+      validationStatus: "approved",
+      blockHash: null,
+      deviceFingerprint: null,
+      imageHash: null,
+      fraudScore: 0,
+      fraudSignals: null,
+      ruleVersion: null,
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      anchorStatus: "anchored",
+      proofId: randomUUID(),
       timestamp: thisMonth,
     });
     this.currentRewardId = 2;
@@ -96,11 +267,24 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => normalizePhone(user.phone) === phone,
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
     const user: User = { 
       ...insertUser, 
       rcImageUrl: insertUser.rcImageUrl || null,
+      vehicleClass: insertUser.vehicleClass || "car",
+      role: "user",
+      upiVpa: null,
+      bankAccountNumber: null,
+      bankIfsc: null,
+      bankAccountName: null,
+      kycStatus: "unverified",
       id, 
       registeredAt: new Date() 
     };
@@ -112,16 +296,63 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUserPayoutDetails(id: number, details: PayoutDetails): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...details };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   async createUserBlockchain(vehicleNumber: string, userId: number): Promise<void> {
     await blockchain.createUserChain(vehicleNumber, userId);
+    this.chainOwners.set(vehicleNumber, userId);
   }
 
-  async validateOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<{
-    isValid: boolean;
-    blockHash?: string;
-    fraudAlert?: string;
-  }> {
-    return await blockchain.addOdometerReading(
+  async getBlockchainRecords(): Promise<BlockchainRecord[]> {
+    // Memory storage - chains only live in the registry, so serialize them from there
+    const records: BlockchainRecord[] = [];
+    this.chainOwners.forEach((userId, vehicleNumber) => {
+      const userChain = blockchain.exportChain(vehicleNumber);
+      if (!userChain) return;
+      records.push({
+        id: records.length + 1,
+        vehicleNumber,
+        userId,
+        chainData: JSON.stringify(userChain.chain),
+        fraudScore: userChain.fraudScore,
+        isActive: userChain.isActive,
+        lastValidReading: userChain.lastValidReading,
+        createdAt: userChain.chain[0].timestamp,
+        updatedAt: new Date()
+      });
+    });
+    return records;
+  }
+
+  async persistBlockchain(vehicleNumber: string): Promise<void> {
+    // Memory storage - chains only live in the registry
+  }
+
+  async validateOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<ReadingResult> {
+    // Users seeded or registered before chains existed get one on first upload
+    if (!blockchain.hasChain(vehicleNumber)) {
+      const user = await this.getUserByVehicleNumber(vehicleNumber);
+      if (user) {
+        await this.createUserBlockchain(vehicleNumber, user.id);
+      }
+    }
+
+    return await blockchain.assessOdometerReading(
+      vehicleNumber,
+      reading,
+      validationData.validationProof || {},
+      validationData.serverOcr ?? null
+    );
+  }
+
+  async recordOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<string> {
+    return await blockchain.recordReading(
       vehicleNumber,
       reading,
       validationData.imageHash || '',
@@ -130,6 +361,14 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async reinstateBlockchain(vehicleNumber: string, reinstatement: Reinstatement): Promise<string> {
+    return await blockchain.reinstateChain(vehicleNumber, reinstatement);
+  }
+
+  async getSuspension(vehicleNumber: string): Promise<Suspension | null> {
+    return blockchain.getSuspension(vehicleNumber);
+  }
+
   async getBlockchainSummary(vehicleNumber: string): Promise<any> {
     return blockchain.getUserChainSummary(vehicleNumber);
   }
@@ -140,9 +379,24 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
+  // Latest reading that still counts - rejected readings never set the baseline
   async getLastRewardByVehicleNumber(vehicleNumber: string): Promise<Reward | undefined> {
     const rewards = await this.getRewardsByVehicleNumber(vehicleNumber);
-    return rewards[0];
+    return rewards.find(reward => reward.validationStatus !== 'rejected');
+  }
+
+  async getReward(id: number): Promise<Reward | undefined> {
+    return this.rewards.get(id);
+  }
+
+  async getRewardByProofId(proofId: string): Promise<Reward | undefined> {
+    return Array.from(this.rewards.values()).find(reward => reward.proofId === proofId);
+  }
+
+  async getRewardsByStatus(status: string): Promise<Reward[]> {
+    return Array.from(this.rewards.values())
+      .filter(reward => reward.validationStatus === status)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
   async createReward(insertReward: InsertReward): Promise<Reward> {
@@ -152,7 +406,21 @@ export class MemStorage implements IStorage {
       txHash: insertReward.txHash || null,
       location: insertReward.location || null,
       ocrConfidence: insertReward.ocrConfidence || null,
+      serverOcrKm: insertReward.serverOcrKm ?? null,
+      serverOcrConfidence: insertReward.serverOcrConfidence ?? null,
+      ocrDiscrepancyKm: insertReward.ocrDiscrepancyKm ?? null,
       validationStatus: insertReward.validationStatus || "pending",
+      blockHash: insertReward.blockHash || null,
+      deviceFingerprint: insertReward.deviceFingerprint || null,
+      imageHash: insertReward.imageHash || null,
+      fraudScore: insertReward.fraudScore ?? 0,
+      fraudSignals: insertReward.fraudSignals || null,
+      ruleVersion: insertReward.ruleVersion ?? null,
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      anchorStatus: insertReward.anchorStatus || "anchored",
+      proofId: randomUUID(),
       id, 
       timestamp: new Date() 
     };
@@ -160,21 +428,50 @@ export class MemStorage implements IStorage {
     return reward;
   }
 
+  async updateReward(id: number, review: RewardReview): Promise<Reward | undefined> {
+    const reward = this.rewards.get(id);
+    if (!reward) return undefined;
+    const updated = { ...reward, ...review };
+    this.rewards.set(id, updated);
+    return updated;
+  }
+
+  async transitionReward(id: number, from: RewardStatus, review: RewardReview): Promise<Reward | undefined> {
+    const reward = this.rewards.get(id);
+    if (!reward || reward.validationStatus !== from) return undefined;
+    const updated = { ...reward, ...review };
+    this.rewards.set(id, updated);
+    return updated;
+  }
+
+  async updateRewardAnchor(id: number, anchor: RewardAnchor): Promise<Reward | undefined> {
+    const reward = this.rewards.get(id);
+    if (!reward) return undefined;
+    const updated = { ...reward, ...anchor };
+    this.rewards.set(id, updated);
+    return updated;
+  }
+
   async getTotalRewardsByVehicleNumber(vehicleNumber: string): Promise<{
     totalBalance: number;
     totalCo2Saved: number;
     monthlyReward: number;
+    monthlyPendingReward: number;
     totalDistance: number;
   }> {
-    const rewards = await this.getRewardsByVehicleNumber(vehicleNumber);
+    // Readings still in review or rejected don't count yet
+    const allRewards = await this.getRewardsByVehicleNumber(vehicleNumber);
+    const rewards = allRewards.filter(reward => reward.validationStatus === 'approved');
     const now = new Date();
     const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const monthlyPendingReward = pendingRewardsSince(allRewards, thisMonth);
     
-    const totalBalance = rewards.reduce((sum, reward) => sum + reward.rewardGiven, 0);
+    // Money comes from the ledger, CO2 from the readings themselves
+    const account = walletAccount(vehicleNumber);
+    const entries = await this.getLedgerEntriesByAccount(account);
+    const totalBalance = accountBalance(entries, account);
+    const monthlyReward = rewardsCreditedSince(entries, account, thisMonth);
     const totalCo2Saved = rewards.reduce((sum, reward) => sum + reward.co2Saved, 0);
-    const monthlyReward = rewards
-      .filter(reward => reward.timestamp >= thisMonth)
-      .reduce((sum, reward) => sum + reward.rewardGiven, 0);
     
     // Calculate total distance from last reading (assuming first reading is baseline)
     const lastReward = rewards[0];
@@ -184,6 +481,7 @@ export class MemStorage implements IStorage {
       totalBalance,
       totalCo2Saved,
       monthlyReward,
+      monthlyPendingReward,
       totalDistance,
     };
   }
@@ -196,30 +494,483 @@ export class MemStorage implements IStorage {
     return Array.from(this.rewards.values());
   }
 
+  async createWithdrawal(insertWithdrawal: InsertWithdrawal): Promise<Withdrawal> {
+    const id = this.withdrawals.size + 1;
+    const withdrawal: Withdrawal = {
+      ...insertWithdrawal,
+      status: insertWithdrawal.status || "pending",
+      payoutDetails: insertWithdrawal.payoutDetails || null,
+      providerReference: insertWithdrawal.providerReference || null,
+      failureReason: insertWithdrawal.failureReason || null,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.withdrawals.set(id, withdrawal);
+    return withdrawal;
+  }
+
+  async getWithdrawal(id: number): Promise<Withdrawal | undefined> {
+    return this.withdrawals.get(id);
+  }
+
+  async getWithdrawalsByUserId(userId: number): Promise<Withdrawal[]> {
+    return Array.from(this.withdrawals.values())
+      .filter(withdrawal => withdrawal.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getWithdrawals(status?: string): Promise<Withdrawal[]> {
+    return Array.from(this.withdrawals.values())
+      .filter(withdrawal => !status || withdrawal.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateWithdrawal(id: number, update: Partial<Pick<Withdrawal, 'status' | 'providerReference' | 'failureReason'>>): Promise<Withdrawal | undefined> {
+    const withdrawal = this.withdrawals.get(id);
+    if (!withdrawal) return undefined;
+    const updated = { ...withdrawal, ...update, updatedAt: new Date() };
+    this.withdrawals.set(id, updated);
+    return updated;
+  }
+
+  async transitionWithdrawal(id: number, from: WithdrawalStatus, update: Partial<Pick<Withdrawal, 'status' | 'providerReference' | 'failureReason'>>): Promise<Withdrawal | undefined> {
+    const withdrawal = this.withdrawals.get(id);
+    if (!withdrawal || withdrawal.status !== from) return undefined;
+    const updated = { ...withdrawal, ...update, updatedAt: new Date() };
+    this.withdrawals.set(id, updated);
+    return updated;
+  }
+
+  async createWithdrawalWithHold(insertWithdrawal: InsertWithdrawal, hold: (withdrawal: Withdrawal) => InsertLedgerEntry): Promise<Withdrawal | undefined> {
+    // No awaits between the check and the writes, so nothing can interleave
+    if (insertWithdrawal.amount > accountBalance(this.ledger, walletAccount(insertWithdrawal.vehicleNumber))) {
+      return undefined;
+    }
+    const id = this.withdrawals.size + 1;
+    const withdrawal: Withdrawal = {
+      ...insertWithdrawal,
+      status: insertWithdrawal.status || "pending",
+      payoutDetails: insertWithdrawal.payoutDetails || null,
+      providerReference: insertWithdrawal.providerReference || null,
+      failureReason: insertWithdrawal.failureReason || null,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.withdrawals.set(id, withdrawal);
+    const entry = hold(withdrawal);
+    this.ledger.push({
+      ...entry,
+      referenceId: entry.referenceId || null,
+      memo: entry.memo || null,
+      id: this.ledger.length + 1,
+      createdAt: new Date()
+    });
+    return withdrawal;
+  }
+
+  async createAnchorJob(insertJob: InsertAnchorJob): Promise<AnchorJob> {
+    const existing = Array.from(this.anchorJobs.values()).find(job => job.rewardId === insertJob.rewardId);
+    if (existing) return existing;
+
+    const id = this.anchorJobs.size + 1;
+    const job: AnchorJob = {
+      ...insertJob,
+      id,
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+      batchId: null,
+      leafIndex: null,
+      merkleProof: null,
+      createdAt: new Date(),
+      completedAt: null
+    };
+    this.anchorJobs.set(id, job);
+    return job;
+  }
+
+  async getDueAnchorJobs(now: Date, limit: number): Promise<AnchorJob[]> {
+    return Array.from(this.anchorJobs.values())
+      .filter(job => job.status === 'queued' && job.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateAnchorJob(id: number, update: AnchorJobUpdate): Promise<AnchorJob | undefined> {
+    const job = this.anchorJobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...update };
+    this.anchorJobs.set(id, updated);
+    return updated;
+  }
+
+  async getAnchorJobByRewardId(rewardId: number): Promise<AnchorJob | undefined> {
+    return Array.from(this.anchorJobs.values()).find(job => job.rewardId === rewardId);
+  }
+
+  async createAnchorBatch(insertBatch: InsertAnchorBatch): Promise<AnchorBatch> {
+    const id = this.anchorBatches.size + 1;
+    const batch: AnchorBatch = {
+      ...insertBatch,
+      txHash: insertBatch.txHash || null,
+      id,
+      anchoredAt: new Date()
+    };
+    this.anchorBatches.set(id, batch);
+    return batch;
+  }
+
+  async getAnchorBatch(id: number): Promise<AnchorBatch | undefined> {
+    return this.anchorBatches.get(id);
+  }
+
+  async getSigningKeys(): Promise<SigningKey[]> {
+    return [...this.signingKeys];
+  }
+
+  async createChainAudit(insertAudit: InsertChainAudit): Promise<ChainAudit> {
+    const audit: ChainAudit = {
+      ...insertAudit,
+      findings: insertAudit.findings ?? '[]',
+      id: this.chainAudits.length + 1,
+      completedAt: new Date()
+    };
+    this.chainAudits.push(audit);
+    return audit;
+  }
+
+  async getChainAudits(limit: number): Promise<ChainAudit[]> {
+    return this.chainAudits.slice(-limit).reverse();
+  }
+
+  async getMaintenanceRun(name: string): Promise<MaintenanceRun | undefined> {
+    return this.maintenanceRuns.find(run => run.name === name);
+  }
+
+  async createMaintenanceRun(insertRun: InsertMaintenanceRun): Promise<MaintenanceRun> {
+    const run: MaintenanceRun = {
+      ...insertRun,
+      details: insertRun.details ?? null,
+      id: this.maintenanceRuns.length + 1,
+      ranAt: new Date()
+    };
+    this.maintenanceRuns.push(run);
+    return run;
+  }
+
+  async createAdminAlert(insertAlert: InsertAdminAlert): Promise<AdminAlert> {
+    const alert: AdminAlert = {
+      ...insertAlert,
+      vehicleNumber: insertAlert.vehicleNumber ?? null,
+      blockIndex: insertAlert.blockIndex ?? null,
+      details: insertAlert.details ?? null,
+      auditId: insertAlert.auditId ?? null,
+      id: this.adminAlerts.length + 1,
+      createdAt: new Date(),
+      acknowledgedAt: null,
+      acknowledgedBy: null
+    };
+    this.adminAlerts.push(alert);
+    return alert;
+  }
+
+  async getAdminAlerts(openOnly: boolean): Promise<AdminAlert[]> {
+    return this.adminAlerts
+      .filter(alert => !openOnly || !alert.acknowledgedAt)
+      .reverse();
+  }
+
+  async acknowledgeAdminAlert(id: number, userId: number): Promise<AdminAlert | undefined> {
+    const alert = this.adminAlerts.find(entry => entry.id === id);
+    if (!alert) return undefined;
+    alert.acknowledgedAt = alert.acknowledgedAt ?? new Date();
+    alert.acknowledgedBy = alert.acknowledgedBy ?? userId;
+    return alert;
+  }
+
+  async createAppeal(insertAppeal: InsertAppeal): Promise<Appeal> {
+    const id = this.appeals.size + 1;
+    const appeal: Appeal = {
+      ...insertAppeal,
+      id,
+      status: 'pending',
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date()
+    };
+    this.appeals.set(id, appeal);
+    return appeal;
+  }
+
+  async getAppeal(id: number): Promise<Appeal | undefined> {
+    return this.appeals.get(id);
+  }
+
+  async getAppealsByUserId(userId: number): Promise<Appeal[]> {
+    return Array.from(this.appeals.values())
+      .filter(appeal => appeal.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getAppealsByStatus(status: string): Promise<Appeal[]> {
+    return Array.from(this.appeals.values())
+      .filter(appeal => appeal.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateAppeal(id: number, review: AppealReview): Promise<Appeal | undefined> {
+    const appeal = this.appeals.get(id);
+    if (!appeal) return undefined;
+    const updated = { ...appeal, ...review };
+    this.appeals.set(id, updated);
+    return updated;
+  }
+
+  async createSigningKey(insertKey: InsertSigningKey): Promise<SigningKey> {
+    const key: SigningKey = {
+      ...insertKey,
+      algorithm: insertKey.algorithm ?? 'Ed25519',
+      id: this.signingKeys.length + 1,
+      createdAt: new Date(),
+      retiredAt: null
+    };
+    this.signingKeys.push(key);
+    return key;
+  }
+
+  async updateSigningKey(keyId: string, update: Pick<SigningKey, 'retiredAt'>): Promise<SigningKey | undefined> {
+    const key = this.signingKeys.find(entry => entry.keyId === keyId);
+    if (!key) return undefined;
+    Object.assign(key, update);
+    return key;
+  }
+
+  async createPartnerApp(insertPartner: InsertPartnerApp): Promise<PartnerApp> {
+    const id = this.partnerApps.size + 1;
+    const partner: PartnerApp = {
+      ...insertPartner,
+      rateLimitPerMinute: insertPartner.rateLimitPerMinute ?? 60,
+      id,
+      isActive: true,
+      createdAt: new Date(),
+      lastUsedAt: null
+    };
+    this.partnerApps.set(id, partner);
+    return partner;
+  }
+
+  async getPartnerApps(): Promise<PartnerApp[]> {
+    return Array.from(this.partnerApps.values());
+  }
+
+  async getPartnerApp(id: number): Promise<PartnerApp | undefined> {
+    return this.partnerApps.get(id);
+  }
+
+  async getPartnerAppByApiKey(apiKey: string): Promise<PartnerApp | undefined> {
+    return Array.from(this.partnerApps.values()).find(partner => partner.apiKey === apiKey);
+  }
+
+  async updatePartnerApp(id: number, update: Partial<Pick<PartnerApp, 'isActive' | 'lastUsedAt' | 'rateLimitPerMinute'>>): Promise<PartnerApp | undefined> {
+    const partner = this.partnerApps.get(id);
+    if (!partner) return undefined;
+    const updated = { ...partner, ...update };
+    this.partnerApps.set(id, updated);
+    return updated;
+  }
+
+  async getAnchorQueueStats(): Promise<AnchorQueueStats> {
+    const jobs = Array.from(this.anchorJobs.values());
+    const queued = jobs.filter(job => job.status === 'queued');
+    return {
+      queued: queued.length,
+      failed: jobs.filter(job => job.status === 'failed').length,
+      oldestQueuedAt: queued.reduce<Date | null>(
+        (oldest, job) => !oldest || job.createdAt < oldest ? job.createdAt : oldest,
+        null
+      )
+    };
+  }
+
+  async postLedgerEntry(insertEntry: InsertLedgerEntry): Promise<LedgerEntry> {
+    const existing = this.ledger.find(entry => entry.idempotencyKey === insertEntry.idempotencyKey);
+    if (existing) return existing;
+
+    const entry: LedgerEntry = {
+      ...insertEntry,
+      referenceId: insertEntry.referenceId || null,
+      memo: insertEntry.memo || null,
+      id: this.ledger.length + 1,
+      createdAt: new Date()
+    };
+    this.ledger.push(entry);
+    return entry;
+  }
+
+  async getLedgerEntriesByAccount(account: string): Promise<LedgerEntry[]> {
+    return this.ledger
+      .filter(entry => entry.debitAccount === account || entry.creditAccount === account)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getLedgerEntriesByType(entryType: string): Promise<LedgerEntry[]> {
+    return this.ledger.filter(entry => entry.entryType === entryType);
+  }
+
+  async getAccountBalance(account: string): Promise<number> {
+    return accountBalance(this.ledger, account);
+  }
+
+  async getActiveRewardRule(vehicleClass: string): Promise<RewardRule> {
+    const active = this.rewardRules
+      .filter(rule => rule.isActive)
+      .sort((a, b) => b.version - a.version);
+    return active.find(rule => rule.vehicleClass === vehicleClass)
+      || active.find(rule => rule.vehicleClass === 'default')
+      || DEFAULT_REWARD_RULE;
+  }
+
+  async getRewardRules(): Promise<RewardRule[]> {
+    return [...this.rewardRules].sort((a, b) => b.version - a.version);
+  }
+
+  async createRewardRule(insertRule: InsertRewardRule): Promise<RewardRule> {
+    const latestVersion = Math.max(DEFAULT_REWARD_RULE.version, ...this.rewardRules.map(rule => rule.version));
+    const rule: RewardRule = {
+      ...insertRule,
+      vehicleClass: insertRule.vehicleClass || 'default',
+      monthlyCapRupees: insertRule.monthlyCapRupees ?? null,
+      firstReadingPolicy: insertRule.firstReadingPolicy || 'baseline',
+      firstReadingKm: insertRule.firstReadingKm ?? 0,
+      promotions: insertRule.promotions || '[]',
+      isActive: insertRule.isActive ?? true,
+      id: this.rewardRules.length + 1,
+      version: latestVersion + 1,
+      createdAt: new Date()
+    };
+    this.rewardRules.push(rule);
+    return rule;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async createAuditLogEntry(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const logEntry: AdminAuditLog = {
+      ...entry,
+      details: entry.details || null,
+      id: this.auditLog.length + 1,
+      timestamp: new Date()
+    };
+    this.auditLog.push(logEntry);
+    return logEntry;
+  }
+
+  async getAuditLog(limit: number): Promise<AdminAuditLog[]> {
+    return this.auditLog.slice(-limit).reverse();
+  }
+
   async storeGlobalFraudEntry(entry: {
     vehicleNumber: string;
     reading: number;
     appSource: string;
     blockchainTxHash: string;
     timestamp: Date;
+    appSignature: string;
     readingHash: string;
   }): Promise<void> {
-    // Memory storage - just store in console for now
-    console.log('Global fraud entry stored:', entry);
+    this.globalFraudEntries.push({
+      id: this.globalFraudEntries.length + 1,
+      vehicleNumber: entry.vehicleNumber,
+      odometerReading: entry.reading,
+      appSource: entry.appSource,
+      blockHash: entry.blockchainTxHash,
+      appSignature: entry.appSignature,
+      readingHash: entry.readingHash,
+      timestamp: entry.timestamp
+    });
   }
 
-  async getGlobalFraudEntry(readingHash: string): Promise<any> {
-    // Memory storage - return null for now
+  async claimGlobalReading(entry: {
+    vehicleNumber: string;
+    reading: number;
+    appSource: string;
+    timestamp: Date;
+    appSignature: string;
+    readingHash: string;
+  }): Promise<GlobalFraudEntry | null> {
+    const existing = this.globalFraudEntries.find(claim => claim.readingHash === entry.readingHash);
+    if (existing) return existing;
+    this.globalFraudEntries.push({
+      id: this.globalFraudEntries.length + 1,
+      vehicleNumber: entry.vehicleNumber,
+      odometerReading: entry.reading,
+      appSource: entry.appSource,
+      blockHash: null,
+      appSignature: entry.appSignature,
+      readingHash: entry.readingHash,
+      timestamp: entry.timestamp
+    });
     return null;
   }
 
-  async getGlobalFraudEntryByTxHash(txHash: string): Promise<any> {
-    // Memory storage - return null for now
-    return null;
+  async setGlobalFraudEntryTxHash(readingHash: string, txHash: string): Promise<boolean> {
+    const claim = this.globalFraudEntries.find(entry => entry.readingHash === readingHash && entry.blockHash === null);
+    if (!claim) return false;
+    claim.blockHash = txHash;
+    return true;
+  }
+
+  async releaseGlobalReading(readingHash: string, appSource: string): Promise<void> {
+    this.globalFraudEntries = this.globalFraudEntries.filter(entry =>
+      !(entry.readingHash === readingHash && entry.appSource === appSource && entry.blockHash === null)
+    );
+  }
+
+  async getGlobalFraudEntry(readingHash: string): Promise<GlobalFraudEntry | null> {
+    const claims = this.globalFraudEntries
+      .filter(entry => entry.readingHash === readingHash)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return claims[0] || null;
+  }
+
+  async getGlobalFraudEntryByTxHash(txHash: string): Promise<GlobalFraudEntry | null> {
+    return this.globalFraudEntries.find(entry => entry.blockHash === txHash) || null;
   }
 }
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function queryAccountBalance(executor: typeof db | DbTransaction, account: string): Promise<number> {
+  const [row] = await executor
+    .select({
+      credits: sql<number>`coalesce(sum(case when ${ledgerEntries.creditAccount} = ${account} then ${ledgerEntries.amount} else 0 end), 0)`,
+      debits: sql<number>`coalesce(sum(case when ${ledgerEntries.debitAccount} = ${account} then ${ledgerEntries.amount} else 0 end), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(or(eq(ledgerEntries.debitAccount, account), eq(ledgerEntries.creditAccount, account)));
+  return Math.round((Number(row?.credits ?? 0) - Number(row?.debits ?? 0)) * 100) / 100;
+}
+
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -230,6 +981,15 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    // Older rows may carry a country code or spaces
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`right(regexp_replace(${users.phone}, '[^0-9]', '', 'g'), 10) = ${phone}`);
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -242,6 +1002,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPayoutDetails(id: number, details: PayoutDetails): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(details)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async createUserBlockchain(vehicleNumber: string, userId: number): Promise<void> {
     // Create blockchain in memory
     const userChain = await blockchain.createUserChain(vehicleNumber, userId);
@@ -257,36 +1026,69 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async validateOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<{
-    isValid: boolean;
-    blockHash?: string;
-    fraudAlert?: string;
-  }> {
-    const result = await blockchain.addOdometerReading(
+  async getBlockchainRecords(): Promise<BlockchainRecord[]> {
+    return await db.select().from(blockchainRegistry);
+  }
+
+  async validateOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<ReadingResult> {
+    // Users registered before chains existed get one on first upload
+    if (!blockchain.hasChain(vehicleNumber)) {
+      const user = await this.getUserByVehicleNumber(vehicleNumber);
+      if (user) {
+        await this.createUserBlockchain(vehicleNumber, user.id);
+      }
+    }
+
+    const result = await blockchain.assessOdometerReading(
+      vehicleNumber,
+      reading,
+      validationData.validationProof || {},
+      validationData.serverOcr ?? null
+    );
+
+    // A rejection adds a fraud alert block
+    if (result.status === 'rejected') {
+      await this.persistBlockchain(vehicleNumber);
+    }
+    return result;
+  }
+
+  async recordOdometerReading(vehicleNumber: string, reading: number, validationData: any): Promise<string> {
+    const blockHash = await blockchain.recordReading(
       vehicleNumber,
       reading,
       validationData.imageHash || '',
       validationData.location || '',
       validationData.validationProof || {}
     );
+    await this.persistBlockchain(vehicleNumber);
+    return blockHash;
+  }
 
-    // Update blockchain registry in database if successful
-    if (result.success) {
-      const chainSummary = blockchain.getUserChainSummary(vehicleNumber);
-      if (chainSummary) {
-        await db
-          .update(blockchainRegistry)
-          .set({
-            chainData: JSON.stringify(blockchain.exportChain(vehicleNumber)?.chain || []),
-            fraudScore: chainSummary.fraudScore,
-            lastValidReading: chainSummary.lastValidReading,
-            updatedAt: new Date()
-          })
-          .where(eq(blockchainRegistry.vehicleNumber, vehicleNumber));
-      }
-    }
+  async reinstateBlockchain(vehicleNumber: string, reinstatement: Reinstatement): Promise<string> {
+    const blockHash = await blockchain.reinstateChain(vehicleNumber, reinstatement);
+    await this.persistBlockchain(vehicleNumber);
+    return blockHash;
+  }
 
-    return result;
+  async persistBlockchain(vehicleNumber: string): Promise<void> {
+    const chainSummary = blockchain.getUserChainSummary(vehicleNumber);
+    if (!chainSummary) return;
+
+    await db
+      .update(blockchainRegistry)
+      .set({
+        chainData: JSON.stringify(blockchain.exportChain(vehicleNumber)?.chain || []),
+        fraudScore: chainSummary.fraudScore,
+        isActive: chainSummary.isActive,
+        lastValidReading: chainSummary.lastValidReading,
+        updatedAt: new Date()
+      })
+      .where(eq(blockchainRegistry.vehicleNumber, vehicleNumber));
+  }
+
+  async getSuspension(vehicleNumber: string): Promise<Suspension | null> {
+    return blockchain.getSuspension(vehicleNumber);
   }
 
   async getBlockchainSummary(vehicleNumber: string): Promise<any> {
@@ -297,16 +1099,40 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(rewards).where(eq(rewards.vehicleNumber, vehicleNumber));
   }
 
+  // Latest reading that still counts - rejected readings never set the baseline
   async getLastRewardByVehicleNumber(vehicleNumber: string): Promise<Reward | undefined> {
     const [reward] = await db
       .select()
       .from(rewards)
-      .where(eq(rewards.vehicleNumber, vehicleNumber))
+      .where(and(
+        eq(rewards.vehicleNumber, vehicleNumber),
+        ne(rewards.validationStatus, 'rejected')
+      ))
       .orderBy(desc(rewards.timestamp))
       .limit(1);
     return reward || undefined;
   }
 
+  async getReward(id: number): Promise<Reward | undefined> {
+    const [reward] = await db.select().from(rewards).where(eq(rewards.id, id));
+    return reward || undefined;
+  }
+
+  async getRewardByProofId(proofId: string): Promise<Reward | undefined> {
+    // Anything that isn't a UUID would fail the cast in Postgres
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(proofId)) return undefined;
+    const [reward] = await db.select().from(rewards).where(eq(rewards.proofId, proofId));
+    return reward || undefined;
+  }
+
+  async getRewardsByStatus(status: string): Promise<Reward[]> {
+    return await db
+      .select()
+      .from(rewards)
+      .where(eq(rewards.validationStatus, status))
+      .orderBy(rewards.timestamp);
+  }
+
   async createReward(insertReward: InsertReward): Promise<Reward> {
     const [reward] = await db
       .insert(rewards)
@@ -315,26 +1141,55 @@ export class DatabaseStorage implements IStorage {
     return reward;
   }
 
+  async updateReward(id: number, review: RewardReview): Promise<Reward | undefined> {
+    const [reward] = await db
+      .update(rewards)
+      .set(review)
+      .where(eq(rewards.id, id))
+      .returning();
+    return reward || undefined;
+  }
+
+  async transitionReward(id: number, from: RewardStatus, review: RewardReview): Promise<Reward | undefined> {
+    const [reward] = await db
+      .update(rewards)
+      .set(review)
+      .where(and(eq(rewards.id, id), eq(rewards.validationStatus, from)))
+      .returning();
+    return reward || undefined;
+  }
+
+  async updateRewardAnchor(id: number, anchor: RewardAnchor): Promise<Reward | undefined> {
+    const [reward] = await db
+      .update(rewards)
+      .set(anchor)
+      .where(eq(rewards.id, id))
+      .returning();
+    return reward || undefined;
+  }
+
   async getTotalRewardsByVehicleNumber(vehicleNumber: string): Promise<{
     totalBalance: number;
     totalCo2Saved: number;
     monthlyReward: number;
+    monthlyPendingReward: number;
     totalDistance: number;
   }> {
-    const userRewards = await this.getRewardsByVehicleNumber(vehicleNumber);
+    // Readings still in review or rejected don't count yet
+    const allRewards = await this.getRewardsByVehicleNumber(vehicleNumber);
+    const userRewards = allRewards.filter(reward => reward.validationStatus === 'approved');
     
-    const totalBalance = userRewards.reduce((sum, reward) => sum + reward.rewardGiven, 0);
+    // Money comes from the ledger, CO2 from the readings themselves
+    const account = walletAccount(vehicleNumber);
+    const entries = await this.getLedgerEntriesByAccount(account);
+    const totalBalance = accountBalance(entries, account);
     const totalCo2Saved = userRewards.reduce((sum, reward) => sum + reward.co2Saved, 0);
     
     // Calculate monthly reward (current month)
-    const currentMonth = new Date().getMonth();
-    const currentYear = new Date().getFullYear();
-    const monthlyReward = userRewards
-      .filter(reward => {
-        const rewardDate = new Date(reward.timestamp);
-        return rewardDate.getMonth() === currentMonth && rewardDate.getFullYear() === currentYear;
-      })
-      .reduce((sum, reward) => sum + reward.rewardGiven, 0);
+    const now = new Date();
+    const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const monthlyReward = rewardsCreditedSince(entries, account, thisMonth);
+    const monthlyPendingReward = pendingRewardsSince(allRewards, thisMonth);
 
     // Calculate total distance
     const sortedRewards = userRewards.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
@@ -347,7 +1202,7 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    return { totalBalance, totalCo2Saved, monthlyReward, totalDistance };
+    return { totalBalance, totalCo2Saved, monthlyReward, monthlyPendingReward, totalDistance };
   }
 
   async storeGlobalFraudEntry(entry: {
@@ -356,6 +1211,7 @@ export class DatabaseStorage implements IStorage {
     appSource: string;
     blockchainTxHash: string;
     timestamp: Date;
+    appSignature: string;
     readingHash: string;
   }): Promise<void> {
     await db.insert(globalFraudDatabase).values({
@@ -363,20 +1219,75 @@ export class DatabaseStorage implements IStorage {
       odometerReading: entry.reading,
       appSource: entry.appSource,
       blockHash: entry.blockchainTxHash,
-      appSignature: entry.readingHash,
+      appSignature: entry.appSignature,
+      readingHash: entry.readingHash,
       timestamp: entry.timestamp
     });
   }
 
-  async getGlobalFraudEntry(readingHash: string): Promise<any> {
+  async claimGlobalReading(entry: {
+    vehicleNumber: string;
+    reading: number;
+    appSource: string;
+    timestamp: Date;
+    appSignature: string;
+    readingHash: string;
+  }): Promise<GlobalFraudEntry | null> {
+    return await db.transaction(async (tx) => {
+      // reading_hash isn't unique (older rows may repeat one), so concurrent
+      // claims on the same hash are serialized with an advisory lock instead
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${entry.readingHash}))`);
+      const [existing] = await tx
+        .select()
+        .from(globalFraudDatabase)
+        .where(eq(globalFraudDatabase.readingHash, entry.readingHash))
+        .orderBy(asc(globalFraudDatabase.timestamp))
+        .limit(1);
+      if (existing) return existing;
+
+      await tx.insert(globalFraudDatabase).values({
+        vehicleNumber: entry.vehicleNumber,
+        odometerReading: entry.reading,
+        appSource: entry.appSource,
+        blockHash: null,
+        appSignature: entry.appSignature,
+        readingHash: entry.readingHash,
+        timestamp: entry.timestamp
+      });
+      return null;
+    });
+  }
+
+  async setGlobalFraudEntryTxHash(readingHash: string, txHash: string): Promise<boolean> {
+    const updated = await db
+      .update(globalFraudDatabase)
+      .set({ blockHash: txHash })
+      .where(and(eq(globalFraudDatabase.readingHash, readingHash), isNull(globalFraudDatabase.blockHash)))
+      .returning({ id: globalFraudDatabase.id });
+    return updated.length > 0;
+  }
+
+  async releaseGlobalReading(readingHash: string, appSource: string): Promise<void> {
+    await db
+      .delete(globalFraudDatabase)
+      .where(and(
+        eq(globalFraudDatabase.readingHash, readingHash),
+        eq(globalFraudDatabase.appSource, appSource),
+        isNull(globalFraudDatabase.blockHash)
+      ));
+  }
+
+  async getGlobalFraudEntry(readingHash: string): Promise<GlobalFraudEntry | null> {
     const [entry] = await db
       .select()
       .from(globalFraudDatabase)
-      .where(eq(globalFraudDatabase.appSignature, readingHash));
+      .where(eq(globalFraudDatabase.readingHash, readingHash))
+      .orderBy(asc(globalFraudDatabase.timestamp))
+      .limit(1);
     return entry || null;
   }
 
-  async getGlobalFraudEntryByTxHash(txHash: string): Promise<any> {
+  async getGlobalFraudEntryByTxHash(txHash: string): Promise<GlobalFraudEntry | null> {
     const [entry] = await db
       .select()
       .from(globalFraudDatabase)
@@ -391,6 +1302,367 @@ export class DatabaseStorage implements IStorage {
   async getRewards(): Promise<Reward[]> {
     return await db.select().from(rewards);
   }
+
+  async createWithdrawal(insertWithdrawal: InsertWithdrawal): Promise<Withdrawal> {
+    const [withdrawal] = await db
+      .insert(withdrawals)
+      .values(insertWithdrawal)
+      .returning();
+    return withdrawal;
+  }
+
+  async getWithdrawal(id: number): Promise<Withdrawal | undefined> {
+    const [withdrawal] = await db.select().from(withdrawals).where(eq(withdrawals.id, id));
+    return withdrawal || undefined;
+  }
+
+  async getWithdrawalsByUserId(userId: number): Promise<Withdrawal[]> {
+    return await db
+      .select()
+      .from(withdrawals)
+      .where(eq(withdrawals.userId, userId))
+      .orderBy(desc(withdrawals.createdAt));
+  }
+
+  async getWithdrawals(status?: string): Promise<Withdrawal[]> {
+    return await db
+      .select()
+      .from(withdrawals)
+      .where(status ? eq(withdrawals.status, status) : undefined)
+      .orderBy(desc(withdrawals.createdAt));
+  }
+
+  async updateWithdrawal(id: number, update: Partial<Pick<Withdrawal, 'status' | 'providerReference' | 'failureReason'>>): Promise<Withdrawal | undefined> {
+    const [withdrawal] = await db
+      .update(withdrawals)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(withdrawals.id, id))
+      .returning();
+    return withdrawal || undefined;
+  }
+
+  async transitionWithdrawal(id: number, from: WithdrawalStatus, update: Partial<Pick<Withdrawal, 'status' | 'providerReference' | 'failureReason'>>): Promise<Withdrawal | undefined> {
+    const [withdrawal] = await db
+      .update(withdrawals)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(withdrawals.id, id), eq(withdrawals.status, from)))
+      .returning();
+    return withdrawal || undefined;
+  }
+
+  async createWithdrawalWithHold(insertWithdrawal: InsertWithdrawal, hold: (withdrawal: Withdrawal) => InsertLedgerEntry): Promise<Withdrawal | undefined> {
+    return await db.transaction(async (tx) => {
+      // Concurrent requests for the same user queue on this lock, so each
+      // sees the balance after the previous one's hold
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, insertWithdrawal.userId)).for('update');
+      const balance = await queryAccountBalance(tx, walletAccount(insertWithdrawal.vehicleNumber));
+      if (insertWithdrawal.amount > balance) return undefined;
+
+      const [withdrawal] = await tx.insert(withdrawals).values(insertWithdrawal).returning();
+      await tx.insert(ledgerEntries).values(hold(withdrawal));
+      return withdrawal;
+    });
+  }
+
+  async createAnchorJob(insertJob: InsertAnchorJob): Promise<AnchorJob> {
+    // One job per reward - enqueueing twice returns the existing job
+    const [job] = await db
+      .insert(anchorJobs)
+      .values(insertJob)
+      .onConflictDoNothing({ target: anchorJobs.rewardId })
+      .returning();
+    if (job) return job;
+
+    const [existing] = await db.select().from(anchorJobs).where(eq(anchorJobs.rewardId, insertJob.rewardId));
+    return existing;
+  }
+
+  async getDueAnchorJobs(now: Date, limit: number): Promise<AnchorJob[]> {
+    return await db
+      .select()
+      .from(anchorJobs)
+      .where(and(eq(anchorJobs.status, 'queued'), lte(anchorJobs.nextAttemptAt, now)))
+      .orderBy(asc(anchorJobs.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async updateAnchorJob(id: number, update: AnchorJobUpdate): Promise<AnchorJob | undefined> {
+    const [job] = await db
+      .update(anchorJobs)
+      .set(update)
+      .where(eq(anchorJobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async getAnchorJobByRewardId(rewardId: number): Promise<AnchorJob | undefined> {
+    const [job] = await db.select().from(anchorJobs).where(eq(anchorJobs.rewardId, rewardId));
+    return job || undefined;
+  }
+
+  async createAnchorBatch(insertBatch: InsertAnchorBatch): Promise<AnchorBatch> {
+    const [batch] = await db
+      .insert(anchorBatches)
+      .values(insertBatch)
+      .returning();
+    return batch;
+  }
+
+  async getAnchorBatch(id: number): Promise<AnchorBatch | undefined> {
+    const [batch] = await db.select().from(anchorBatches).where(eq(anchorBatches.id, id));
+    return batch || undefined;
+  }
+
+  async getSigningKeys(): Promise<SigningKey[]> {
+    return await db.select().from(signingKeys).orderBy(asc(signingKeys.createdAt));
+  }
+
+  async createChainAudit(insertAudit: InsertChainAudit): Promise<ChainAudit> {
+    const [audit] = await db
+      .insert(chainAudits)
+      .values(insertAudit)
+      .returning();
+    return audit;
+  }
+
+  async getChainAudits(limit: number): Promise<ChainAudit[]> {
+    return await db
+      .select()
+      .from(chainAudits)
+      .orderBy(desc(chainAudits.completedAt))
+      .limit(limit);
+  }
+
+  async getMaintenanceRun(name: string): Promise<MaintenanceRun | undefined> {
+    const [run] = await db.select().from(maintenanceRuns).where(eq(maintenanceRuns.name, name));
+    return run || undefined;
+  }
+
+  async createMaintenanceRun(insertRun: InsertMaintenanceRun): Promise<MaintenanceRun> {
+    // The unique name makes a second run fail here rather than run twice
+    const [run] = await db
+      .insert(maintenanceRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async createAdminAlert(insertAlert: InsertAdminAlert): Promise<AdminAlert> {
+    const [alert] = await db
+      .insert(adminAlerts)
+      .values(insertAlert)
+      .returning();
+    return alert;
+  }
+
+  async getAdminAlerts(openOnly: boolean): Promise<AdminAlert[]> {
+    return await db
+      .select()
+      .from(adminAlerts)
+      .where(openOnly ? isNull(adminAlerts.acknowledgedAt) : undefined)
+      .orderBy(desc(adminAlerts.createdAt));
+  }
+
+  async acknowledgeAdminAlert(id: number, userId: number): Promise<AdminAlert | undefined> {
+    const [alert] = await db
+      .update(adminAlerts)
+      .set({ acknowledgedAt: new Date(), acknowledgedBy: userId })
+      .where(and(eq(adminAlerts.id, id), isNull(adminAlerts.acknowledgedAt)))
+      .returning();
+    if (alert) return alert;
+
+    // Already acknowledged - return it unchanged
+    const [existing] = await db.select().from(adminAlerts).where(eq(adminAlerts.id, id));
+    return existing || undefined;
+  }
+
+  async createAppeal(insertAppeal: InsertAppeal): Promise<Appeal> {
+    const [appeal] = await db
+      .insert(appeals)
+      .values(insertAppeal)
+      .returning();
+    return appeal;
+  }
+
+  async getAppeal(id: number): Promise<Appeal | undefined> {
+    const [appeal] = await db.select().from(appeals).where(eq(appeals.id, id));
+    return appeal || undefined;
+  }
+
+  async getAppealsByUserId(userId: number): Promise<Appeal[]> {
+    return await db
+      .select()
+      .from(appeals)
+      .where(eq(appeals.userId, userId))
+      .orderBy(desc(appeals.createdAt));
+  }
+
+  async getAppealsByStatus(status: string): Promise<Appeal[]> {
+    return await db
+      .select()
+      .from(appeals)
+      .where(eq(appeals.status, status))
+      .orderBy(asc(appeals.createdAt));
+  }
+
+  async updateAppeal(id: number, review: AppealReview): Promise<Appeal | undefined> {
+    const [appeal] = await db
+      .update(appeals)
+      .set(review)
+      .where(eq(appeals.id, id))
+      .returning();
+    return appeal || undefined;
+  }
+
+  async createSigningKey(insertKey: InsertSigningKey): Promise<SigningKey> {
+    const [key] = await db
+      .insert(signingKeys)
+      .values(insertKey)
+      .returning();
+    return key;
+  }
+
+  async updateSigningKey(keyId: string, update: Pick<SigningKey, 'retiredAt'>): Promise<SigningKey | undefined> {
+    const [key] = await db
+      .update(signingKeys)
+      .set(update)
+      .where(eq(signingKeys.keyId, keyId))
+      .returning();
+    return key || undefined;
+  }
+
+  async createPartnerApp(insertPartner: InsertPartnerApp): Promise<PartnerApp> {
+    const [partner] = await db
+      .insert(partnerApps)
+      .values(insertPartner)
+      .returning();
+    return partner;
+  }
+
+  async getPartnerApps(): Promise<PartnerApp[]> {
+    return await db.select().from(partnerApps).orderBy(asc(partnerApps.id));
+  }
+
+  async getPartnerApp(id: number): Promise<PartnerApp | undefined> {
+    const [partner] = await db.select().from(partnerApps).where(eq(partnerApps.id, id));
+    return partner || undefined;
+  }
+
+  async getPartnerAppByApiKey(apiKey: string): Promise<PartnerApp | undefined> {
+    const [partner] = await db.select().from(partnerApps).where(eq(partnerApps.apiKey, apiKey));
+    return partner || undefined;
+  }
+
+  async updatePartnerApp(id: number, update: Partial<Pick<PartnerApp, 'isActive' | 'lastUsedAt' | 'rateLimitPerMinute'>>): Promise<PartnerApp | undefined> {
+    const [partner] = await db
+      .update(partnerApps)
+      .set(update)
+      .where(eq(partnerApps.id, id))
+      .returning();
+    return partner || undefined;
+  }
+
+  async getAnchorQueueStats(): Promise<AnchorQueueStats> {
+    const [stats] = await db
+      .select({
+        queued: sql<number>`count(*) filter (where ${anchorJobs.status} = 'queued')`.mapWith(Number),
+        failed: sql<number>`count(*) filter (where ${anchorJobs.status} = 'failed')`.mapWith(Number),
+        oldestQueuedAt: sql<Date | null>`min(${anchorJobs.createdAt}) filter (where ${anchorJobs.status} = 'queued')`
+          .mapWith(value => value ? new Date(value) : null)
+      })
+      .from(anchorJobs);
+    return stats;
+  }
+
+  async postLedgerEntry(insertEntry: InsertLedgerEntry): Promise<LedgerEntry> {
+    const [entry] = await db
+      .insert(ledgerEntries)
+      .values(insertEntry)
+      .onConflictDoNothing({ target: ledgerEntries.idempotencyKey })
+      .returning();
+    if (entry) return entry;
+
+    // Already posted under this idempotency key
+    const [existing] = await db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.idempotencyKey, insertEntry.idempotencyKey));
+    return existing;
+  }
+
+  async getLedgerEntriesByAccount(account: string): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(or(eq(ledgerEntries.debitAccount, account), eq(ledgerEntries.creditAccount, account)))
+      .orderBy(desc(ledgerEntries.createdAt));
+  }
+
+  async getLedgerEntriesByType(entryType: string): Promise<LedgerEntry[]> {
+    return await db.select().from(ledgerEntries).where(eq(ledgerEntries.entryType, entryType));
+  }
+
+  async getAccountBalance(account: string): Promise<number> {
+    return await queryAccountBalance(db, account);
+  }
+
+  async getActiveRewardRule(vehicleClass: string): Promise<RewardRule> {
+    const candidates = await db
+      .select()
+      .from(rewardRules)
+      .where(and(
+        eq(rewardRules.isActive, true),
+        inArray(rewardRules.vehicleClass, [vehicleClass, 'default'])
+      ))
+      .orderBy(desc(rewardRules.version));
+    return candidates.find(rule => rule.vehicleClass === vehicleClass)
+      || candidates.find(rule => rule.vehicleClass === 'default')
+      || DEFAULT_REWARD_RULE;
+  }
+
+  async getRewardRules(): Promise<RewardRule[]> {
+    return await db.select().from(rewardRules).orderBy(desc(rewardRules.version));
+  }
+
+  async createRewardRule(insertRule: InsertRewardRule): Promise<RewardRule> {
+    const [latest] = await db
+      .select({ version: rewardRules.version })
+      .from(rewardRules)
+      .orderBy(desc(rewardRules.version))
+      .limit(1);
+    const version = Math.max(DEFAULT_REWARD_RULE.version, latest?.version ?? 0) + 1;
+
+    const [rule] = await db
+      .insert(rewardRules)
+      .values({ ...insertRule, version })
+      .returning();
+    return rule;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async createAuditLogEntry(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const [logEntry] = await db
+      .insert(adminAuditLog)
+      .values(entry)
+      .returning();
+    return logEntry;
+  }
+
+  async getAuditLog(limit: number): Promise<AdminAuditLog[]> {
+    return await db
+      .select()
+      .from(adminAuditLog)
+      .orderBy(desc(adminAuditLog.timestamp))
+      .limit(limit);
+  }
 }
 
 // Use database storage instead of memory storage
@@ -0,0 +1,89 @@
+import type { Appeal, User } from "@shared/schema";
+import { storage } from "../storage";
+
+export class AppealError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AppealError';
+  }
+}
+
+// What a user sees about their own suspension: the fraud alerts behind it and
+// the appeal they made against it, if any
+export async function getSuspensionStatus(user: User) {
+  const suspension = await storage.getSuspension(user.vehicleNumber);
+  if (!suspension) {
+    return { suspended: false, suspendedAt: null, reasons: [], appeal: null };
+  }
+
+  const [latest] = await storage.getAppealsByUserId(user.id);
+  return {
+    suspended: true,
+    suspendedAt: suspension.suspendedAt,
+    reasons: suspension.reasons,
+    appeal: latest && latest.createdAt >= suspension.suspendedAt ? latest : null
+  };
+}
+
+export async function submitAppeal(user: User, message: string, photoUrl: string): Promise<Appeal> {
+  const suspension = await storage.getSuspension(user.vehicleNumber);
+  if (!suspension) {
+    throw new AppealError('Your vehicle is not suspended', 409);
+  }
+
+  const [latest] = await storage.getAppealsByUserId(user.id);
+  if (latest?.status === 'pending') {
+    throw new AppealError('Your appeal is already awaiting review', 409);
+  }
+
+  return await storage.createAppeal({
+    userId: user.id,
+    vehicleNumber: user.vehicleNumber,
+    message,
+    photoUrl
+  });
+}
+
+async function getPendingAppeal(id: number): Promise<Appeal> {
+  const appeal = await storage.getAppeal(id);
+  if (!appeal) {
+    throw new AppealError('Appeal not found', 404);
+  }
+  if (appeal.status !== 'pending') {
+    throw new AppealError(`Appeal is already ${appeal.status}`, 409);
+  }
+  return appeal;
+}
+
+// Approving an appeal reinstates the vehicle with a REINSTATEMENT block on its chain
+export async function approveAppeal(id: number, admin: User, note?: string): Promise<Appeal> {
+  const appeal = await getPendingAppeal(id);
+
+  if (await storage.getSuspension(appeal.vehicleNumber)) {
+    await storage.reinstateBlockchain(appeal.vehicleNumber, {
+      reviewedBy: admin.id,
+      appealId: appeal.id,
+      note
+    });
+  }
+
+  const approved = await storage.updateAppeal(id, {
+    status: 'approved',
+    reviewedBy: admin.id,
+    reviewNote: note || null,
+    reviewedAt: new Date()
+  });
+  return approved!;
+}
+
+export async function rejectAppeal(id: number, admin: User, note: string): Promise<Appeal> {
+  await getPendingAppeal(id);
+
+  const rejected = await storage.updateAppeal(id, {
+    status: 'rejected',
+    reviewedBy: admin.id,
+    reviewNote: note,
+    reviewedAt: new Date()
+  });
+  return rejected!;
+}
@@ -0,0 +1,4 @@
+// Indian mobile numbers are stored and compared as their last 10 digits
+export function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-10);
+}
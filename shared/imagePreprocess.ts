@@ -0,0 +1,340 @@
+// Image clean-up applied before OCR. Everything works on a single-channel
+// GrayImage, without a canvas, so the browser and the server re-checking an
+// upload prepare a photo the same way. Getting pixels in and out is left to
+// each side (client/src/lib/imagePreprocess, server/ocr/verification).
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // one byte per pixel, row by row
+}
+
+// Part of an image as fractions of its width and height
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Part of an image in pixels
+export interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Size an image was displayed at with object-fit: cover
+export interface DisplaySize {
+  width: number;
+  height: number;
+}
+
+// The scan frame drawn over the camera on the Upload page, centred vertically
+export const SCAN_FRAME_INSET_PX = 32;
+export const SCAN_FRAME_HEIGHT_PX = 160;
+
+const WHITE = 255;
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+// Where the scan frame falls on the captured image. The camera preview is
+// scaled to cover the screen, so some of the image is cropped off-screen.
+export function scanFrameRegion(imageWidth: number, imageHeight: number, view: DisplaySize): FrameRegion {
+  const scale = Math.max(view.width / imageWidth, view.height / imageHeight);
+  const offsetX = (imageWidth * scale - view.width) / 2;
+  const offsetY = (imageHeight * scale - view.height) / 2;
+
+  const left = (SCAN_FRAME_INSET_PX + offsetX) / scale / imageWidth;
+  const top = ((view.height - SCAN_FRAME_HEIGHT_PX) / 2 + offsetY) / scale / imageHeight;
+  const right = (view.width - SCAN_FRAME_INSET_PX + offsetX) / scale / imageWidth;
+  const bottom = ((view.height + SCAN_FRAME_HEIGHT_PX) / 2 + offsetY) / scale / imageHeight;
+
+  const x = clamp01(left);
+  const y = clamp01(top);
+  return { x, y, width: clamp01(right) - x, height: clamp01(bottom) - y };
+}
+
+// Grow a region by a fraction of its size on every side, staying in the image
+export function padRegion(region: FrameRegion, fraction: number): FrameRegion {
+  const x = clamp01(region.x - region.width * fraction);
+  const y = clamp01(region.y - region.height * fraction);
+  return {
+    x,
+    y,
+    width: clamp01(region.x + region.width * (1 + fraction)) - x,
+    height: clamp01(region.y + region.height * (1 + fraction)) - y
+  };
+}
+
+export function toGray(rgba: { width: number; height: number; data: Uint8ClampedArray }): GrayImage {
+  const data = new Uint8ClampedArray(rgba.width * rgba.height);
+  for (let i = 0; i < data.length; i++) {
+    const p = i * 4;
+    data[i] = 0.299 * rgba.data[p] + 0.587 * rgba.data[p + 1] + 0.114 * rgba.data[p + 2];
+  }
+  return { width: rgba.width, height: rgba.height, data };
+}
+
+export function cropGray(image: GrayImage, box: PixelBox): GrayImage {
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const width = Math.max(1, Math.min(image.width - x0, Math.round(box.width)));
+  const height = Math.max(1, Math.min(image.height - y0, Math.round(box.height)));
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const start = (y0 + y) * image.width + x0;
+    data.set(image.data.subarray(start, start + width), y * width);
+  }
+  return { width, height, data };
+}
+
+// Bilinear resize by a scale factor
+export function scaleGray(image: GrayImage, factor: number): GrayImage {
+  const width = Math.max(1, Math.round(image.width * factor));
+  const height = Math.max(1, Math.round(image.height * factor));
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min((y + 0.5) / factor - 0.5, image.height - 1);
+    const y1 = Math.max(0, Math.floor(sy));
+    const y2 = Math.min(y1 + 1, image.height - 1);
+    const fy = Math.max(0, sy - y1);
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min((x + 0.5) / factor - 0.5, image.width - 1);
+      const x1 = Math.max(0, Math.floor(sx));
+      const x2 = Math.min(x1 + 1, image.width - 1);
+      const fx = Math.max(0, sx - x1);
+      const top = image.data[y1 * image.width + x1] * (1 - fx) + image.data[y1 * image.width + x2] * fx;
+      const bottom = image.data[y2 * image.width + x1] * (1 - fx) + image.data[y2 * image.width + x2] * fx;
+      data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width, height, data };
+}
+
+// Stretch the levels between two percentiles to the full 0-255 range, so dim
+// or washed-out photos of a backlit display end up with the same contrast
+export function normalizeContrast(image: GrayImage, lowPercentile = 0.02, highPercentile = 0.98): GrayImage {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) histogram[image.data[i]]++;
+
+  const levelAt = (percentile: number) => {
+    const target = percentile * image.data.length;
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= target) return level;
+    }
+    return 255;
+  };
+
+  const low = levelAt(lowPercentile);
+  const high = levelAt(highPercentile);
+  if (high - low < 8) return image; // flat image - nothing to stretch
+
+  const data = new Uint8ClampedArray(image.data.length);
+  const range = high - low;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = ((image.data[i] - low) * 255) / range;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Otsu's threshold: the level that best splits the histogram into two classes
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) histogram[image.data[i]]++;
+
+  const total = image.data.length;
+  let sum = 0;
+  for (let level = 0; level < 256; level++) sum += level * histogram[level];
+
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = 127;
+  let bestVariance = -1;
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += level * histogram[level];
+    const meanBackground = backgroundSum / backgroundCount;
+    const meanForeground = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+}
+
+export function invert(image: GrayImage): GrayImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = 255 - image.data[i];
+  return { width: image.width, height: image.height, data };
+}
+
+// Tesseract reads dark text on a light background. Most odometers are the
+// opposite - lit digits on a dark display - so invert when the bright side of
+// the threshold is the minority (the digits).
+export function ensureDarkText(image: GrayImage): GrayImage {
+  const threshold = otsuThreshold(image);
+  let bright = 0;
+  for (let i = 0; i < image.data.length; i++) {
+    if (image.data[i] > threshold) bright++;
+  }
+  return bright < image.data.length / 2 ? invert(image) : image;
+}
+
+// Foreground mask of dark pixels: 1 = text
+export function darkMask(image: GrayImage, threshold: number = otsuThreshold(image)): Uint8Array {
+  const mask = new Uint8Array(image.data.length);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = image.data[i] <= threshold ? 1 : 0;
+  }
+  return mask;
+}
+
+// Variance of the Laplacian: high when edges are crisp, low for a blurred
+// or shaken frame. Only comparable between frames of the same scene and size.
+export function sharpness(image: GrayImage): number {
+  const { width, height, data } = image;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+// Clockwise skew of a row of dark text, in degrees: the angle at which the
+// text's horizontal projection is sharpest
+export function estimateSkew(image: GrayImage, maxDegrees = 10, stepDegrees = 0.5): number {
+  const mask = darkMask(image);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  // Sample at most ~20k text pixels
+  const stride = Math.max(1, Math.floor(Math.sqrt(mask.length / 20000)));
+  for (let y = 0; y < image.height; y += stride) {
+    for (let x = 0; x < image.width; x += stride) {
+      if (mask[y * image.width + x]) {
+        xs.push(x - image.width / 2);
+        ys.push(y - image.height / 2);
+      }
+    }
+  }
+  if (xs.length < 10) return 0;
+
+  const binCount = image.height * 2;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let degrees = -maxDegrees; degrees <= maxDegrees + 1e-9; degrees += stepDegrees) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Array<number>(binCount).fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(ys[i] * cos - xs[i] * sin + image.height);
+      if (row >= 0 && row < binCount) bins[row]++;
+    }
+    const score = bins.reduce((total, count) => total + count * count, 0);
+    // Prefer the smaller correction on ties
+    if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+  return Math.round(bestAngle * 100) / 100;
+}
+
+// Rotate clockwise about the centre, keeping the size; uncovered corners are white
+export function rotateGray(image: GrayImage, degrees: number): GrayImage {
+  if (degrees === 0) return image;
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = image.width / 2;
+  const cy = image.height / 2;
+  const data = new Uint8ClampedArray(image.data.length);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      // Source pixel that lands here
+      const sx = Math.round(cos * (x - cx) + sin * (y - cy) + cx);
+      const sy = Math.round(-sin * (x - cx) + cos * (y - cy) + cy);
+      data[y * image.width + x] = sx >= 0 && sx < image.width && sy >= 0 && sy < image.height
+        ? image.data[sy * image.width + sx]
+        : WHITE;
+    }
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Running min or max over a (2 * radius + 1) window, horizontally then vertically
+function rankFilter(image: GrayImage, radius: number, pick: (a: number, b: number) => number): GrayImage {
+  const { width, height } = image;
+  const horizontal = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = image.data[y * width + x];
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = x + dx;
+        if (nx >= 0 && nx < width) value = pick(value, image.data[y * width + nx]);
+      }
+      horizontal[y * width + x] = value;
+    }
+  }
+
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = horizontal[y * width + x];
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny >= 0 && ny < height) value = pick(value, horizontal[ny * width + x]);
+      }
+      data[y * width + x] = value;
+    }
+  }
+  return { width, height, data };
+}
+
+// Seven-segment digits are separate bars with gaps at the joints, which
+// Tesseract reads as several glyphs or none. A morphological closing of the
+// dark text (spread it, then shrink it back) bridges those gaps while leaving
+// the spaces between digits, which are wider, open.
+export function enhanceSegments(image: GrayImage, radius: number = Math.max(1, Math.round(image.height / 80))): GrayImage {
+  const spread = rankFilter(image, radius, Math.min);
+  return rankFilter(spread, radius, Math.max);
+}
+
+export interface PreprocessedImage {
+  image: GrayImage; // ready for OCR
+  straightened: GrayImage; // before seven-segment enhancement
+  skewDegrees: number;
+}
+
+// Full clean-up for a crop around the digits
+export function preprocessForOcr(image: GrayImage): PreprocessedImage {
+  const normalized = ensureDarkText(normalizeContrast(image));
+  const skewDegrees = estimateSkew(normalized);
+  const straightened = rotateGray(normalized, -skewDegrees);
+  return { image: enhanceSegments(straightened), straightened, skewDegrees };
+}
@@ -0,0 +1,116 @@
+import { createWorker, OEM, PSM, type ImageLike, type Worker } from 'tesseract.js';
+
+// One Tesseract worker kept warm for every scan. Starting a worker loads the
+// LSTM model (several MB), which used to happen on each capture; now it
+// happens once, on the first scan or when warmUpOcr is called. Nothing here
+// touches the DOM, so the service also runs under Node for the benchmark.
+
+export class OCRCancelledError extends Error {
+  constructor() {
+    super('OCR cancelled');
+    this.name = 'OCRCancelledError';
+  }
+}
+
+export interface OCRProgress {
+  status: string; // Tesseract's step, e.g. "loading language traineddata", "recognizing text"
+  progress: number; // 0-1 within that step
+}
+
+export interface RecognizedDigits {
+  text: string;
+  confidence: number; // 0-100, as Tesseract reports it
+}
+
+const IDLE: OCRProgress = { status: 'idle', progress: 0 };
+
+let worker: Promise<Worker> | null = null;
+let currentProgress: OCRProgress = IDLE;
+const listeners = new Set<() => void>();
+
+function setProgress(progress: OCRProgress) {
+  currentProgress = progress;
+  listeners.forEach(listener => listener());
+}
+
+export function getOCRProgress(): OCRProgress {
+  return currentProgress;
+}
+
+// Every step before recognition is part of starting the worker
+export function isLoadingOCRModel(progress: OCRProgress): boolean {
+  return progress.status !== IDLE.status && progress.status !== 'recognizing text';
+}
+
+export function subscribeOCRProgress(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// createWorker never settles if the language data fails to load - the
+// failure only reaches the error handler, so reject from there
+function startWorker(): Promise<Worker> {
+  return new Promise<Worker>((resolve, reject) => {
+    createWorker('eng', OEM.LSTM_ONLY, {
+      logger: message => setProgress({ status: message.status, progress: message.progress }),
+      errorHandler: reject
+    }).then(resolve, reject);
+  }).then(async started => {
+    await started.setParameters({
+      tessedit_char_whitelist: '0123456789.',
+      tessedit_pageseg_mode: PSM.SINGLE_LINE,
+    });
+    setProgress(IDLE);
+    return started;
+  });
+}
+
+// A worker that failed to start (usually a dropped connection while fetching
+// the model) is forgotten so the next scan tries again
+function getWorker(): Promise<Worker> {
+  if (!worker) {
+    const starting = startWorker();
+    starting.catch(() => {
+      if (worker === starting) worker = null;
+      setProgress(IDLE);
+    });
+    worker = starting;
+  }
+  return worker;
+}
+
+// Start loading the model ahead of the first scan
+export function warmUpOCR(): void {
+  getWorker().catch(error => console.error('OCR warm-up failed:', error));
+}
+
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new OCRCancelledError();
+}
+
+// Read one line of digits. Tesseract can't stop a job part-way, so a
+// cancelled scan lets its current job finish and rejects with
+// OCRCancelledError instead of returning the result.
+export async function recognizeDigits(image: ImageLike, signal?: AbortSignal): Promise<RecognizedDigits> {
+  throwIfCancelled(signal);
+  const active = await getWorker();
+  throwIfCancelled(signal);
+
+  try {
+    const { data } = await active.recognize(image);
+    throwIfCancelled(signal);
+    return { text: data.text.trim(), confidence: data.confidence };
+  } finally {
+    setProgress(IDLE);
+  }
+}
+
+export async function terminateOCR(): Promise<void> {
+  if (!worker) return;
+  const active = await worker.catch(() => null);
+  worker = null;
+  await active?.terminate();
+  setProgress(IDLE);
+}
@@ -0,0 +1,128 @@
+import {
+  cropGray,
+  padRegion,
+  preprocessForOcr,
+  scaleGray,
+  scanFrameRegion,
+  type DisplaySize,
+  type GrayImage,
+  type PixelBox
+} from './imagePreprocess';
+import { findDigitRows, scoreOdometerText, type DigitRow } from './odometerRegions';
+
+// Finds and reads the odometer in a photo. The browser and the server both
+// run it - same crop, same clean-up, same parsing - so a reading the server
+// re-checks is read the way the user's device read it. Only Tesseract itself
+// is passed in, since each side runs its own workers.
+
+export interface OdometerTextReading {
+  reading: number | null;
+  detectedNumbers: number[];
+}
+
+export function parseOdometerText(rawText: string): OdometerTextReading {
+  const numberMatches = rawText.match(/\d+\.?\d*/g) || [];
+  const detectedNumbers = numberMatches
+    .map(n => parseFloat(n))
+    .filter(n => !isNaN(n) && n >= 100 && n <= 9999999) // Reasonable odometer range
+    .sort((a, b) => b - a); // Sort descending
+
+  let reading: number | null = null;
+  if (detectedNumbers.length > 0) {
+    // Prioritize numbers in typical odometer ranges (1000-999999)
+    const prioritized = detectedNumbers.filter(n => n >= 1000 && n <= 999999);
+
+    if (prioritized.length > 0) {
+      // Take the number with most digits as it's likely the full odometer reading
+      reading = prioritized
+        .sort((a, b) => b.toString().length - a.toString().length)[0];
+    } else {
+      // Fallback to largest detected number
+      reading = detectedNumbers[0];
+    }
+  }
+
+  return { reading, detectedNumbers };
+}
+
+// Tesseract's reading of one candidate row; confidence is 0-100, as Tesseract reports it
+export type DigitRecognizer = (image: GrayImage) => Promise<{ text: string; confidence: number }>;
+
+export interface OdometerRead extends OdometerTextReading {
+  confidence: number; // 0-100
+  rawText: string;
+}
+
+// Working height for the crop: enough for the digits to be a few dozen
+// pixels tall without making the pixel loops slow on phones
+const WORKING_HEIGHT = 240;
+const MAX_WORKING_WIDTH = 1600;
+// Rows read with Tesseract, best scoring first
+export const MAX_CANDIDATE_ROWS = 3;
+
+function toWorkingSize(image: GrayImage): GrayImage {
+  const factor = Math.min(WORKING_HEIGHT / image.height, MAX_WORKING_WIDTH / image.width);
+  return scaleGray(image, factor);
+}
+
+// Grow a row's box so Tesseract sees some background around the digits
+function padRow(row: DigitRow, image: GrayImage): PixelBox {
+  const margin = Math.round(row.glyphHeight * 0.3);
+  const x = Math.max(0, row.x - margin);
+  const y = Math.max(0, row.y - margin);
+  return {
+    x,
+    y,
+    width: Math.min(image.width, row.x + row.width + margin) - x,
+    height: Math.min(image.height, row.y + row.height + margin) - y
+  };
+}
+
+// The part of a photo around the Upload page's scan frame, given the size
+// the camera preview was shown at; the whole photo without one
+export function cropToScanFrame(photo: GrayImage, scanView?: DisplaySize): GrayImage {
+  if (!scanView) return photo;
+  // Keep a margin in case the odometer was not quite inside the frame
+  const region = padRegion(scanFrameRegion(photo.width, photo.height, scanView), 0.25);
+  return cropGray(photo, {
+    x: region.x * photo.width,
+    y: region.y * photo.height,
+    width: region.width * photo.width,
+    height: region.height * photo.height
+  });
+}
+
+// Pick the odometer row out of an image already cropped to the scan frame
+// (or the whole photo) and read it
+export async function readOdometerRows(
+  framed: GrayImage,
+  maxCandidates: number,
+  recognize: DigitRecognizer
+): Promise<OdometerRead> {
+  const prepared = preprocessForOcr(toWorkingSize(framed));
+
+  const candidates = findDigitRows(prepared.image, prepared.straightened)
+    .slice(0, maxCandidates)
+    .map(row => ({ image: cropGray(prepared.image, padRow(row, prepared.image)), rowScore: row.score }));
+  // Nothing row-shaped found - let Tesseract look at the whole crop
+  if (candidates.length === 0) {
+    candidates.push({ image: prepared.image, rowScore: 0 });
+  }
+
+  let best: (OdometerRead & { score: number }) | null = null;
+  for (const candidate of candidates) {
+    const { text: rawText, confidence } = await recognize(candidate.image);
+    const { reading, detectedNumbers } = parseOdometerText(rawText);
+    const score = candidate.rowScore + scoreOdometerText(rawText, reading, confidence / 100);
+    if (!best || score > best.score) {
+      best = { rawText, confidence, reading, detectedNumbers, score };
+    }
+  }
+
+  return {
+    reading: best?.reading ?? null,
+    confidence: best?.confidence ?? 0,
+    rawText: best?.rawText ?? '',
+    detectedNumbers: best?.detectedNumbers ?? []
+  };
+}
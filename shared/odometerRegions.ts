@@ -0,0 +1,177 @@
+import { darkMask, type GrayImage, type PixelBox } from './imagePreprocess';
+
+// A dashboard photo can hold several rows of digits: the odometer, trip A/B
+// counters, a clock, the fuel range. Rows of dark glyphs are found in a
+// preprocessed image and scored on how much they look like the odometer.
+
+interface Component extends PixelBox {
+  pixels: number;
+  glyphs: number; // digits in the blob - closing can join a digit to its neighbour
+}
+
+export interface DigitRow extends PixelBox {
+  glyphs: number;
+  glyphHeight: number; // median
+  hasDecimalPoint: boolean;
+  score: number;
+}
+
+// Typical digit width / height
+const DIGIT_ASPECT = 0.6;
+
+// Connected dark blobs (8-connected)
+function findComponents(image: GrayImage): Component[] {
+  const { width, height } = image;
+  const mask = darkMask(image);
+  const seen = new Uint8Array(mask.length);
+  const components: Component[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+
+    let minX = width, minY = height, maxX = 0, maxY = 0, pixels = 0;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      pixels++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbour = ny * width + nx;
+          if (mask[neighbour] && !seen[neighbour]) {
+            seen[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    const box = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    components.push({ ...box, pixels, glyphs: Math.max(1, Math.round(box.width / (box.height * DIGIT_ASPECT))) });
+  }
+  return components;
+}
+
+// One or a few digits side by side ("1" is very narrow), not tiny or page-sized
+function looksLikeDigits(component: Component, image: GrayImage): boolean {
+  return component.height >= Math.max(8, image.height * 0.08) &&
+    component.height <= image.height * 0.95 &&
+    component.height / component.width <= 8 &&
+    component.glyphs <= 8;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Group digit-like blobs into rows of similar height sitting on the same line
+function groupRows(glyphs: Component[]): Component[][] {
+  const rows: Component[][] = [];
+  const sorted = [...glyphs].sort((a, b) => a.x - b.x);
+
+  for (const glyph of sorted) {
+    const centre = glyph.y + glyph.height / 2;
+    const row = rows.find(candidate => {
+      const last = candidate[candidate.length - 1];
+      const lastCentre = last.y + last.height / 2;
+      const gap = glyph.x - (last.x + last.width);
+      return Math.abs(centre - lastCentre) < last.height * 0.4 &&
+        Math.abs(glyph.height - last.height) < last.height * 0.35 &&
+        gap < last.height * 1.2;
+    });
+    if (row) {
+      row.push(glyph);
+    } else {
+      rows.push([glyph]);
+    }
+  }
+  return rows;
+}
+
+// A small roughly square blob on the baseline, between two digits
+function findDecimalPoint(row: PixelBox, glyphHeight: number, components: Component[]): boolean {
+  const baseline = row.y + row.height;
+  return components.some(dot =>
+    dot.height < glyphHeight * 0.3 &&
+    dot.width < glyphHeight * 0.3 &&
+    dot.x > row.x && dot.x + dot.width < row.x + row.width &&
+    Math.abs(dot.y + dot.height - baseline) < glyphHeight * 0.2
+  );
+}
+
+// Odometers show five to seven digits and no decimals; trip meters show
+// three or four with a tenths digit after a point. The odometer is also
+// usually the larger print and the wider row.
+function scoreRow(row: DigitRow, tallestGlyph: number, imageWidth: number): number {
+  let score = 0;
+  if (row.glyphs >= 5 && row.glyphs <= 7) score += 2;
+  else if (row.glyphs === 4) score += 0.5;
+  else if (row.glyphs <= 3) score -= 1;
+
+  if (row.hasDecimalPoint) score -= 1.5;
+  score += row.glyphHeight / tallestGlyph;
+  score += row.width / imageWidth;
+  return Math.round(score * 100) / 100;
+}
+
+// Candidate digit rows in a preprocessed image, best first. Decimal points
+// are looked for in `beforeClosing` when given, since enhanceSegments can
+// merge a point into the digit next to it.
+export function findDigitRows(image: GrayImage, beforeClosing: GrayImage = image): DigitRow[] {
+  const glyphs = findComponents(image).filter(component => looksLikeDigits(component, image));
+  const marks = beforeClosing === image ? findComponents(image) : findComponents(beforeClosing);
+
+  const rows: DigitRow[] = groupRows(glyphs)
+    .filter(row => row.reduce((count, glyph) => count + glyph.glyphs, 0) >= 2)
+    .map(row => {
+      const x = Math.min(...row.map(glyph => glyph.x));
+      const y = Math.min(...row.map(glyph => glyph.y));
+      const box = {
+        x,
+        y,
+        width: Math.max(...row.map(glyph => glyph.x + glyph.width)) - x,
+        height: Math.max(...row.map(glyph => glyph.y + glyph.height)) - y
+      };
+      const glyphHeight = median(row.map(glyph => glyph.height));
+      return {
+        ...box,
+        glyphs: row.reduce((count, glyph) => count + glyph.glyphs, 0),
+        glyphHeight,
+        hasDecimalPoint: findDecimalPoint(box, glyphHeight, marks),
+        score: 0
+      };
+    });
+
+  if (rows.length === 0) return [];
+  const tallestGlyph = Math.max(...rows.map(row => row.glyphHeight));
+  rows.forEach(row => {
+    row.score = scoreRow(row, tallestGlyph, image.width);
+  });
+  return rows.sort((a, b) => b.score - a.score);
+}
+
+// How much an OCR result looks like an odometer reading rather than a trip
+// meter or clock, to add to its row's score
+export function scoreOdometerText(text: string, reading: number | null, confidence: number): number {
+  if (reading === null) return -Infinity;
+  const digits = Math.round(reading).toString().length;
+
+  let score = confidence; // 0-1
+  if (digits >= 5 && digits <= 7) score += 2;
+  else if (digits === 4) score += 0.5;
+  if (/\d\.\d/.test(text)) score -= 1.5;
+  return score;
+}
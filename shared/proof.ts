@@ -0,0 +1,82 @@
+import type { MerkleProofStep } from "./schema";
+
+// Self-contained evidence for one odometer reading. Everything a partner needs
+// to re-check the reading offline: the block that recorded it, its neighbours'
+// hashes, and the Merkle path to the root anchored on chain.
+
+export interface ProofBlock {
+  index: number;
+  timestamp: string;
+  data: Record<string, unknown>; // BlockData exactly as it was hashed - location and device details are only committed to by privateDataHash
+  hash: string;
+  previousHash: string;
+  nonce: number;
+  merkleRoot: string;
+  keyId: string | null; // server key that sealed the block
+  signature: string | null; // base64 Ed25519 over the block hash bytes
+}
+
+export interface ProofBundle {
+  version: 1;
+  rewardId: number;
+  proofId: string;
+  issuedAt: string;
+  reading: {
+    vehicleNumber: string;
+    km: number;
+    recordedAt: string;
+    imageHash: string | null;
+    validationStatus: string;
+  };
+  block: ProofBlock | null;
+  chain: {
+    length: number;
+    valid: boolean;
+    previousBlock: { index: number; hash: string } | null;
+    nextBlock: { index: number; hash: string; previousHash: string } | null;
+  } | null;
+  anchor: {
+    status: string; // rewards.anchor_status
+    network: string | null;
+    txHash: string | null;
+    explorerUrl: string | null;
+    readingTimestamp: string | null; // time bucket input to the reading hash
+    appSignature: string | null;
+    readingHash: string | null;
+    merkleRoot: string | null;
+    leafIndex: number | null;
+    proof: MerkleProofStep[];
+  };
+}
+
+export interface SignedProofBundle {
+  bundle: ProofBundle;
+  signature: {
+    algorithm: "Ed25519";
+    keyId: string;
+    value: string; // base64 over canonicalJson(bundle)
+  };
+}
+
+// A server signing key as published at /api/signing-keys
+export interface PublicSigningKey {
+  algorithm: "Ed25519";
+  keyId: string;
+  publicKey: string; // base64 DER SubjectPublicKeyInfo
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+// Sorted-key JSON so the signed bytes don't depend on property order
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
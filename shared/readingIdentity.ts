@@ -0,0 +1,20 @@
+// Canonical identity of an odometer reading, shared by every app that checks
+// the global fraud registry. It deliberately leaves out the app signature and
+// the exact upload time so the same reading replayed through another app, or
+// a few minutes later, hashes to the same value.
+
+export const READING_TIME_BUCKET_MS = 24 * 60 * 60 * 1000; // UTC days
+
+// "mh 12-ab 1234" and "MH12AB1234" are the same vehicle
+export function normalizeVehicleNumber(vehicleNumber: string): string {
+  return vehicleNumber.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function readingTimeBucket(timestamp: Date | string): number {
+  return Math.floor(new Date(timestamp).getTime() / READING_TIME_BUCKET_MS);
+}
+
+// sha256 of this string is the reading hash
+export function readingIdentity(vehicleNumber: string, reading: number, timestamp: Date | string): string {
+  return `${normalizeVehicleNumber(vehicleNumber)}:${reading}:${readingTimeBucket(timestamp)}`;
+}
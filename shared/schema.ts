@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, real, unique, index, uniqueIndex, uuid } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,8 +9,18 @@ export const users = pgTable("users", {
   phone: text("phone").notNull(),
   vehicleNumber: text("vehicle_number").notNull().unique(),
   rcImageUrl: text("rc_image_url"),
+  vehicleClass: text("vehicle_class").notNull().default("car"), // two_wheeler, three_wheeler, car
+  role: text("role").notNull().default("user"), // admin, reviewer, user
+  upiVpa: text("upi_vpa"), // payout UPI id, e.g. name@bank
+  bankAccountNumber: text("bank_account_number"),
+  bankIfsc: text("bank_ifsc"),
+  bankAccountName: text("bank_account_name"), // account holder name as returned by KYC check
+  kycStatus: text("kyc_status").notNull().default("unverified"), // unverified, verified, rejected
   registeredAt: timestamp("registered_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // One account per phone, compared the way OTP login looks it up (last 10 digits)
+  phoneUnique: uniqueIndex("users_phone_unique").on(sql`right(regexp_replace(${table.phone}, '[^0-9]', '', 'g'), 10)`),
+}));
 
 export const rewards = pgTable("rewards", {
   id: serial("id").primaryKey(),
@@ -21,14 +32,41 @@ export const rewards = pgTable("rewards", {
   txHash: text("tx_hash"),
   location: text("location"), // JSON string for lat,lng,accuracy
   ocrConfidence: real("ocr_confidence"), 
+  serverOcrKm: integer("server_ocr_km"), // the server's own OCR of the photo; null if it found no reading
+  serverOcrConfidence: real("server_ocr_confidence"), // 0-1; null if server OCR didn't run
+  ocrDiscrepancyKm: integer("ocr_discrepancy_km"), // server_ocr_km - km
   validationStatus: text("validation_status").notNull().default("pending"), // pending, approved, rejected
   blockHash: text("block_hash"), // Blockchain hash
   deviceFingerprint: text("device_fingerprint"), // Device fingerprint for fraud detection
   imageHash: text("image_hash"), // Hash of the image for integrity
   fraudScore: real("fraud_score").default(0), // Fraud detection score
+  fraudSignals: text("fraud_signals"), // JSON array of FraudSignal - every check run against the reading
+  ruleVersion: integer("rule_version"), // reward_rules.version used to compute the payout
+  reviewedBy: integer("reviewed_by"), // users.id of the admin/reviewer who decided a queued reading
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  anchorStatus: text("anchor_status").notNull().default("anchored"), // queued, anchored, failed - rows from before the anchor queue were registered inline
+  proofId: uuid("proof_id").notNull().defaultRandom().unique(), // public /verify link - random so readings can't be enumerated
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// Versioned reward rules - rows are never edited, a change is a new version
+export const rewardRules = pgTable("reward_rules", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull(),
+  vehicleClass: text("vehicle_class").notNull().default("default"), // default applies to classes without their own rule
+  emissionFactorKgPerKm: real("emission_factor_kg_per_km").notNull(), // CO2 avoided per km driven
+  rupeesPerKg: real("rupees_per_kg").notNull(),
+  monthlyCapRupees: real("monthly_cap_rupees"), // null = uncapped
+  firstReadingPolicy: text("first_reading_policy").notNull().default("baseline"), // baseline, fixed_km
+  firstReadingKm: integer("first_reading_km").default(0), // distance credited under fixed_km
+  promotions: text("promotions").notNull().default("[]"), // JSON array of { name, multiplier, startsAt, endsAt }
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  versionClassUnique: unique().on(table.version, table.vehicleClass),
+}));
+
 // Blockchain registry table
 export const blockchainRegistry = pgTable("blockchain_registry", {
   id: serial("id").primaryKey(),
@@ -48,22 +86,350 @@ export const globalFraudDatabase = pgTable("global_fraud_database", {
   vehicleNumber: text("vehicle_number").notNull(),
   odometerReading: integer("odometer_reading").notNull(),
   appSource: text("app_source").notNull(), // Which app reported this reading
-  blockHash: text("block_hash").notNull(),
+  blockHash: text("block_hash"), // transaction that registered the reading; null while one of ours waits for its batch
+  appSignature: text("app_signature").notNull(),
+  readingHash: text("reading_hash"), // sha256 of the canonical reading identity; null on older rows
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+}, (table) => ({
+  readingHashIdx: index("global_fraud_database_reading_hash_idx").on(table.readingHash),
+}));
+
+// Double-entry wallet ledger - every movement of money is one row that
+// debits one account and credits another
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  debitAccount: text("debit_account").notNull(), // program_pool, payouts, wallet:<vehicleNumber>
+  creditAccount: text("credit_account").notNull(),
+  amount: real("amount").notNull(), // rupees, always positive
+  entryType: text("entry_type").notNull(), // reward, withdrawal, reversal, adjustment
+  referenceId: text("reference_id"), // e.g. rewards.id the entry settles
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  memo: text("memo"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Payout requests against a user's wallet balance
+export const withdrawals = pgTable("withdrawals", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  vehicleNumber: text("vehicle_number").notNull(),
+  amount: real("amount").notNull(),
+  method: text("method").notNull(), // upi, bank
+  destination: text("destination").notNull(), // masked VPA or account number
+  payoutDetails: text("payout_details"), // JSON PayoutMethod fixed at request time - paid to on approval; null on older rows
+  status: text("status").notNull().default("pending"), // pending, approved, paid, failed
+  providerReference: text("provider_reference"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// On-chain registrations waiting to be submitted, one per reward
+export const anchorJobs = pgTable("anchor_jobs", {
+  id: serial("id").primaryKey(),
+  rewardId: integer("reward_id").notNull().unique(),
+  vehicleNumber: text("vehicle_number").notNull(),
+  reading: integer("reading").notNull(),
+  readingTimestamp: timestamp("reading_timestamp").notNull(), // part of the reading hash, fixed at upload
   appSignature: text("app_signature").notNull(),
+  status: text("status").notNull().default("queued"), // queued, done, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  batchId: integer("batch_id"), // anchor_batches.id once anchored
+  leafIndex: integer("leaf_index"),
+  merkleProof: text("merkle_proof"), // JSON array of MerkleProofStep from the reading hash to the batch root
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// One on-chain transaction anchoring the Merkle root of many readings
+export const anchorBatches = pgTable("anchor_batches", {
+  id: serial("id").primaryKey(),
+  merkleRoot: text("merkle_root").notNull().unique(),
+  readingCount: integer("reading_count").notNull(),
+  network: text("network").notNull(),
+  txHash: text("tx_hash"),
+  anchoredAt: timestamp("anchored_at").defaultNow().notNull(),
+});
+
+// Other green-mobility apps sharing the cross-app fraud registry through the partner API
+export const partnerApps = pgTable("partner_apps", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // recorded as app_source on their claims
+  apiKey: text("api_key").notNull().unique(),
+  secret: text("secret").notNull(), // HMAC needs the shared secret itself, so it can't be stored hashed
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+// Public half of every key that has sealed blocks or signed proofs. Retired
+// keys stay listed so anything they signed still verifies.
+export const signingKeys = pgTable("signing_keys", {
+  id: serial("id").primaryKey(),
+  keyId: text("key_id").notNull().unique(),
+  algorithm: text("algorithm").notNull().default("Ed25519"),
+  publicKey: text("public_key").notNull(), // base64 DER SubjectPublicKeyInfo
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  retiredAt: timestamp("retired_at"),
+});
+
+// One run of the scheduled chain integrity audit
+export const chainAudits = pgTable("chain_audits", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull(), // passed, tampered
+  chainsChecked: integer("chains_checked").notNull(),
+  rewardsChecked: integer("rewards_checked").notNull(),
+  tamperedChains: integer("tampered_chains").notNull(),
+  findings: text("findings").notNull().default("[]"), // JSON array of ChainAuditFinding
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
+// One-off maintenance commands that must never run twice, e.g. re-sealing
+// proof-of-work chains
+export const maintenanceRuns = pgTable("maintenance_runs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  details: text("details"), // JSON summary of what the run changed
+  ranAt: timestamp("ran_at").defaultNow().notNull(),
+});
+
+// Problems staff need to act on, e.g. a tampered chain found by the audit
+export const adminAlerts = pgTable("admin_alerts", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // chain_tamper
+  vehicleNumber: text("vehicle_number"),
+  blockIndex: integer("block_index"), // first broken block, if known
+  message: text("message").notNull(),
+  details: text("details"), // JSON
+  auditId: integer("audit_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: integer("acknowledged_by"),
+});
+
+// A suspended vehicle owner's request to be reinstated
+export const appeals = pgTable("appeals", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  vehicleNumber: text("vehicle_number").notNull(),
+  message: text("message").notNull(),
+  photoUrl: text("photo_url").notNull(), // supporting photo, e.g. of the odometer, as a data URL
+  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  reviewedBy: integer("reviewed_by"), // users.id of the admin who decided it
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Record of every admin endpoint access
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  adminUserId: integer("admin_user_id").notNull(),
+  action: text("action").notNull(), // read, update
+  resource: text("resource").notNull(), // e.g. GET /api/admin/users
+  details: text("details"), // JSON string
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+export const VEHICLE_CLASSES = ["two_wheeler", "three_wheeler", "car"] as const;
+export type VehicleClass = typeof VEHICLE_CLASSES[number];
+
+export const USER_ROLES = ["admin", "reviewer", "user"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  role: true,
+  upiVpa: true,
+  bankAccountNumber: true,
+  bankIfsc: true,
+  bankAccountName: true,
+  kycStatus: true,
   registeredAt: true,
+}).extend({
+  vehicleClass: z.enum(VEHICLE_CLASSES).optional(),
+});
+
+export const insertRewardRuleSchema = createInsertSchema(rewardRules).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWithdrawalSchema = createInsertSchema(withdrawals).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const WITHDRAWAL_STATUSES = ["pending", "approved", "paid", "failed"] as const;
+export type WithdrawalStatus = typeof WITHDRAWAL_STATUSES[number];
+
+export const insertAdminAuditLogSchema = createInsertSchema(adminAuditLog).omit({
+  id: true,
+  timestamp: true,
 });
 
 export const insertRewardSchema = createInsertSchema(rewards).omit({
   id: true,
+  proofId: true,
+  reviewedBy: true,
+  reviewNote: true,
+  reviewedAt: true,
   timestamp: true,
 });
 
+// What a user submits with an odometer photo. Everything else on the reward
+// (vehicle, amounts, hashes, fraud results) is worked out by the server.
+export const uploadOdometerSchema = insertRewardSchema.pick({
+  odometerImageUrl: true,
+  km: true,
+  location: true,
+}).extend({
+  ocrConfidence: z.number().min(0).max(1).optional(), // the device's own OCR, 0-1
+});
+
+export const REWARD_STATUSES = ["pending", "approved", "rejected"] as const;
+export type RewardStatus = typeof REWARD_STATUSES[number];
+
+export const insertAnchorJobSchema = createInsertSchema(anchorJobs).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  batchId: true,
+  leafIndex: true,
+  merkleProof: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertAnchorBatchSchema = createInsertSchema(anchorBatches).omit({
+  id: true,
+  anchoredAt: true,
+});
+
+export const insertPartnerAppSchema = createInsertSchema(partnerApps).omit({
+  id: true,
+  isActive: true,
+  createdAt: true,
+  lastUsedAt: true,
+});
+
+export const insertSigningKeySchema = createInsertSchema(signingKeys).omit({
+  id: true,
+  createdAt: true,
+  retiredAt: true,
+});
+
+export const insertChainAuditSchema = createInsertSchema(chainAudits).omit({
+  id: true,
+  completedAt: true,
+});
+
+export const insertMaintenanceRunSchema = createInsertSchema(maintenanceRuns).omit({
+  id: true,
+  ranAt: true,
+});
+
+export const insertAdminAlertSchema = createInsertSchema(adminAlerts).omit({
+  id: true,
+  createdAt: true,
+  acknowledgedAt: true,
+  acknowledgedBy: true,
+});
+
+export const insertAppealSchema = createInsertSchema(appeals).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true,
+});
+
+export const APPEAL_STATUSES = ["pending", "approved", "rejected"] as const;
+export type AppealStatus = typeof APPEAL_STATUSES[number];
+
+export const ANCHOR_STATUSES = ["queued", "anchored", "failed"] as const;
+export type AnchorStatus = typeof ANCHOR_STATUSES[number];
+export const ANCHOR_JOB_STATUSES = ["queued", "done", "failed"] as const;
+export type AnchorJobStatus = typeof ANCHOR_JOB_STATUSES[number];
+
+export const FRAUD_CHECKS = [
+  "speed",
+  "rollback",
+  "ocr_confidence",
+  "ocr_mismatch",
+  "location_accuracy",
+  "cross_app_duplicate",
+  "image_manipulation",
+  "device_change",
+] as const;
+export type FraudCheckName = typeof FRAUD_CHECKS[number];
+
+// Outcome of one fraud check; triggered weights add up to the reading's fraud score
+export interface FraudSignal {
+  check: string; // one of FRAUD_CHECKS unless a custom rule is registered
+  triggered: boolean;
+  weight: number;
+  message: string;
+  evidence: Record<string, string | number | boolean | null>;
+}
+
+export const CHAIN_AUDIT_STATUSES = ["passed", "tampered"] as const;
+export type ChainAuditStatus = typeof CHAIN_AUDIT_STATUSES[number];
+
+// One vehicle whose stored chain or rewards failed the audit
+export interface ChainAuditFinding {
+  vehicleNumber: string;
+  firstBrokenBlock: number | null; // null if every block verifies but a reward doesn't match
+  errors: string[];
+}
+
+// Sibling hash on the path from a reading's leaf to its batch's Merkle root
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right'; // side the sibling sits on
+}
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertReward = z.infer<typeof insertRewardSchema>;
 export type Reward = typeof rewards.$inferSelect;
+export type BlockchainRecord = typeof blockchainRegistry.$inferSelect;
+export type GlobalFraudEntry = typeof globalFraudDatabase.$inferSelect;
+export type InsertRewardRule = z.infer<typeof insertRewardRuleSchema>;
+export type RewardRule = typeof rewardRules.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertWithdrawal = z.infer<typeof insertWithdrawalSchema>;
+export type Withdrawal = typeof withdrawals.$inferSelect;
+export type InsertAdminAuditLog = z.infer<typeof insertAdminAuditLogSchema>;
+export type AdminAuditLog = typeof adminAuditLog.$inferSelect;
+export type InsertAnchorJob = z.infer<typeof insertAnchorJobSchema>;
+export type AnchorJob = typeof anchorJobs.$inferSelect;
+export type InsertAnchorBatch = z.infer<typeof insertAnchorBatchSchema>;
+export type AnchorBatch = typeof anchorBatches.$inferSelect;
+export type InsertPartnerApp = z.infer<typeof insertPartnerAppSchema>;
+export type PartnerApp = typeof partnerApps.$inferSelect;
+export type InsertSigningKey = z.infer<typeof insertSigningKeySchema>;
+export type SigningKey = typeof signingKeys.$inferSelect;
+export type InsertChainAudit = z.infer<typeof insertChainAuditSchema>;
+export type ChainAudit = typeof chainAudits.$inferSelect;
+export type InsertMaintenanceRun = z.infer<typeof insertMaintenanceRunSchema>;
+export type MaintenanceRun = typeof maintenanceRuns.$inferSelect;
+export type InsertAdminAlert = z.infer<typeof insertAdminAlertSchema>;
+export type AdminAlert = typeof adminAlerts.$inferSelect;
+export type InsertAppeal = z.infer<typeof insertAppealSchema>;
+export type Appeal = typeof appeals.$inferSelect;